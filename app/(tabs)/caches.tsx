@@ -0,0 +1,236 @@
+import { router } from 'expo-router';
+import React from 'react';
+import { Alert, FlatList, Pressable, StyleSheet, Text, View } from 'react-native';
+
+import { useActiveCache, useCaches } from '@/hooks/useCaches';
+import { useThemedStyles } from '@/hooks/usePalette';
+import { useSettings } from '@/hooks/useSettings';
+import { pickCacheFileAsync, shareGpxAsync } from '@/lib/cacheFiles';
+import { importCaches, setActiveCache, type Cache } from '@/lib/cacheStore';
+import { formatCoordinates } from '@/lib/coordinates';
+import { exportGpx } from '@/lib/gpx';
+import { isMultiCache } from '@/lib/multiCache';
+import type { Palette } from '@/lib/theme';
+import { toGpxTrack, trackPoints, trackStore } from '@/lib/trackStore';
+
+export default function CacheListScreen() {
+  const styles = useThemedStyles(createStyles);
+  const caches = useCaches();
+  const activeCache = useActiveCache();
+  const { coordinateFormat } = useSettings();
+
+  const handleImport = async () => {
+    try {
+      const drafts = await pickCacheFileAsync();
+      if (!drafts) return;
+      const { added, updated } = importCaches(drafts);
+      Alert.alert('Import Complete', `${added} added, ${updated} updated.`);
+    } catch (error) {
+      Alert.alert('Import Failed', (error as Error).message);
+    }
+  };
+
+  const handleExport = async () => {
+    try {
+      const tracks = trackStore.getState().tracks.filter((track) => trackPoints(track).length > 0);
+      await shareGpxAsync(exportGpx(caches, tracks.map(toGpxTrack)), 'geocash-caches.gpx');
+    } catch (error) {
+      Alert.alert('Export Failed', (error as Error).message);
+    }
+  };
+
+  const renderCache = ({ item }: { item: Cache }) => {
+    const isActive = item.id === activeCache?.id;
+
+    return (
+      <Pressable
+        style={[styles.cacheRow, isActive && styles.cacheRowActive]}
+        onPress={() => setActiveCache(isActive ? null : item.id)}
+        onLongPress={() => router.push(`/cache/${item.id}`)}
+      >
+        <View style={styles.cacheInfo}>
+          <Text style={styles.cacheName}>{item.name}</Text>
+          <Text style={styles.cacheMeta}>
+            {formatCoordinates(item.coordinates, coordinateFormat)} · D{item.difficulty}
+            {isMultiCache(item)
+              ? ` · ${item.stages.filter((stage) => stage.found).length}/${item.stages.length} STAGES`
+              : ''}
+          </Text>
+        </View>
+        <Pressable style={styles.editButton} onPress={() => router.push(`/cache/${item.id}`)}>
+          <Text style={styles.editButtonText}>EDIT</Text>
+        </Pressable>
+      </Pressable>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <Text style={styles.title}>CACHES</Text>
+        <Text style={styles.subtitle}>
+          {activeCache ? `Target: ${activeCache.name}` : 'Tap a cache to target it'}
+        </Text>
+      </View>
+
+      <FlatList
+        data={caches}
+        keyExtractor={(cache) => cache.id}
+        renderItem={renderCache}
+        contentContainerStyle={styles.listContent}
+        ListEmptyComponent={
+          <Text style={styles.emptyText}>No caches yet. Add one to start hunting.</Text>
+        }
+      />
+
+      <View style={styles.fileActions}>
+        <Pressable style={styles.fileButton} onPress={handleImport}>
+          <Text style={styles.fileButtonText}>IMPORT GPX/LOC</Text>
+        </Pressable>
+        <Pressable
+          style={[styles.fileButton, caches.length === 0 && styles.fileButtonDisabled]}
+          onPress={handleExport}
+          disabled={caches.length === 0}
+        >
+          <Text style={styles.fileButtonText}>EXPORT GPX</Text>
+        </Pressable>
+      </View>
+
+      <View style={styles.fileActions}>
+        <Pressable style={styles.fileButton} onPress={() => router.push('/mark')}>
+          <Text style={styles.fileButtonText}>MARK THIS SPOT</Text>
+        </Pressable>
+        <Pressable style={styles.fileButton} onPress={() => router.push('/project')}>
+          <Text style={styles.fileButtonText}>PROJECT WAYPOINT</Text>
+        </Pressable>
+      </View>
+
+      <View style={styles.fileActions}>
+        <Pressable
+          style={[styles.fileButton, !activeCache && styles.fileButtonDisabled]}
+          onPress={() => activeCache && router.push(`/log/${activeCache.id}`)}
+          disabled={!activeCache}
+        >
+          <Text style={styles.fileButtonText}>LOG TARGET</Text>
+        </Pressable>
+        <Pressable style={styles.fileButton} onPress={() => router.push('/stats')}>
+          <Text style={styles.fileButtonText}>STATS</Text>
+        </Pressable>
+      </View>
+
+      <Pressable style={styles.addButton} onPress={() => router.push('/cache/new')}>
+        <Text style={styles.addButtonText}>+ NEW CACHE</Text>
+      </Pressable>
+    </View>
+  );
+}
+
+const createStyles = (palette: Palette) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: '#000000',
+      paddingTop: 60,
+      paddingHorizontal: 20,
+      paddingBottom: 20,
+    },
+    header: {
+      alignItems: 'center',
+      marginBottom: 20,
+    },
+    title: {
+      fontSize: 24,
+      fontWeight: 'bold',
+      color: palette.accent,
+      letterSpacing: 3,
+    },
+    subtitle: {
+      fontSize: 12,
+      color: palette.accent,
+      opacity: 0.7,
+      marginTop: 5,
+    },
+    listContent: {
+      paddingBottom: 20,
+    },
+    cacheRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      backgroundColor: palette.tint(0.05),
+      borderRadius: 10,
+      borderWidth: 1,
+      borderColor: palette.tint(0.4),
+      padding: 15,
+      marginBottom: 10,
+    },
+    cacheRowActive: {
+      borderColor: palette.accent,
+      backgroundColor: palette.tint(0.15),
+    },
+    cacheInfo: {
+      flex: 1,
+    },
+    cacheName: {
+      color: '#ffffff',
+      fontSize: 16,
+      fontWeight: 'bold',
+      marginBottom: 4,
+    },
+    cacheMeta: {
+      color: palette.accent,
+      fontSize: 12,
+      fontFamily: 'monospace',
+    },
+    editButton: {
+      paddingVertical: 6,
+      paddingHorizontal: 10,
+      borderWidth: 1,
+      borderColor: palette.accent,
+      borderRadius: 6,
+    },
+    editButtonText: {
+      color: palette.accent,
+      fontSize: 12,
+      fontWeight: 'bold',
+    },
+    emptyText: {
+      color: palette.accent,
+      opacity: 0.7,
+      textAlign: 'center',
+      marginTop: 40,
+    },
+    fileActions: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      marginBottom: 10,
+    },
+    fileButton: {
+      width: '48%',
+      borderWidth: 1,
+      borderColor: palette.accent,
+      borderRadius: 10,
+      paddingVertical: 10,
+      alignItems: 'center',
+    },
+    fileButtonDisabled: {
+      opacity: 0.4,
+    },
+    fileButtonText: {
+      color: palette.accent,
+      fontSize: 12,
+      fontWeight: 'bold',
+    },
+    addButton: {
+      backgroundColor: palette.accent,
+      borderRadius: 10,
+      paddingVertical: 14,
+      alignItems: 'center',
+    },
+    addButtonText: {
+      color: '#000000',
+      fontSize: 16,
+      fontWeight: 'bold',
+      letterSpacing: 2,
+    },
+  });
@@ -1,14 +1,6 @@
+import { Redirect } from 'expo-router';
 
-// import { HelloWave } from '@/components/HelloWave';
-// import ParallaxScrollView from '@/components/ParallaxScrollView';
-// import { ThemedText } from '@/components/ThemedText';
-// import { ThemedView } from '@/components/ThemedView';
-// import TransponderCompass from './transponderCompass';
-import TransponderWaypoint from './transponderWaypoint';
-
-export default function HomeScreen() {
-  // return <TransponderCompass />
-  return <TransponderWaypoint />
+/** The app opens on the waypoint arrow; `/` only exists so plain scheme links land somewhere. */
+export default function Index() {
+  return <Redirect href="/transponderWaypoint" />;
 }
-
-
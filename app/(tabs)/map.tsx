@@ -0,0 +1,364 @@
+import { Image } from 'expo-image';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { PanResponder, Pressable, StyleSheet, Text, View } from 'react-native';
+import Svg, { Circle, Line, Polyline } from 'react-native-svg';
+
+import { useCacheIdParam } from '@/hooks/useCacheIdParam';
+import { useMapSource } from '@/hooks/useMapSource';
+import { useNavigationTarget } from '@/hooks/useNavigationTarget';
+import { usePosition } from '@/hooks/usePosition';
+import { useSensorProvider } from '@/hooks/useSensorProvider';
+import { useSettings } from '@/hooks/useSettings';
+import { useBacktrack } from '@/hooks/useTracks';
+import { distanceUnit, formatDistance, type UnitSystem } from '@/lib/format';
+import { haversineDistance, type Coordinates } from '@/lib/geo';
+import { getTileUriAsync, type MapSource } from '@/lib/mapSources';
+import {
+  fromWorldPoint,
+  metersPerPixel,
+  toWorldPoint,
+  visibleTiles,
+  type VisibleTile,
+} from '@/lib/tiles';
+
+const MIN_ZOOM = 2;
+const MAX_ZOOM = 20;
+const DEFAULT_ZOOM = 16;
+/** A source is drawn scaled down at most this many levels below its shallowest zoom. */
+const MAX_UNDERZOOM = 2;
+/** Breadcrumbs closer together than this (m) are dropped. */
+const TRAIL_SPACING = 3;
+const TRAIL_MAX_POINTS = 1000;
+const SCALE_BAR_WIDTH = 100;
+const SCALE_STEPS = [1, 2, 5];
+
+function MapTile({ source, tile }: { source: MapSource; tile: VisibleTile }) {
+  const [uri, setUri] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getTileUriAsync(source, tile.z, tile.x, tile.y)
+      .then((tileUri) => !cancelled && setUri(tileUri))
+      .catch((error) => console.warn('Failed to load tile:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [source, tile.z, tile.x, tile.y]);
+
+  if (!uri) return null;
+  return (
+    <Image
+      source={{ uri }}
+      style={{ position: 'absolute', left: tile.left, top: tile.top, width: tile.size, height: tile.size }}
+    />
+  );
+}
+
+/** Largest 1/2/5×10ⁿ distance, in the display unit, that fits in the scale bar. */
+function scaleBar(latitude: number, zoom: number, units: UnitSystem): { meters: number; width: number } {
+  const resolution = metersPerPixel(latitude, zoom);
+  const maxMeters = SCALE_BAR_WIDTH * resolution;
+  const unit = distanceUnit(maxMeters, units).length;
+  const maxUnits = maxMeters / unit;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(maxUnits)));
+  const step = [...SCALE_STEPS].reverse().find((candidate) => candidate * magnitude <= maxUnits) ?? 1;
+  const meters = step * magnitude * unit;
+  return { meters, width: meters / resolution };
+}
+
+export default function MapScreen() {
+  useCacheIdParam();
+  const source = useMapSource();
+  const { units } = useSettings();
+  const provider = useSensorProvider();
+  // The same filtered position the transponders navigate from
+  const { filtered: position, error } = usePosition();
+  const target = useNavigationTarget(position)?.coordinates ?? null;
+  // The track being recorded, or the latest one
+  const { track } = useBacktrack();
+  const [trail, setTrail] = useState<Coordinates[]>([]);
+  const [zoom, setZoom] = useState(DEFAULT_ZOOM);
+  const [follow, setFollow] = useState(true);
+  const [manualCenter, setManualCenter] = useState<Coordinates | null>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  // A new provider starts a new trail
+  useEffect(() => setTrail([]), [provider]);
+
+  useEffect(() => {
+    if (!position) return;
+    setTrail((previous) => {
+      const last = previous[previous.length - 1];
+      if (last && haversineDistance(last, position) < TRAIL_SPACING) return previous;
+      const point = { latitude: position.latitude, longitude: position.longitude };
+      return [...previous, point].slice(-TRAIL_MAX_POINTS);
+    });
+  }, [position]);
+
+  const center: Coordinates | null = (follow ? position : manualCenter) ?? position ?? target;
+
+  // The pan responder is created once, so it reads the latest view through a ref
+  const view = useRef({ center, zoom });
+  view.current = { center, zoom };
+  const panStart = useRef<Coordinates | null>(null);
+  const panResponder = useMemo(
+    () =>
+      PanResponder.create({
+        onMoveShouldSetPanResponder: (_, { dx, dy }) => Math.abs(dx) + Math.abs(dy) > 4,
+        onPanResponderGrant: () => {
+          panStart.current = view.current.center;
+        },
+        onPanResponderMove: (_, { dx, dy }) => {
+          if (!panStart.current) return;
+          const start = toWorldPoint(panStart.current, view.current.zoom);
+          setManualCenter(fromWorldPoint({ x: start.x - dx, y: start.y - dy }, view.current.zoom));
+          setFollow(false);
+        },
+      }),
+    []
+  );
+
+  const centerPoint = center ? toWorldPoint(center, zoom) : null;
+  const project = (coordinates: Coordinates) => {
+    const point = toWorldPoint(coordinates, zoom);
+    return {
+      x: point.x - (centerPoint?.x ?? 0) + size.width / 2,
+      y: point.y - (centerPoint?.y ?? 0) + size.height / 2,
+    };
+  };
+
+  const tiles =
+    source && centerPoint && size.width > 0 && zoom >= source.minZoom - MAX_UNDERZOOM
+      ? visibleTiles(
+          centerPoint,
+          zoom,
+          size.width,
+          size.height,
+          Math.min(Math.max(zoom, source.minZoom), source.maxZoom)
+        )
+      : [];
+
+  const me = position ? project(position) : null;
+  const targetPoint = target ? project(target) : null;
+  const accuracyRadius = position ? position.accuracy / metersPerPixel(position.latitude, zoom) : 0;
+  const scale = center ? scaleBar(center.latitude, zoom, units) : null;
+
+  const changeZoom = (delta: number) => {
+    setZoom((current) => Math.min(Math.max(current + delta, MIN_ZOOM), MAX_ZOOM));
+  };
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <Text style={styles.title}>MAP</Text>
+        <Text style={styles.subtitle}>
+          {source ? `${source.name} · Z${source.minZoom}-${source.maxZoom}` : 'No offline map · set one up in Settings'}
+        </Text>
+      </View>
+
+      <View
+        style={styles.map}
+        onLayout={({ nativeEvent }) => setSize(nativeEvent.layout)}
+        {...panResponder.panHandlers}
+      >
+        {source && tiles.map((tile) => (
+          <MapTile key={`${tile.z}/${tile.x}/${tile.y}`} source={source} tile={tile} />
+        ))}
+
+        <Svg width={size.width} height={size.height} style={StyleSheet.absoluteFill}>
+          {track?.segments.map((segment, index) =>
+            segment.length > 1 ? (
+              <Polyline
+                key={index}
+                points={segment.map((point) => project(point)).map(({ x, y }) => `${x},${y}`).join(' ')}
+                fill="none"
+                stroke="#00ffff"
+                strokeWidth={3}
+              />
+            ) : null
+          )}
+
+          {trail.length > 1 && (
+            <Polyline
+              points={trail.map((point) => project(point)).map(({ x, y }) => `${x},${y}`).join(' ')}
+              fill="none"
+              stroke="#00ff00"
+              strokeWidth={3}
+              strokeOpacity={0.6}
+            />
+          )}
+
+          {me && targetPoint && (
+            <Line
+              x1={me.x}
+              y1={me.y}
+              x2={targetPoint.x}
+              y2={targetPoint.y}
+              stroke="#FF3B30"
+              strokeWidth={2}
+              strokeDasharray="8,6"
+            />
+          )}
+
+          {targetPoint && (
+            <>
+              <Circle cx={targetPoint.x} cy={targetPoint.y} r={10} fill="none" stroke="#FF3B30" strokeWidth={3} />
+              <Circle cx={targetPoint.x} cy={targetPoint.y} r={3} fill="#FF3B30" />
+            </>
+          )}
+
+          {me && (
+            <>
+              <Circle
+                cx={me.x}
+                cy={me.y}
+                r={accuracyRadius}
+                fill="rgba(0, 255, 0, 0.15)"
+                stroke="#00ff00"
+                strokeWidth={1}
+              />
+              <Circle cx={me.x} cy={me.y} r={6} fill="#ffff00" stroke="#000000" strokeWidth={2} />
+            </>
+          )}
+        </Svg>
+
+        {!center && (
+          <View style={styles.messageContainer}>
+            <Text style={styles.messageText}>{error ?? '🛰️ Getting your location...'}</Text>
+          </View>
+        )}
+
+        {/* Controls */}
+        <View style={styles.controls}>
+          <Pressable style={styles.controlButton} onPress={() => changeZoom(1)}>
+            <Text style={styles.controlText}>+</Text>
+          </Pressable>
+          <Pressable style={styles.controlButton} onPress={() => changeZoom(-1)}>
+            <Text style={styles.controlText}>−</Text>
+          </Pressable>
+          <Pressable
+            style={[styles.controlButton, follow && styles.controlButtonActive]}
+            onPress={() => setFollow(true)}
+          >
+            <Text style={[styles.controlText, follow && styles.controlTextActive]}>◎</Text>
+          </Pressable>
+        </View>
+
+        {scale && (
+          <View style={styles.scaleContainer}>
+            <View style={[styles.scaleBar, { width: scale.width }]} />
+            <Text style={styles.scaleText}>{formatDistance(scale.meters, units)}</Text>
+          </View>
+        )}
+      </View>
+
+      {/* Status */}
+      <View style={styles.statusBar}>
+        <Text style={styles.statusText}>Z{zoom}</Text>
+        <Text style={styles.statusText}>±{Math.round(position?.accuracy ?? 0)}m</Text>
+        <Text style={styles.statusText}>
+          {position && target ? `${formatDistance(haversineDistance(position, target), units)} TO TARGET` : 'NO TARGET'}
+        </Text>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000000',
+    paddingTop: 60,
+    paddingBottom: 40,
+  },
+  header: {
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#00ff00',
+    letterSpacing: 3,
+  },
+  subtitle: {
+    fontSize: 12,
+    color: '#00ff00',
+    opacity: 0.7,
+    marginTop: 5,
+  },
+  map: {
+    flex: 1,
+    overflow: 'hidden',
+    backgroundColor: '#001100',
+    borderTopWidth: 1,
+    borderBottomWidth: 1,
+    borderColor: '#00ff00',
+  },
+  messageContainer: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  messageText: {
+    color: '#00ff00',
+    fontSize: 14,
+    textAlign: 'center',
+  },
+  controls: {
+    position: 'absolute',
+    right: 10,
+    top: 10,
+  },
+  controlButton: {
+    width: 44,
+    height: 44,
+    marginBottom: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#00ff00',
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  controlButtonActive: {
+    backgroundColor: '#00ff00',
+  },
+  controlText: {
+    color: '#00ff00',
+    fontSize: 22,
+    fontWeight: 'bold',
+  },
+  controlTextActive: {
+    color: '#000000',
+  },
+  scaleContainer: {
+    position: 'absolute',
+    left: 10,
+    bottom: 10,
+  },
+  scaleBar: {
+    height: 6,
+    borderWidth: 2,
+    borderTopWidth: 0,
+    borderColor: '#00ff00',
+  },
+  scaleText: {
+    color: '#00ff00',
+    fontSize: 12,
+    fontFamily: 'monospace',
+    marginTop: 2,
+  },
+  statusBar: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    paddingVertical: 10,
+  },
+  statusText: {
+    color: '#ffffff',
+    fontSize: 12,
+    fontFamily: 'monospace',
+  },
+});
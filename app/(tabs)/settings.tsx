@@ -0,0 +1,461 @@
+import React, { useEffect, useState } from 'react';
+import { Alert, Pressable, ScrollView, StyleSheet, Switch, Text, TextInput, View } from 'react-native';
+
+import { useMapSource } from '@/hooks/useMapSource';
+import { useNavigationTarget } from '@/hooks/useNavigationTarget';
+import { usePalette, useThemedStyles } from '@/hooks/usePalette';
+import { useSensorProvider } from '@/hooks/useSensorProvider';
+import { useSettings } from '@/hooks/useSettings';
+import { startBackgroundTrackingAsync, stopBackgroundTrackingAsync } from '@/lib/backgroundLocation';
+import { pickSensorSessionAsync } from '@/lib/cacheFiles';
+import { COORDINATE_FORMATS } from '@/lib/coordinates';
+import { UNIT_SYSTEMS } from '@/lib/format';
+import { destinationPoint } from '@/lib/geo';
+import { GPS_PROFILES } from '@/lib/gpsProfiles';
+import { clearMapSource, importMbtilesAsync, loadTileDirectoryAsync, TILE_DIRECTORY } from '@/lib/mapSources';
+import { parseProximityRings } from '@/lib/proximity';
+import { ORIENTATION_MODES } from '@/lib/screenOrientation';
+import { deviceProvider, setSensorProvider } from '@/lib/sensorProvider';
+import { scriptedWalk } from '@/lib/sensorSession';
+import {
+  ARROW_SMOOTHING_LEVELS,
+  SENSOR_RATES,
+  TOLERANCE_CONES,
+  updateSettings,
+  type Settings,
+} from '@/lib/settingsStore';
+import { createSimulatedProvider } from '@/lib/simulatedProvider';
+import { THEMES, type Palette } from '@/lib/theme';
+
+/** A simulated walk starts this far (m) south-west of the target. */
+const SIMULATED_WALK_DISTANCE = 250;
+
+/** A row of mutually exclusive choices for a numeric or string setting. */
+function ChoiceRow<K extends keyof Settings>({
+  setting,
+  value,
+  choices,
+}: {
+  setting: K;
+  value: Settings[K];
+  choices: { value: Settings[K]; label: string }[];
+}) {
+  const styles = useThemedStyles(createStyles);
+  return (
+    <View style={styles.chipRow}>
+      {choices.map((choice) => {
+        const selected = choice.value === value;
+        return (
+          <Pressable
+            key={String(choice.value)}
+            style={[styles.chip, selected && styles.chipSelected]}
+            onPress={() => updateSettings({ [setting]: choice.value } as Partial<Settings>)}
+          >
+            <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{choice.label}</Text>
+          </Pressable>
+        );
+      })}
+    </View>
+  );
+}
+
+export default function SettingsScreen() {
+  const palette = usePalette();
+  const styles = useThemedStyles(createStyles);
+  const settings = useSettings();
+  const mapSource = useMapSource();
+  const provider = useSensorProvider();
+  const target = useNavigationTarget(null);
+  const [ringsInput, setRingsInput] = useState(settings.proximityRings.join(', '));
+  const [ringsError, setRingsError] = useState<string | null>(null);
+  const [radiusInput, setRadiusInput] = useState(String(settings.alertRadius));
+  const [radiusError, setRadiusError] = useState<string | null>(null);
+  const [togglingBackground, setTogglingBackground] = useState(false);
+
+  // Follow the stored value once it hydrates or changes elsewhere
+  useEffect(() => {
+    setRingsInput(settings.proximityRings.join(', '));
+  }, [settings.proximityRings]);
+  useEffect(() => {
+    setRadiusInput(String(settings.alertRadius));
+  }, [settings.alertRadius]);
+
+  const handleMapAction = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+    } catch (error) {
+      Alert.alert('Offline Map', (error as Error).message);
+    }
+  };
+
+  const simulateWalk = () => {
+    if (!target) return;
+    const start = destinationPoint(target.coordinates, 225, SIMULATED_WALK_DISTANCE);
+    const session = scriptedWalk(start, target.coordinates);
+    setSensorProvider(createSimulatedProvider({ ...session, name: `Walk to ${target.name}` }));
+  };
+
+  const replaySession = async () => {
+    try {
+      const session = await pickSensorSessionAsync();
+      if (session) setSensorProvider(createSimulatedProvider(session, { loop: true }));
+    } catch (error) {
+      Alert.alert('Replay Failed', (error as Error).message);
+    }
+  };
+
+  const saveRings = () => {
+    const rings = parseProximityRings(ringsInput);
+    if (!rings) {
+      setRingsError('Enter distances in meters, e.g. 100, 25, 5');
+      return;
+    }
+    setRingsError(null);
+    updateSettings({ proximityRings: rings });
+    setRingsInput(rings.join(', '));
+  };
+
+  const toggleBackgroundTracking = async (enabled: boolean) => {
+    setTogglingBackground(true);
+    try {
+      if (enabled) await startBackgroundTrackingAsync();
+      else await stopBackgroundTrackingAsync();
+      updateSettings({ backgroundTracking: enabled });
+    } catch (error) {
+      Alert.alert('Background Tracking', (error as Error).message);
+    } finally {
+      setTogglingBackground(false);
+    }
+  };
+
+  const saveRadius = () => {
+    const radius = Number(radiusInput.trim());
+    if (!radiusInput.trim() || !Number.isFinite(radius) || radius <= 0) {
+      setRadiusError('Enter a distance in meters, e.g. 50');
+      return;
+    }
+    setRadiusError(null);
+    updateSettings({ alertRadius: Math.round(radius) });
+    setRadiusInput(String(Math.round(radius)));
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      {/* Header */}
+      <View style={styles.header}>
+        <Text style={styles.title}>SETTINGS</Text>
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>COORDINATE FORMAT</Text>
+        {COORDINATE_FORMATS.map(({ value, label, example }) => {
+          const selected = settings.coordinateFormat === value;
+          return (
+            <Pressable
+              key={value}
+              style={[styles.option, selected && styles.optionSelected]}
+              onPress={() => updateSettings({ coordinateFormat: value })}
+            >
+              <Text style={styles.optionLabel}>{label}</Text>
+              <Text style={styles.optionExample}>{example}</Text>
+            </Pressable>
+          );
+        })}
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>UNITS</Text>
+        {UNIT_SYSTEMS.map(({ value, label, example }) => {
+          const selected = settings.units === value;
+          return (
+            <Pressable
+              key={value}
+              style={[styles.option, selected && styles.optionSelected]}
+              onPress={() => updateSettings({ units: value })}
+            >
+              <Text style={styles.optionLabel}>{label}</Text>
+              <Text style={styles.optionExample}>{example}</Text>
+            </Pressable>
+          );
+        })}
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>GPS</Text>
+        {GPS_PROFILES.map(({ value, label, description }) => {
+          const selected = settings.gpsProfile === value;
+          return (
+            <Pressable
+              key={value}
+              style={[styles.option, selected && styles.optionSelected]}
+              onPress={() => updateSettings({ gpsProfile: value })}
+            >
+              <Text style={styles.optionLabel}>{label}</Text>
+              <Text style={styles.optionExample}>{description}</Text>
+            </Pressable>
+          );
+        })}
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>COMPASS</Text>
+        <Text style={styles.fieldLabel}>SENSOR RATE</Text>
+        <ChoiceRow setting="sensorInterval" value={settings.sensorInterval} choices={SENSOR_RATES} />
+        <Text style={styles.fieldLabel}>ARROW SMOOTHING</Text>
+        <ChoiceRow setting="arrowSmoothing" value={settings.arrowSmoothing} choices={ARROW_SMOOTHING_LEVELS} />
+        <Text style={styles.fieldLabel}>TOLERANCE CONE</Text>
+        <ChoiceRow setting="toleranceCone" value={settings.toleranceCone} choices={TOLERANCE_CONES} />
+        <Text style={styles.fieldLabel}>THEME</Text>
+        <ChoiceRow setting="theme" value={settings.theme} choices={THEMES} />
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>ORIENTATION</Text>
+        <Text style={styles.fieldLabel}>COMPASS SCREEN</Text>
+        <ChoiceRow setting="compassOrientation" value={settings.compassOrientation} choices={ORIENTATION_MODES} />
+        <Text style={styles.fieldLabel}>WAYPOINT SCREEN</Text>
+        <ChoiceRow setting="waypointOrientation" value={settings.waypointOrientation} choices={ORIENTATION_MODES} />
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>PROXIMITY PING</Text>
+        <Text style={styles.fieldLabel}>RINGS (METERS)</Text>
+        <TextInput
+          style={styles.input}
+          value={ringsInput}
+          onChangeText={setRingsInput}
+          onEndEditing={saveRings}
+          onSubmitEditing={saveRings}
+          keyboardType="numbers-and-punctuation"
+          placeholder="100, 25, 5"
+          placeholderTextColor={palette.muted}
+        />
+        {ringsError && <Text style={styles.errorText}>{ringsError}</Text>}
+        <View style={styles.switchRow}>
+          <Text style={styles.optionLabel}>Ping tones</Text>
+          <Switch
+            value={settings.proximityAudio}
+            onValueChange={(proximityAudio) => updateSettings({ proximityAudio })}
+            trackColor={{ false: '#333333', true: palette.tint(0.6) }}
+            thumbColor={settings.proximityAudio ? palette.accent : '#888888'}
+          />
+        </View>
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>BACKGROUND TRACKING</Text>
+        <View style={styles.switchRow}>
+          <Text style={styles.optionLabel}>Track target when locked</Text>
+          <Switch
+            value={settings.backgroundTracking}
+            disabled={togglingBackground}
+            onValueChange={toggleBackgroundTracking}
+            trackColor={{ false: '#333333', true: palette.tint(0.6) }}
+            thumbColor={settings.backgroundTracking ? palette.accent : '#888888'}
+          />
+        </View>
+        <Text style={styles.optionExample}>
+          Shows distance and bearing in a notification and alerts when you get close
+        </Text>
+        <Text style={styles.fieldLabel}>ALERT RADIUS (METERS)</Text>
+        <TextInput
+          style={styles.input}
+          value={radiusInput}
+          onChangeText={setRadiusInput}
+          onEndEditing={saveRadius}
+          onSubmitEditing={saveRadius}
+          keyboardType="number-pad"
+          placeholder="50"
+          placeholderTextColor={palette.muted}
+        />
+        {radiusError && <Text style={styles.errorText}>{radiusError}</Text>}
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>OFFLINE MAP</Text>
+        <Text style={styles.optionLabel}>{mapSource ? mapSource.name : 'None'}</Text>
+        <Text style={styles.optionExample}>
+          {mapSource
+            ? `${mapSource.kind === 'mbtiles' ? 'MBTiles' : 'Tile folder'} · zoom ${mapSource.minZoom}-${mapSource.maxZoom}`
+            : `Import an MBTiles file, or copy {z}/{x}/{y} tiles to ${TILE_DIRECTORY ?? 'the tiles folder'}`}
+        </Text>
+        <View style={styles.buttonRow}>
+          <Pressable style={styles.button} onPress={() => handleMapAction(importMbtilesAsync)}>
+            <Text style={styles.buttonText}>IMPORT MBTILES</Text>
+          </Pressable>
+          <Pressable style={styles.button} onPress={() => handleMapAction(loadTileDirectoryAsync)}>
+            <Text style={styles.buttonText}>USE TILE FOLDER</Text>
+          </Pressable>
+        </View>
+        {mapSource && (
+          <Pressable style={[styles.button, styles.removeButton]} onPress={() => handleMapAction(clearMapSource)}>
+            <Text style={styles.buttonText}>REMOVE MAP</Text>
+          </Pressable>
+        )}
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>SIMULATION</Text>
+        <Text style={styles.optionLabel}>{provider.simulated ? provider.name : 'Off'}</Text>
+        <Text style={styles.optionExample}>
+          {provider.simulated
+            ? 'Position and compass are simulated until you stop or restart the app'
+            : 'Replay a recorded JSON session or GPX track, or walk to the target, without moving'}
+        </Text>
+        <View style={styles.buttonRow}>
+          <Pressable
+            style={[styles.button, !target && styles.buttonDisabled]}
+            onPress={simulateWalk}
+            disabled={!target}
+          >
+            <Text style={styles.buttonText}>WALK TO TARGET</Text>
+          </Pressable>
+          <Pressable style={styles.button} onPress={replaySession}>
+            <Text style={styles.buttonText}>REPLAY FILE</Text>
+          </Pressable>
+        </View>
+        {provider.simulated && (
+          <Pressable style={[styles.button, styles.removeButton]} onPress={() => setSensorProvider(deviceProvider)}>
+            <Text style={styles.buttonText}>STOP SIMULATION</Text>
+          </Pressable>
+        )}
+      </View>
+    </ScrollView>
+  );
+}
+
+const createStyles = (palette: Palette) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: '#000000',
+    },
+    content: {
+      paddingTop: 60,
+      paddingHorizontal: 20,
+      paddingBottom: 40,
+    },
+    header: {
+      alignItems: 'center',
+      marginBottom: 20,
+    },
+    title: {
+      fontSize: 24,
+      fontWeight: 'bold',
+      color: palette.accent,
+      letterSpacing: 3,
+    },
+    section: {
+      backgroundColor: palette.tint(0.1),
+      borderRadius: 15,
+      padding: 15,
+      borderWidth: 1,
+      borderColor: palette.accent,
+      marginBottom: 20,
+    },
+    sectionTitle: {
+      color: palette.accent,
+      fontSize: 14,
+      fontWeight: 'bold',
+      marginBottom: 10,
+      textAlign: 'center',
+    },
+    option: {
+      borderWidth: 1,
+      borderColor: palette.tint(0.3),
+      borderRadius: 8,
+      padding: 10,
+      marginVertical: 4,
+    },
+    optionSelected: {
+      borderColor: palette.accent,
+      backgroundColor: palette.tint(0.2),
+    },
+    optionLabel: {
+      color: '#ffffff',
+      fontSize: 14,
+      fontWeight: 'bold',
+    },
+    fieldLabel: {
+      color: palette.accent,
+      fontSize: 12,
+      marginBottom: 5,
+    },
+    input: {
+      color: '#ffffff',
+      fontSize: 16,
+      fontFamily: 'monospace',
+      borderWidth: 1,
+      borderColor: palette.accent,
+      borderRadius: 8,
+      paddingHorizontal: 12,
+      paddingVertical: 10,
+    },
+    errorText: {
+      color: '#ff0000',
+      fontSize: 12,
+      marginTop: 5,
+    },
+    switchRow: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      marginTop: 15,
+    },
+    buttonRow: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      marginTop: 10,
+    },
+    button: {
+      width: '48%',
+      borderWidth: 1,
+      borderColor: palette.accent,
+      borderRadius: 10,
+      paddingVertical: 10,
+      alignItems: 'center',
+    },
+    removeButton: {
+      width: '100%',
+      marginTop: 10,
+    },
+    buttonDisabled: {
+      opacity: 0.4,
+    },
+    buttonText: {
+      color: palette.accent,
+      fontSize: 12,
+      fontWeight: 'bold',
+    },
+    chipRow: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      marginBottom: 10,
+    },
+    chip: {
+      borderWidth: 1,
+      borderColor: palette.accent,
+      borderRadius: 6,
+      paddingVertical: 6,
+      paddingHorizontal: 10,
+      marginRight: 6,
+      marginBottom: 6,
+    },
+    chipSelected: {
+      backgroundColor: palette.accent,
+    },
+    chipText: {
+      color: palette.accent,
+      fontSize: 12,
+      fontWeight: 'bold',
+    },
+    chipTextSelected: {
+      color: '#000000',
+    },
+    optionExample: {
+      color: palette.accent,
+      fontSize: 12,
+      fontFamily: 'monospace',
+      marginTop: 2,
+    },
+  });
@@ -1,243 +1,211 @@
-import { Accelerometer, Magnetometer } from 'expo-sensors';
-import React, { useEffect, useState } from 'react';
-import { Dimensions, StyleSheet, Text, View } from 'react-native';
-import Svg, { Circle, G, Line, Text as SvgText } from 'react-native-svg';
+import { router } from 'expo-router';
+import React, { useEffect, useMemo } from 'react';
+import { Alert, Pressable, ScrollView, StyleSheet, Text, useWindowDimensions, View } from 'react-native';
+import { G, Line, Path } from 'react-native-svg';
 
-const { width, height } = Dimensions.get('window');
+import { CompassRose } from '@/components/CompassRose';
+import { CourseDeviationIndicator } from '@/components/CourseDeviationIndicator';
+import { InterferenceBanner } from '@/components/InterferenceBanner';
+import { useCacheIdParam } from '@/hooks/useCacheIdParam';
+import { useHeading } from '@/hooks/useHeading';
+import { useMagnetometerCalibration } from '@/hooks/useMagnetometerCalibration';
+import { useNavigationTarget } from '@/hooks/useNavigationTarget';
+import { useOrientationLock } from '@/hooks/useOrientationLock';
+import { usePalette, useThemedStyles } from '@/hooks/usePalette';
+import { usePosition } from '@/hooks/usePosition';
+import { useSettings } from '@/hooks/useSettings';
+import { formatDeclination, formatDistance } from '@/lib/format';
+import { calculateNavigationData, headingFromVector, relativeBearing } from '@/lib/geo';
+import { HEADING_SOURCE_LABELS } from '@/lib/headingFilter';
+import type { Palette } from '@/lib/theme';
 
-export default function TransponderCompass() {
-  const [magnetometerData, setMagnetometerData] = useState({ x: 0, y: 0, z: 0 });
-  const [accelerometerData, setAccelerometerData] = useState({ x: 0, y: 0, z: 0 });
-  const [heading, setHeading] = useState(0);
-  const [isCalibrated, setIsCalibrated] = useState(false);
+const TARGET_COLOR = '#ffff00';
 
-  useEffect(() => {
-    // Start magnetometer
-    Magnetometer.setUpdateInterval(100);
-    const magnetometerSubscription = Magnetometer.addListener((data) => {
-      setMagnetometerData(data);
-      
-      // Calculate magnetic heading
-      // In device coordinates: +X is right, +Y is up, +Z is out of screen
-      // For compass: 0° = North, 90° = East, 180° = South, 270° = West
-      let angle = Math.atan2(-data.x, data.y) * (180 / Math.PI);
-      
-      // Normalize to 0-360 degrees
-      if (angle < 0) {
-        angle += 360;
-      }
-      
-      setHeading(angle);
-    });
+/** Pie slice from the centre spanning ±`halfAngle` degrees either side of straight up. */
+function conePath(cx: number, cy: number, radius: number, halfAngle: number): string {
+  const a = (halfAngle * Math.PI) / 180;
+  const dx = radius * Math.sin(a);
+  const dy = radius * Math.cos(a);
+  return `M ${cx} ${cy} L ${cx - dx} ${cy - dy} A ${radius} ${radius} 0 0 1 ${cx + dx} ${cy - dy} Z`;
+}
 
-    // Start accelerometer
-    Accelerometer.setUpdateInterval(100);
-    const accelerometerSubscription = Accelerometer.addListener((data) => {
-      setAccelerometerData(data);
-    });
+export default function TransponderCompass() {
+  useCacheIdParam();
+  const palette = usePalette();
+  const styles = useThemedStyles(createStyles);
+  const { units, toleranceCone, compassOrientation } = useSettings();
+  useOrientationLock(compassOrientation);
+  const { width, height } = useWindowDimensions();
+  const landscape = width > height;
+  // Bearing and distance need a fix; the rose itself works without one
+  const position = usePosition().filtered;
+  const target = useNavigationTarget(position);
+  // Fused, tilt-compensated heading plus the raw readings it was computed from
+  const {
+    heading: compensatedHeading,
+    confidence,
+    source,
+    pitch,
+    roll,
+    upright,
+    reference,
+    declination,
+    calibrationQuality,
+    needsCalibration,
+    interference,
+    magnetometer: magnetometerData,
+    accelerometer: accelerometerData,
+  } = useHeading();
+  const calibration = useMagnetometerCalibration();
 
-    // Check if sensors are available
-    Magnetometer.isAvailableAsync().then((available) => {
-      setIsCalibrated(available);
-    });
+  const navigation = useMemo(
+    () => (position && target ? calculateNavigationData(position, target.coordinates) : null),
+    [position, target]
+  );
+  // Positive when the target is to the right of where the phone points
+  const deviation = navigation ? relativeBearing(navigation.bearing, compensatedHeading) : 0;
+  const onCourse = Math.abs(deviation) <= toleranceCone;
+
+  useEffect(() => {
+    if (calibration.error) Alert.alert('Calibration Failed', calibration.error);
+  }, [calibration.error]);
 
-    return () => {
-      magnetometerSubscription.remove();
-      accelerometerSubscription.remove();
-    };
-  }, []);
+  // The system compass calibrates itself; ours only applies to raw magnetometer readings
+  const calibrationStatus =
+    source === 'system'
+      ? { text: 'SYSTEM CALIBRATION', color: '#ffff00' }
+      : needsCalibration
+        ? { text: calibrationQuality === null ? 'NOT CALIBRATED' : 'NEEDS CALIBRATION', color: '#ff0000' }
+        : { text: `CALIBRATED · Q ${Math.round((calibrationQuality ?? 0) * 100)}%`, color: palette.accent };
 
-  const compassSize = Math.min(width, height) * 0.6;
+  const compassSize = Math.min(width, height) * 0.55;
   const compassRadius = compassSize / 2;
   const centerX = compassSize / 2;
   const centerY = compassSize / 2;
 
-  // Calculate device orientation
-  const pitch = Math.atan2(accelerometerData.y, accelerometerData.z) * (180 / Math.PI);
-  const roll = Math.atan2(accelerometerData.x, accelerometerData.z) * (180 / Math.PI);
-
-  // Apply tilt compensation to magnetometer readings
-  const cosRoll = Math.cos(roll * Math.PI / 180);
-  const sinRoll = Math.sin(roll * Math.PI / 180);
-  const cosPitch = Math.cos(pitch * Math.PI / 180);
-  const sinPitch = Math.sin(pitch * Math.PI / 180);
-
-  // Tilt-compensated magnetometer values
-  const magX = magnetometerData.x * cosPitch + magnetometerData.z * sinPitch;
-  const magY = magnetometerData.x * sinRoll * sinPitch + magnetometerData.y * cosRoll - magnetometerData.z * sinRoll * cosPitch;
-
-  // Calculate tilt-compensated heading
-  let compensatedHeading = Math.atan2(-magX, magY) * (180 / Math.PI);
-  if (compensatedHeading < 0) {
-    compensatedHeading += 360;
-  }
-
-  // The compass rose should rotate to keep North pointing up
-  const compassRotation = -compensatedHeading;
-
-  return (
-    <View style={styles.container}>
-      {/* Header */}
-      <View style={styles.header}>
-        <Text style={styles.title}>TRANSPONDER</Text>
-        <Text style={styles.subtitle}>Seeking Target</Text>
-      </View>
+  // Uncompensated heading, assuming the phone is held flat
+  // In device coordinates: +X is right, +Y is up, +Z is out of screen
+  const heading = headingFromVector(magnetometerData.x, magnetometerData.y);
 
-      {/* Main Compass */}
-      <View style={styles.compassContainer}>
-        <Svg width={compassSize} height={compassSize} style={styles.compass}>
-          {/* Outer circle */}
-          <Circle
-            cx={centerX}
-            cy={centerY}
-            r={compassRadius - 10}
-            fill="none"
-            stroke="#00ff00"
-            strokeWidth="2"
-          />
-          
-          {/* Inner circle */}
-          <Circle
-            cx={centerX}
-            cy={centerY}
-            r={compassRadius - 40}
-            fill="none"
-            stroke="#00ff00"
-            strokeWidth="1"
-            opacity="0.5"
-          />
+  const header = (
+    <View style={styles.header}>
+      <Text style={styles.title}>TRANSPONDER</Text>
+      <Text style={styles.subtitle}>
+        {!target
+          ? 'No target selected'
+          : navigation
+            ? `Seeking ${target.name}`
+            : `Waiting for a fix on ${target.name}`}
+      </Text>
+      <InterferenceBanner source={source} interference={interference} />
+    </View>
+  );
 
-          {/* Cardinal directions */}
-          <G rotation={compassRotation} origin={`${centerX}, ${centerY}`}>
-            {/* North marker */}
-            <Line
-              x1={centerX}
-              y1={20}
-              x2={centerX}
-              y2={40}
-              stroke="#ff0000"
-              strokeWidth="3"
+  const compass = (
+    <View style={styles.compassContainer}>
+      <CompassRose
+        heading={compensatedHeading}
+        size={compassSize}
+        confidence={confidence}
+        tape
+        overlay={<View style={styles.centerDot} />}
+      >
+        {/* Tolerance cone, bearing bug and needle sit on the target bearing and turn with the dial */}
+        {navigation && (
+          <G rotation={navigation.bearing} origin={`${centerX}, ${centerY}`}>
+            <Path
+              d={conePath(centerX, centerY, compassRadius - 45, toleranceCone)}
+              fill={onCourse ? palette.tint(0.25) : 'rgba(255, 255, 0, 0.15)'}
             />
-            <SvgText
-              x={centerX}
-              y={15}
-              fontSize="16"
-              fill="#ff0000"
-              textAnchor="middle"
-              fontWeight="bold"
-            >
-              N
-            </SvgText>
-
-            {/* East marker */}
-            <Line
-              x1={compassSize - 20}
-              y1={centerY}
-              x2={compassSize - 40}
-              y2={centerY}
-              stroke="#00ff00"
-              strokeWidth="2"
+            <Path
+              d={`M ${centerX - 8} 2 L ${centerX + 8} 2 L ${centerX} 18 Z`}
+              fill={TARGET_COLOR}
+              stroke="#000000"
+              strokeWidth="1"
             />
-            <SvgText
-              x={compassSize - 15}
-              y={centerY + 5}
-              fontSize="14"
-              fill="#00ff00"
-              textAnchor="middle"
-            >
-              E
-            </SvgText>
-
-            {/* South marker */}
             <Line
               x1={centerX}
-              y1={compassSize - 20}
-              x2={centerX}
-              y2={compassSize - 40}
-              stroke="#00ff00"
-              strokeWidth="2"
-            />
-            <SvgText
-              x={centerX}
-              y={compassSize - 10}
-              fontSize="14"
-              fill="#00ff00"
-              textAnchor="middle"
-            >
-              S
-            </SvgText>
-
-            {/* West marker */}
-            <Line
-              x1={20}
               y1={centerY}
-              x2={40}
-              y2={centerY}
-              stroke="#00ff00"
-              strokeWidth="2"
+              x2={centerX}
+              y2={centerY - compassRadius + 60}
+              stroke={onCourse ? palette.accent : TARGET_COLOR}
+              strokeWidth="3"
+              strokeLinecap="round"
             />
-            <SvgText
-              x={15}
-              y={centerY + 5}
-              fontSize="14"
-              fill="#00ff00"
-              textAnchor="middle"
-            >
-              W
-            </SvgText>
-
-            {/* Degree markers */}
-            {[0, 30, 60, 90, 120, 150, 180, 210, 240, 270, 300, 330].map((degree) => (
-              <G key={degree} rotation={degree} origin={`${centerX}, ${centerY}`}>
-                <Line
-                  x1={centerX}
-                  y1={25}
-                  x2={centerX}
-                  y2={35}
-                  stroke="#00ff00"
-                  strokeWidth="1"
-                  opacity="0.7"
-                />
-              </G>
-            ))}
           </G>
+        )}
+      </CompassRose>
 
-          {/* Direction needle (pointing to target) */}
-          <Line
-            x1={centerX}
-            y1={centerY}
-            x2={centerX}
-            y2={centerY - compassRadius + 60}
-            stroke="#ffff00"
-            strokeWidth="3"
-            strokeLinecap="round"
-          />
-          
-          {/* Center dot */}
-          <Circle
-            cx={centerX}
-            cy={centerY}
-            r="4"
-            fill="#ffff00"
-          />
-        </Svg>
-      </View>
+      {navigation && (
+        <>
+          <Text style={styles.navigationText}>
+            BRG {Math.round(navigation.bearing)}°T · REL{' '}
+            {deviation >= 0 ? '+' : '-'}
+            {Math.round(Math.abs(deviation))}° · {formatDistance(navigation.distance, units)}
+          </Text>
+          <CourseDeviationIndicator deviation={deviation} tolerance={toleranceCone} />
+        </>
+      )}
+    </View>
+  );
 
+  // Calibration and sensor readings
+  const details = (
+    <>
       {/* Status indicator */}
       <View style={styles.statusContainer}>
-        <Text style={styles.statusText}>
-          {isCalibrated ? 'CALIBRATED' : 'CALIBRATING...'}
-        </Text>
-        <View style={[styles.statusDot, { backgroundColor: isCalibrated ? '#00ff00' : '#ff0000' }]} />
+        <Text style={styles.statusText}>{calibrationStatus.text}</Text>
+        <View style={[styles.statusDot, { backgroundColor: calibrationStatus.color }]} />
+        {source !== 'system' && !calibration.collecting && (
+          <Pressable style={styles.calibrateButton} onPress={calibration.start}>
+            <Text style={styles.calibrateButtonText}>CALIBRATE</Text>
+          </Pressable>
+        )}
       </View>
 
+      {/* Guided calibration */}
+      {calibration.collecting && (
+        <View style={styles.calibrationContainer}>
+          <Text style={styles.dataTitle}>CALIBRATION</Text>
+          <Text style={styles.calibrationText}>
+            Sweep the phone through a slow figure-eight, turning it over so the screen faces every direction.
+          </Text>
+          <View style={styles.progressTrack}>
+            <View style={[styles.progressFill, { width: `${Math.round(calibration.progress.coverage * 100)}%` }]} />
+          </View>
+          <View style={styles.dataRow}>
+            <Text style={styles.dataLabel}>COVERAGE:</Text>
+            <Text style={styles.dataValue}>{Math.round(calibration.progress.coverage * 100)}%</Text>
+          </View>
+          <View style={styles.dataRow}>
+            <Text style={styles.dataLabel}>SAMPLES:</Text>
+            <Text style={styles.dataValue}>{calibration.progress.sampleCount}</Text>
+          </View>
+          <View style={styles.calibrationActions}>
+            <Pressable style={styles.calibrateButton} onPress={calibration.cancel}>
+              <Text style={styles.calibrateButtonText}>CANCEL</Text>
+            </Pressable>
+            <Pressable style={styles.calibrateButton} onPress={calibration.finish}>
+              <Text style={styles.calibrateButtonText}>FINISH NOW</Text>
+            </Pressable>
+          </View>
+        </View>
+      )}
+
       {/* Sensor readings */}
       <View style={styles.dataContainer}>
         <Text style={styles.dataTitle}>SENSOR READINGS</Text>
         
         <View style={styles.dataRow}>
           <Text style={styles.dataLabel}>HEADING:</Text>
-          <Text style={styles.dataValue}>{Math.round(compensatedHeading)}°</Text>
+          <Text style={styles.dataValue}>
+            {Math.round(compensatedHeading)}°{reference === 'true' ? 'T' : 'M'}
+          </Text>
+        </View>
+        
+        <View style={styles.dataRow}>
+          <Text style={styles.dataLabel}>DECL:</Text>
+          <Text style={styles.dataValue}>{formatDeclination(declination)}</Text>
         </View>
         
         <View style={styles.dataRow}>
@@ -261,95 +229,196 @@ export default function TransponderCompass() {
         
         <View style={styles.dataRow}>
           <Text style={styles.dataLabel}>TILT:</Text>
-          <Text style={styles.dataValue}>P: {Math.round(pitch)}° R: {Math.round(roll)}°</Text>
+          <Text style={styles.dataValue}>P: {Math.round(pitch)}° R: {Math.round(roll)}°{upright ? ' · CAMERA' : ''}</Text>
         </View>
         
         <View style={styles.dataRow}>
-          <Text style={styles.dataLabel}>MAG COMP:</Text>
-          <Text style={styles.dataValue}>X: {magX.toFixed(2)} Y: {magY.toFixed(2)}</Text>
+          <Text style={styles.dataLabel}>SOURCE:</Text>
+          <Text style={styles.dataValue}>
+            {HEADING_SOURCE_LABELS[source]} ({Math.round(confidence * 100)}%)
+          </Text>
         </View>
+
+        <Pressable style={styles.diagnosticsButton} onPress={() => router.push('/diagnostics')}>
+          <Text style={styles.calibrateButtonText}>DIAGNOSTICS</Text>
+        </Pressable>
       </View>
+    </>
+  );
+
+  // Side by side in landscape, with the details scrolling beside the compass
+  if (landscape) {
+    return (
+      <View style={[styles.container, styles.landscapeContainer]}>
+        {compass}
+        <ScrollView style={styles.landscapeDetails} contentContainerStyle={styles.landscapeDetailsContent}>
+          {header}
+          {details}
+        </ScrollView>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      {header}
+      {compass}
+      {details}
     </View>
   );
 }
 
-const styles = StyleSheet.create({
-  container: {
-    flex: 1,
-    backgroundColor: '#000000',
-    alignItems: 'center',
-    justifyContent: 'space-between',
-    paddingTop: 60,
-    paddingBottom: 40,
-  },
-  header: {
-    alignItems: 'center',
-    marginBottom: 20,
-  },
-  title: {
-    fontSize: 24,
-    fontWeight: 'bold',
-    color: '#00ff00',
-    letterSpacing: 3,
-  },
-  subtitle: {
-    fontSize: 12,
-    color: '#00ff00',
-    opacity: 0.7,
-    marginTop: 5,
-  },
-  compassContainer: {
-    flex: 1,
-    justifyContent: 'center',
-    alignItems: 'center',
-  },
-  compass: {
-    backgroundColor: 'rgba(0, 255, 0, 0.05)',
-    borderRadius: 1000,
-  },
-  statusContainer: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    marginVertical: 20,
-  },
-  statusText: {
-    color: '#00ff00',
-    fontSize: 12,
-    marginRight: 10,
-  },
-  statusDot: {
-    width: 8,
-    height: 8,
-    borderRadius: 4,
-  },
-  dataContainer: {
-    width: '90%',
-    backgroundColor: 'rgba(0, 255, 0, 0.1)',
-    borderRadius: 10,
-    padding: 15,
-    borderWidth: 1,
-    borderColor: '#00ff00',
-  },
-  dataTitle: {
-    color: '#00ff00',
-    fontSize: 14,
-    fontWeight: 'bold',
-    marginBottom: 10,
-    textAlign: 'center',
-  },
-  dataRow: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    marginVertical: 3,
-  },
-  dataLabel: {
-    color: '#00ff00',
-    fontSize: 12,
-    fontFamily: 'monospace',
-  },
-  dataValue: {
-    color: '#ffffff',
-    fontSize: 12,
-    fontFamily: 'monospace',
-  },
-});
\ No newline at end of file
+const createStyles = (palette: Palette) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: '#000000',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      paddingTop: 60,
+      paddingBottom: 40,
+    },
+    landscapeContainer: {
+      flexDirection: 'row',
+      paddingTop: 20,
+      paddingBottom: 20,
+    },
+    landscapeDetails: {
+      flex: 1,
+    },
+    landscapeDetailsContent: {
+      alignItems: 'center',
+      paddingBottom: 20,
+    },
+    header: {
+      alignItems: 'center',
+      marginBottom: 20,
+    },
+    title: {
+      fontSize: 24,
+      fontWeight: 'bold',
+      color: palette.accent,
+      letterSpacing: 3,
+    },
+    subtitle: {
+      fontSize: 12,
+      color: palette.accent,
+      opacity: 0.7,
+      marginTop: 5,
+    },
+    compassContainer: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+    },
+    centerDot: {
+      width: 8,
+      height: 8,
+      borderRadius: 4,
+      backgroundColor: TARGET_COLOR,
+    },
+    navigationText: {
+      color: '#ffffff',
+      fontSize: 14,
+      fontFamily: 'monospace',
+      marginTop: 10,
+    },
+    statusContainer: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      marginVertical: 20,
+    },
+    statusText: {
+      color: palette.accent,
+      fontSize: 12,
+      marginRight: 10,
+    },
+    statusDot: {
+      width: 8,
+      height: 8,
+      borderRadius: 4,
+    },
+    calibrateButton: {
+      marginLeft: 15,
+      paddingVertical: 6,
+      paddingHorizontal: 10,
+      borderWidth: 1,
+      borderColor: palette.accent,
+      borderRadius: 6,
+    },
+    diagnosticsButton: {
+      alignSelf: 'center',
+      marginTop: 10,
+      paddingVertical: 6,
+      paddingHorizontal: 10,
+      borderWidth: 1,
+      borderColor: palette.accent,
+      borderRadius: 6,
+    },
+    calibrateButtonText: {
+      color: palette.accent,
+      fontSize: 12,
+      fontWeight: 'bold',
+    },
+    calibrationContainer: {
+      width: '90%',
+      backgroundColor: palette.tint(0.1),
+      borderRadius: 10,
+      padding: 15,
+      borderWidth: 1,
+      borderColor: palette.accent,
+      marginBottom: 15,
+    },
+    calibrationText: {
+      color: '#ffffff',
+      fontSize: 12,
+      textAlign: 'center',
+      marginBottom: 10,
+    },
+    progressTrack: {
+      height: 6,
+      borderRadius: 3,
+      backgroundColor: palette.tint(0.2),
+      marginBottom: 10,
+      overflow: 'hidden',
+    },
+    progressFill: {
+      height: 6,
+      backgroundColor: palette.accent,
+    },
+    calibrationActions: {
+      flexDirection: 'row',
+      justifyContent: 'center',
+      marginTop: 10,
+    },
+    dataContainer: {
+      width: '90%',
+      backgroundColor: palette.tint(0.1),
+      borderRadius: 10,
+      padding: 15,
+      borderWidth: 1,
+      borderColor: palette.accent,
+    },
+    dataTitle: {
+      color: palette.accent,
+      fontSize: 14,
+      fontWeight: 'bold',
+      marginBottom: 10,
+      textAlign: 'center',
+    },
+    dataRow: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      marginVertical: 3,
+    },
+    dataLabel: {
+      color: palette.accent,
+      fontSize: 12,
+      fontFamily: 'monospace',
+    },
+    dataValue: {
+      color: '#ffffff',
+      fontSize: 12,
+      fontFamily: 'monospace',
+    },
+  });
\ No newline at end of file
@@ -2,9 +2,13 @@ import { DarkTheme, DefaultTheme, ThemeProvider } from '@react-navigation/native
 import { useFonts } from 'expo-font';
 import { Stack } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
+import { useEffect } from 'react';
 import 'react-native-reanimated';
 
 import { useColorScheme } from '@/hooks/useColorScheme';
+import { syncBackgroundTrackingAsync } from '@/lib/backgroundLocation';
+import { lockOrientationAsync } from '@/lib/screenOrientation';
+import { startTrackRecorder } from '@/lib/trackRecorder';
 
 export default function RootLayout() {
   const colorScheme = useColorScheme();
@@ -12,6 +16,16 @@ export default function RootLayout() {
     SpaceMono: require('../assets/fonts/SpaceMono-Regular.ttf'),
   });
 
+  // Tracks keep recording whichever screen is open
+  useEffect(() => startTrackRecorder(), []);
+  // Only the navigation screens rotate, and only while focused
+  useEffect(() => {
+    lockOrientationAsync('portrait').catch((error) => console.warn('Failed to lock orientation:', error));
+  }, []);
+  useEffect(() => {
+    syncBackgroundTrackingAsync();
+  }, []);
+
   if (!loaded) {
     // Async font loading only occurs in development.
     return null;
@@ -21,6 +35,14 @@ export default function RootLayout() {
     <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
       <Stack>
         <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+        <Stack.Screen name="cache/[id]" options={{ title: 'Cache' }} />
+        <Stack.Screen name="diagnostics" options={{ title: 'Sensor Diagnostics' }} />
+        <Stack.Screen name="log/[cacheId]" options={{ title: 'Log Visit' }} />
+        <Stack.Screen name="mark" options={{ title: 'Mark Spot' }} />
+        <Stack.Screen name="project" options={{ title: 'Project Waypoint' }} />
+        <Stack.Screen name="share/[cacheId]" options={{ title: 'Share Cache' }} />
+        <Stack.Screen name="stats" options={{ title: 'Stats' }} />
+        <Stack.Screen name="target" options={{ title: 'Shared Target' }} />
         <Stack.Screen name="+not-found" />
       </Stack>
       <StatusBar style="auto" />
@@ -0,0 +1,505 @@
+import { Image } from 'expo-image';
+import { Stack, router, useLocalSearchParams } from 'expo-router';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Alert, Pressable, ScrollView, StyleSheet, Text, TextInput, View } from 'react-native';
+
+import { StageEditor } from '@/components/StageEditor';
+import { useCache } from '@/hooks/useCaches';
+import { useCacheLogs } from '@/hooks/useLogs';
+import { usePalette, useThemedStyles } from '@/hooks/usePalette';
+import { useSettings } from '@/hooks/useSettings';
+import { deleteCachePhotoAsync, pickCachePhotoAsync } from '@/lib/cacheFiles';
+import {
+  addCache,
+  deleteCache,
+  DIFFICULTY_LEVELS,
+  updateCache,
+  type Cache,
+  type CacheDraft,
+} from '@/lib/cacheStore';
+import {
+  CoordinateParseError,
+  formatCoordinates,
+  parseCoordinates,
+  type CoordinateFormat,
+} from '@/lib/coordinates';
+import type { Coordinates } from '@/lib/geo';
+import { deleteLog, LOG_TYPES, type CacheLog } from '@/lib/logStore';
+import type { Palette } from '@/lib/theme';
+
+type FormState = {
+  name: string;
+  coordinates: string;
+  difficulty: number;
+  hint: string;
+  notes: string;
+  photoUri: string | null;
+};
+
+const toFormState = (format: CoordinateFormat, cache?: Cache): FormState => ({
+  name: cache?.name ?? '',
+  coordinates: cache ? formatCoordinates(cache.coordinates, format) : '',
+  difficulty: cache?.difficulty ?? 1.5,
+  hint: cache?.hint ?? '',
+  notes: cache?.notes ?? '',
+  photoUri: cache?.photoUri ?? null,
+});
+
+function LogEntry({ log }: { log: CacheLog }) {
+  const styles = useThemedStyles(createStyles);
+  const label = LOG_TYPES.find((type) => type.value === log.type)?.label ?? log.type;
+
+  const handleDelete = () => {
+    Alert.alert('Delete Log', `Delete this ${label.toLowerCase()} log?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: () => {
+          deleteLog(log.id);
+          deleteCachePhotoAsync(log.photoUri);
+        },
+      },
+    ]);
+  };
+
+  return (
+    <Pressable style={styles.logEntry} onLongPress={handleDelete}>
+      <Text style={[styles.logType, log.type !== 'found' && styles.logTypeWarning]}>{label}</Text>
+      <Text style={styles.previewText}>{new Date(log.loggedAt).toLocaleString()}</Text>
+      {log.notes !== '' && <Text style={styles.logNotes}>{log.notes}</Text>}
+      {log.photoUri && <Image source={{ uri: log.photoUri }} style={styles.logPhoto} contentFit="cover" />}
+    </Pressable>
+  );
+}
+
+export default function CacheDetailScreen() {
+  const styles = useThemedStyles(createStyles);
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const isNew = id === 'new';
+  const cache = useCache(isNew ? undefined : id);
+
+  if (!isNew && !cache) {
+    return (
+      <View style={styles.container}>
+        <Stack.Screen options={{ title: 'Cache' }} />
+        <Text style={styles.missingText}>Cache not found</Text>
+      </View>
+    );
+  }
+
+  // The store hydrates asynchronously; keying on the id fills the form once the cache shows up
+  return <CacheForm key={cache?.id ?? 'new'} cache={cache} />;
+}
+
+/** Edits `cache`, or creates a new cache without one. */
+function CacheForm({ cache }: { cache?: Cache }) {
+  const palette = usePalette();
+  const styles = useThemedStyles(createStyles);
+  const logs = useCacheLogs(cache?.id);
+  const { coordinateFormat } = useSettings();
+
+  const [form, setForm] = useState<FormState>(() => toFormState(coordinateFormat, cache));
+  // Photos picked here but never saved are deleted when the screen closes
+  const pickedPhotos = useRef<string[]>([]);
+  const savedPhoto = useRef<string | null>(null);
+  savedPhoto.current = cache?.photoUri ?? null;
+  useEffect(
+    () => () => {
+      pickedPhotos.current
+        .filter((uri) => uri !== savedPhoto.current)
+        .forEach((uri) => deleteCachePhotoAsync(uri));
+    },
+    []
+  );
+
+  // Live validation of the coordinate field in whatever notation was typed
+  const parsed = useMemo((): { coordinates?: Coordinates; error?: string } => {
+    if (!form.coordinates.trim()) return {};
+    try {
+      return { coordinates: parseCoordinates(form.coordinates) };
+    } catch (error) {
+      if (error instanceof CoordinateParseError) return { error: error.message };
+      throw error;
+    }
+  }, [form.coordinates]);
+
+  const updateField = <K extends keyof FormState>(field: K, value: FormState[K]) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const buildDraft = (): CacheDraft | null => {
+    if (!form.name.trim()) {
+      Alert.alert('Missing Name', 'Give this cache a name.');
+      return null;
+    }
+    if (!parsed.coordinates) {
+      Alert.alert('Invalid Coordinates', parsed.error ?? 'Enter the cache coordinates.');
+      return null;
+    }
+
+    return {
+      name: form.name.trim(),
+      coordinates: parsed.coordinates,
+      difficulty: form.difficulty,
+      hint: form.hint.trim(),
+      notes: form.notes.trim() || undefined,
+      photoUri: form.photoUri ?? undefined,
+    };
+  };
+
+  const handlePhoto = async (source: 'camera' | 'library') => {
+    try {
+      const uri = await pickCachePhotoAsync(source);
+      if (!uri) return;
+      pickedPhotos.current.push(uri);
+      updateField('photoUri', uri);
+    } catch (error) {
+      Alert.alert('Photo', (error as Error).message);
+    }
+  };
+
+  const save = (): string | null => {
+    const draft = buildDraft();
+    if (!draft) return null;
+
+    if (cache) {
+      if (cache.photoUri !== draft.photoUri) deleteCachePhotoAsync(cache.photoUri);
+      updateCache(cache.id, draft);
+      savedPhoto.current = draft.photoUri ?? null;
+      return cache.id;
+    }
+    savedPhoto.current = draft.photoUri ?? null;
+    return addCache(draft).id;
+  };
+
+  const handleSave = () => {
+    if (save()) {
+      router.back();
+    }
+  };
+
+  const handleNavigate = () => {
+    const savedId = save();
+    if (savedId) {
+      router.navigate({ pathname: '/transponderWaypoint', params: { cacheId: savedId } });
+    }
+  };
+
+  const handleDelete = () => {
+    if (!cache) return;
+    Alert.alert('Delete Cache', `Delete "${cache.name}"?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: () => {
+          deleteCache(cache.id);
+          deleteCachePhotoAsync(cache.photoUri);
+          router.back();
+        },
+      },
+    ]);
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Stack.Screen options={{ title: cache?.name ?? 'New Cache' }} />
+
+      <Text style={styles.label}>NAME</Text>
+      <TextInput
+        style={styles.input}
+        value={form.name}
+        onChangeText={(text) => updateField('name', text)}
+        placeholder="Cache name"
+        placeholderTextColor={palette.muted}
+      />
+
+      <Text style={styles.label}>COORDINATES</Text>
+      <TextInput
+        style={[styles.input, parsed.error && styles.inputInvalid]}
+        value={form.coordinates}
+        onChangeText={(text) => updateField('coordinates', text)}
+        placeholder="N 37° 46.494 W 122° 25.164"
+        placeholderTextColor={palette.muted}
+        autoCapitalize="characters"
+        autoCorrect={false}
+      />
+      {parsed.error && <Text style={styles.errorText}>{parsed.error}</Text>}
+      {parsed.coordinates && (
+        <Text style={styles.previewText}>
+          {formatCoordinates(parsed.coordinates, 'dd')}
+        </Text>
+      )}
+
+      <Text style={styles.label}>DIFFICULTY</Text>
+      <View style={styles.difficultyRow}>
+        {DIFFICULTY_LEVELS.map((level) => (
+          <Pressable
+            key={level}
+            style={[styles.difficultyChip, form.difficulty === level && styles.difficultyChipActive]}
+            onPress={() => updateField('difficulty', level)}
+          >
+            <Text
+              style={[styles.difficultyText, form.difficulty === level && styles.difficultyTextActive]}
+            >
+              {level}
+            </Text>
+          </Pressable>
+        ))}
+      </View>
+
+      <Text style={styles.label}>HINT</Text>
+      <TextInput
+        style={[styles.input, styles.multilineInput]}
+        value={form.hint}
+        onChangeText={(text) => updateField('hint', text)}
+        placeholder="Optional hint"
+        placeholderTextColor={palette.muted}
+        multiline
+      />
+
+      <Text style={styles.label}>NOTES</Text>
+      <TextInput
+        style={[styles.input, styles.multilineInput]}
+        value={form.notes}
+        onChangeText={(text) => updateField('notes', text)}
+        placeholder="Private notes"
+        placeholderTextColor={palette.muted}
+        multiline
+      />
+
+      <Text style={styles.label}>PHOTO</Text>
+      {form.photoUri && <Image source={{ uri: form.photoUri }} style={styles.photo} contentFit="cover" />}
+      <View style={styles.difficultyRow}>
+        <Pressable style={styles.difficultyChip} onPress={() => handlePhoto('camera')}>
+          <Text style={styles.difficultyText}>TAKE PHOTO</Text>
+        </Pressable>
+        <Pressable style={styles.difficultyChip} onPress={() => handlePhoto('library')}>
+          <Text style={styles.difficultyText}>CHOOSE</Text>
+        </Pressable>
+        {form.photoUri && (
+          <Pressable style={styles.difficultyChip} onPress={() => updateField('photoUri', null)}>
+            <Text style={styles.difficultyText}>REMOVE</Text>
+          </Pressable>
+        )}
+      </View>
+
+      <Text style={styles.label}>STAGES</Text>
+      {cache ? (
+        <StageEditor cache={cache} />
+      ) : (
+        <Text style={styles.previewText}>Save the cache first to add multi-cache stages.</Text>
+      )}
+
+      <Text style={styles.label}>LOGS</Text>
+      {cache ? (
+        <>
+          {logs.map((log) => (
+            <LogEntry key={log.id} log={log} />
+          ))}
+          {logs.length > 0 && <Text style={styles.previewText}>Long-press a log to delete it.</Text>}
+          <Pressable style={styles.logButton} onPress={() => router.push(`/log/${cache.id}`)}>
+            <Text style={styles.difficultyText}>+ LOG VISIT</Text>
+          </Pressable>
+        </>
+      ) : (
+        <Text style={styles.previewText}>Save the cache first to log visits.</Text>
+      )}
+
+      {cache && (
+        <Text style={styles.createdText}>
+          Created {new Date(cache.createdAt).toLocaleDateString()}
+        </Text>
+      )}
+
+      <Pressable style={styles.primaryButton} onPress={handleNavigate}>
+        <Text style={styles.primaryButtonText}>NAVIGATE</Text>
+      </Pressable>
+
+      <Pressable style={styles.secondaryButton} onPress={handleSave}>
+        <Text style={styles.secondaryButtonText}>SAVE</Text>
+      </Pressable>
+
+      {cache && (
+        <Pressable style={styles.secondaryButton} onPress={() => router.push(`/share/${cache.id}`)}>
+          <Text style={styles.secondaryButtonText}>SHARE / QR</Text>
+        </Pressable>
+      )}
+
+      {cache && (
+        <Pressable style={styles.deleteButton} onPress={handleDelete}>
+          <Text style={styles.deleteButtonText}>DELETE</Text>
+        </Pressable>
+      )}
+    </ScrollView>
+  );
+}
+
+const createStyles = (palette: Palette) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: '#000000',
+    },
+    content: {
+      padding: 20,
+      paddingBottom: 40,
+    },
+    missingText: {
+      color: '#ff0000',
+      fontSize: 16,
+      textAlign: 'center',
+      marginTop: 40,
+    },
+    label: {
+      color: palette.accent,
+      fontSize: 12,
+      fontFamily: 'monospace',
+      marginTop: 15,
+      marginBottom: 5,
+    },
+    input: {
+      color: '#ffffff',
+      fontSize: 16,
+      fontFamily: 'monospace',
+      borderWidth: 1,
+      borderColor: palette.accent,
+      borderRadius: 8,
+      paddingHorizontal: 12,
+      paddingVertical: 10,
+      backgroundColor: palette.tint(0.05),
+    },
+    inputInvalid: {
+      borderColor: '#ff0000',
+    },
+    errorText: {
+      color: '#ff0000',
+      fontSize: 12,
+      marginTop: 5,
+    },
+    previewText: {
+      color: palette.accent,
+      opacity: 0.7,
+      fontSize: 12,
+      fontFamily: 'monospace',
+      marginTop: 5,
+    },
+    multilineInput: {
+      minHeight: 80,
+      textAlignVertical: 'top',
+    },
+    photo: {
+      width: '100%',
+      height: 200,
+      borderRadius: 8,
+      marginBottom: 8,
+    },
+    difficultyRow: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+    },
+    difficultyChip: {
+      borderWidth: 1,
+      borderColor: palette.accent,
+      borderRadius: 6,
+      paddingVertical: 6,
+      paddingHorizontal: 10,
+      marginRight: 6,
+      marginBottom: 6,
+    },
+    difficultyChipActive: {
+      backgroundColor: palette.accent,
+    },
+    difficultyText: {
+      color: palette.accent,
+      fontFamily: 'monospace',
+    },
+    difficultyTextActive: {
+      color: '#000000',
+      fontWeight: 'bold',
+    },
+    logEntry: {
+      borderWidth: 1,
+      borderColor: palette.tint(0.4),
+      borderRadius: 8,
+      padding: 8,
+      marginBottom: 8,
+    },
+    logType: {
+      color: palette.accent,
+      fontSize: 12,
+      fontWeight: 'bold',
+      fontFamily: 'monospace',
+    },
+    logTypeWarning: {
+      color: '#ffaa00',
+    },
+    logNotes: {
+      color: '#ffffff',
+      fontSize: 14,
+      marginTop: 5,
+    },
+    logPhoto: {
+      width: '100%',
+      height: 120,
+      borderRadius: 6,
+      marginTop: 8,
+    },
+    logButton: {
+      borderWidth: 1,
+      borderColor: palette.accent,
+      borderRadius: 6,
+      paddingVertical: 8,
+      alignItems: 'center',
+      marginTop: 8,
+    },
+    createdText: {
+      color: palette.accent,
+      opacity: 0.7,
+      fontSize: 12,
+      marginTop: 15,
+      textAlign: 'center',
+    },
+    primaryButton: {
+      backgroundColor: palette.accent,
+      borderRadius: 10,
+      paddingVertical: 14,
+      alignItems: 'center',
+      marginTop: 25,
+    },
+    primaryButtonText: {
+      color: '#000000',
+      fontSize: 16,
+      fontWeight: 'bold',
+      letterSpacing: 2,
+    },
+    secondaryButton: {
+      borderWidth: 1,
+      borderColor: palette.accent,
+      borderRadius: 10,
+      paddingVertical: 14,
+      alignItems: 'center',
+      marginTop: 10,
+    },
+    secondaryButtonText: {
+      color: palette.accent,
+      fontSize: 16,
+      fontWeight: 'bold',
+      letterSpacing: 2,
+    },
+    deleteButton: {
+      borderWidth: 1,
+      borderColor: '#ff0000',
+      borderRadius: 10,
+      paddingVertical: 14,
+      alignItems: 'center',
+      marginTop: 10,
+    },
+    deleteButtonText: {
+      color: '#ff0000',
+      fontSize: 16,
+      fontWeight: 'bold',
+      letterSpacing: 2,
+    },
+  });
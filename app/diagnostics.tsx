@@ -0,0 +1,260 @@
+import { Stack } from 'expo-router';
+import React from 'react';
+import { Alert, Pressable, ScrollView, StyleSheet, Text, View } from 'react-native';
+
+import { TimeSeriesPlot } from '@/components/TimeSeriesPlot';
+import { DIAGNOSTICS_WINDOW, useSensorDiagnostics } from '@/hooks/useSensorDiagnostics';
+import { useSensorProvider } from '@/hooks/useSensorProvider';
+import { shareSensorRecordingAsync } from '@/lib/cacheFiles';
+import { getDeviceCalibration } from '@/lib/calibrationStore';
+import { INTERFERENCE_LABELS } from '@/lib/interference';
+import { recordingToCsv, recordingToSessionJson, type UpdateRate } from '@/lib/sensorRecording';
+
+const AXIS_COLORS = { x: '#ff5555', y: '#00ff00', z: '#55aaff' };
+const LEVEL_COLORS = { none: '#00ff00', distorted: '#ffaa00', interference: '#ff0000' };
+
+const RATE_ROWS: { key: 'magnetometer' | 'accelerometer' | 'gyroscope' | 'gps'; label: string }[] = [
+  { key: 'magnetometer', label: 'MAG' },
+  { key: 'accelerometer', label: 'ACCEL' },
+  { key: 'gyroscope', label: 'GYRO' },
+  { key: 'gps', label: 'GPS' },
+];
+
+const axes = (samples: { x: number; y: number; z: number }[]) =>
+  (['x', 'y', 'z'] as const).map((axis) => ({
+    label: axis.toUpperCase(),
+    color: AXIS_COLORS[axis],
+    values: samples.map((sample) => sample[axis]),
+  }));
+
+const fileStamp = (date: Date) => date.toISOString().slice(0, 19).replace(/[-:]/g, '').replace('T', '-');
+
+function RateRow({ label, rate }: { label: string; rate: UpdateRate | null }) {
+  return (
+    <View style={styles.rateRow}>
+      <Text style={styles.rateLabel}>{label}</Text>
+      <Text style={styles.rateValue}>{rate ? `${rate.rate.toFixed(1)} Hz` : '--'}</Text>
+      <Text style={styles.rateValue}>{rate ? `±${Math.round(rate.jitter)} ms` : '--'}</Text>
+      <Text style={styles.rateValue}>{rate ? `${Math.round(rate.maxGap)} ms` : '--'}</Text>
+    </View>
+  );
+}
+
+export default function DiagnosticsScreen() {
+  const provider = useSensorProvider();
+  const diagnostics = useSensorDiagnostics();
+  const { samples, headings, accuracies, rates, expectedStrength, interference, recording } = diagnostics;
+  const { level, strengthDeviation, inclinationError } = interference;
+
+  const strength = headings.length > 0 ? headings[headings.length - 1].strength : null;
+
+  const handleExport = async (format: 'csv' | 'json') => {
+    if (!recording) return;
+    const fileName = `geocash-sensors-${fileStamp(new Date(recording.startedAt))}.${format}`;
+    try {
+      const contents =
+        format === 'csv'
+          ? recordingToCsv(recording)
+          : recordingToSessionJson(recording, fileName, provider.simulated ? null : getDeviceCalibration());
+      await shareSensorRecordingAsync(contents, fileName);
+    } catch (error) {
+      Alert.alert('Export Failed', (error as Error).message);
+    }
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Stack.Screen options={{ title: 'Sensor Diagnostics' }} />
+
+      <View style={styles.panel}>
+        <Text style={[styles.levelText, { color: LEVEL_COLORS[level] }]}>{INTERFERENCE_LABELS[level]}</Text>
+        <Text style={styles.panelText}>
+          FIELD {strength !== null ? `${strength.toFixed(1)} µT` : '--'}
+          {expectedStrength !== null ? ` · EXPECTED ${expectedStrength.toFixed(1)} µT` : ''}
+          {strength !== null ? ` · ${strengthDeviation >= 0 ? '+' : ''}${Math.round(strengthDeviation * 100)}%` : ''}
+        </Text>
+        {inclinationError !== null && (
+          <Text style={styles.panelText}>
+            DIP ERROR {inclinationError >= 0 ? '+' : ''}
+            {inclinationError.toFixed(1)}°
+          </Text>
+        )}
+        {level !== 'none' && (
+          <Text style={styles.hintText}>Move away from cars, rebar, railings and electronics.</Text>
+        )}
+        {provider.simulated && <Text style={styles.hintText}>SIMULATION · {provider.name}</Text>}
+      </View>
+
+      <Text style={styles.label}>UPDATE RATES</Text>
+      <View style={styles.rateRow}>
+        <Text style={styles.rateLabel} />
+        <Text style={styles.rateHeader}>RATE</Text>
+        <Text style={styles.rateHeader}>JITTER</Text>
+        <Text style={styles.rateHeader}>MAX GAP</Text>
+      </View>
+      {RATE_ROWS.map(({ key, label }) => (
+        <RateRow key={key} label={label} rate={rates[key]} />
+      ))}
+
+      <TimeSeriesPlot
+        title="FIELD STRENGTH"
+        unit="µT"
+        capacity={DIAGNOSTICS_WINDOW}
+        series={[{ label: '|B|', color: '#ffffff', values: headings.map(({ strength: value }) => value) }]}
+        band={
+          expectedStrength !== null
+            ? { from: expectedStrength * 0.85, to: expectedStrength * 1.15, color: 'rgba(0, 255, 0, 0.15)' }
+            : undefined
+        }
+      />
+      <TimeSeriesPlot
+        title="HEADING (MAGNETIC)"
+        unit="°"
+        capacity={DIAGNOSTICS_WINDOW}
+        range={[0, 360]}
+        series={[
+          { label: 'RAW', color: '#ffaa00', values: headings.map(({ raw }) => raw) },
+          { label: 'FILTERED', color: '#00ff00', values: headings.map(({ filtered }) => filtered) },
+        ]}
+      />
+      <TimeSeriesPlot
+        title="MAGNETOMETER (RAW)"
+        unit="µT"
+        capacity={DIAGNOSTICS_WINDOW}
+        series={axes(samples.magnetometer)}
+      />
+      <TimeSeriesPlot title="ACCELEROMETER" unit="g" capacity={DIAGNOSTICS_WINDOW} series={axes(samples.accelerometer)} />
+      <TimeSeriesPlot title="GYROSCOPE" unit="rad/s" capacity={DIAGNOSTICS_WINDOW} series={axes(samples.gyroscope)} />
+      <TimeSeriesPlot
+        title="GPS ACCURACY"
+        unit="m"
+        capacity={DIAGNOSTICS_WINDOW}
+        series={[{ label: '±', color: '#ffffff', values: accuracies }]}
+      />
+
+      <Text style={styles.label}>RECORDING</Text>
+      {diagnostics.recordingSize !== null ? (
+        <Pressable style={styles.primaryButton} onPress={diagnostics.stopRecording}>
+          <Text style={styles.primaryButtonText}>STOP · {diagnostics.recordingSize} ENTRIES</Text>
+        </Pressable>
+      ) : (
+        <Pressable style={styles.primaryButton} onPress={diagnostics.startRecording}>
+          <Text style={styles.primaryButtonText}>START RECORDING</Text>
+        </Pressable>
+      )}
+      {recording && diagnostics.recordingSize === null && (
+        <View style={styles.exportRow}>
+          <Pressable style={styles.secondaryButton} onPress={() => handleExport('csv')}>
+            <Text style={styles.secondaryButtonText}>EXPORT CSV</Text>
+          </Pressable>
+          <Pressable style={styles.secondaryButton} onPress={() => handleExport('json')}>
+            <Text style={styles.secondaryButtonText}>EXPORT JSON</Text>
+          </Pressable>
+        </View>
+      )}
+      <Text style={styles.hintText}>
+        JSON recordings can be replayed from Settings › Simulation to reproduce a field issue.
+      </Text>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000000',
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  panel: {
+    backgroundColor: 'rgba(0, 255, 0, 0.1)',
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#00ff00',
+    padding: 15,
+    alignItems: 'center',
+  },
+  levelText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    letterSpacing: 2,
+  },
+  panelText: {
+    color: '#ffffff',
+    fontSize: 12,
+    fontFamily: 'monospace',
+    marginTop: 6,
+  },
+  hintText: {
+    color: '#00ff00',
+    opacity: 0.7,
+    fontSize: 12,
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  label: {
+    color: '#00ff00',
+    fontSize: 12,
+    fontFamily: 'monospace',
+    marginTop: 20,
+    marginBottom: 8,
+  },
+  rateRow: {
+    flexDirection: 'row',
+    marginBottom: 4,
+  },
+  rateLabel: {
+    color: '#00ff00',
+    fontSize: 12,
+    fontFamily: 'monospace',
+    width: 60,
+  },
+  rateHeader: {
+    flex: 1,
+    color: '#00ff00',
+    opacity: 0.7,
+    fontSize: 11,
+    fontFamily: 'monospace',
+    textAlign: 'right',
+  },
+  rateValue: {
+    flex: 1,
+    color: '#ffffff',
+    fontSize: 12,
+    fontFamily: 'monospace',
+    textAlign: 'right',
+  },
+  primaryButton: {
+    backgroundColor: '#00ff00',
+    borderRadius: 10,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: '#000000',
+    fontSize: 16,
+    fontWeight: 'bold',
+    letterSpacing: 2,
+  },
+  exportRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  secondaryButton: {
+    width: '48%',
+    borderWidth: 1,
+    borderColor: '#00ff00',
+    borderRadius: 10,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  secondaryButtonText: {
+    color: '#00ff00',
+    fontSize: 14,
+    fontWeight: 'bold',
+    letterSpacing: 2,
+  },
+});
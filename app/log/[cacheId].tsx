@@ -0,0 +1,238 @@
+import { Image } from 'expo-image';
+import * as Location from 'expo-location';
+import { Stack, router, useLocalSearchParams } from 'expo-router';
+import React, { useEffect, useRef, useState } from 'react';
+import { Alert, Pressable, ScrollView, StyleSheet, Text, TextInput, View } from 'react-native';
+
+import { useCache } from '@/hooks/useCaches';
+import { usePalette, useThemedStyles } from '@/hooks/usePalette';
+import { useSettings } from '@/hooks/useSettings';
+import { deleteCachePhotoAsync, pickCachePhotoAsync } from '@/lib/cacheFiles';
+import { formatCoordinates } from '@/lib/coordinates';
+import { addLog, LOG_TYPES, logStore, type CacheLog, type LogType } from '@/lib/logStore';
+import { getSensorProvider } from '@/lib/sensorProvider';
+import type { Palette } from '@/lib/theme';
+
+export default function LogVisitScreen() {
+  const palette = usePalette();
+  const styles = useThemedStyles(createStyles);
+  const { cacheId } = useLocalSearchParams<{ cacheId: string }>();
+  const cache = useCache(cacheId);
+  const { coordinateFormat } = useSettings();
+
+  const [type, setType] = useState<LogType>('found');
+  const [notes, setNotes] = useState('');
+  const [photoUri, setPhotoUri] = useState<string | null>(null);
+  const [position, setPosition] = useState<CacheLog['position']>(null);
+  const [positionError, setPositionError] = useState<string | null>(null);
+
+  // A photo taken for a log that is never saved would otherwise linger in the documents
+  const latestPhoto = useRef<string | null>(null);
+  const saved = useRef(false);
+  latestPhoto.current = photoUri;
+  useEffect(
+    () => () => {
+      if (!saved.current && latestPhoto.current) deleteCachePhotoAsync(latestPhoto.current);
+    },
+    []
+  );
+
+  // Record where the log was written
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const provider = getSensorProvider();
+      if (!(await provider.requestPermissionsAsync())) throw new Error('No location permission; the log will have no position');
+      const { coords } = await provider.getCurrentPositionAsync({ accuracy: Location.Accuracy.High });
+      if (!cancelled) {
+        setPosition({ latitude: coords.latitude, longitude: coords.longitude, accuracy: coords.accuracy });
+      }
+    })().catch((error) => !cancelled && setPositionError((error as Error).message));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const handlePhoto = async (source: 'camera' | 'library') => {
+    try {
+      const uri = await pickCachePhotoAsync(source);
+      if (!uri) return;
+      if (photoUri) await deleteCachePhotoAsync(photoUri);
+      setPhotoUri(uri);
+    } catch (error) {
+      Alert.alert('Photo', (error as Error).message);
+    }
+  };
+
+  const removePhoto = () => {
+    if (photoUri) deleteCachePhotoAsync(photoUri);
+    setPhotoUri(null);
+  };
+
+  const handleSave = async () => {
+    if (!cache) return;
+    // Nothing on the way here reads the logs, so load them before adding to them
+    await logStore.hydrate();
+    addLog({ cacheId: cache.id, type, position, notes: notes.trim(), photoUri: photoUri ?? undefined });
+    saved.current = true;
+    router.back();
+  };
+
+  if (!cache) {
+    return (
+      <View style={styles.container}>
+        <Stack.Screen options={{ title: 'Log Visit' }} />
+        <Text style={styles.missingText}>Cache not found</Text>
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Stack.Screen options={{ title: `Log ${cache.name}` }} />
+
+      <Text style={styles.label}>RESULT</Text>
+      <View style={styles.chipRow}>
+        {LOG_TYPES.map(({ value, label }) => (
+          <Pressable
+            key={value}
+            style={[styles.chip, type === value && styles.chipActive]}
+            onPress={() => setType(value)}
+          >
+            <Text style={[styles.chipText, type === value && styles.chipTextActive]}>{label}</Text>
+          </Pressable>
+        ))}
+      </View>
+
+      <Text style={styles.label}>POSITION</Text>
+      <Text style={positionError ? styles.errorText : styles.previewText}>
+        {position
+          ? `${formatCoordinates(position, coordinateFormat)} ±${Math.round(position.accuracy ?? 0)}m`
+          : (positionError ?? '🛰️ Getting your location...')}
+      </Text>
+
+      <Text style={styles.label}>NOTES</Text>
+      <TextInput
+        style={[styles.input, styles.multilineInput]}
+        value={notes}
+        onChangeText={setNotes}
+        placeholder="TFTC!"
+        placeholderTextColor={palette.muted}
+        multiline
+      />
+
+      <Text style={styles.label}>PHOTO</Text>
+      {photoUri && <Image source={{ uri: photoUri }} style={styles.photo} contentFit="cover" />}
+      <View style={styles.chipRow}>
+        <Pressable style={styles.chip} onPress={() => handlePhoto('camera')}>
+          <Text style={styles.chipText}>TAKE PHOTO</Text>
+        </Pressable>
+        <Pressable style={styles.chip} onPress={() => handlePhoto('library')}>
+          <Text style={styles.chipText}>CHOOSE</Text>
+        </Pressable>
+        {photoUri && (
+          <Pressable style={styles.chip} onPress={removePhoto}>
+            <Text style={styles.chipText}>REMOVE</Text>
+          </Pressable>
+        )}
+      </View>
+
+      <Pressable style={styles.primaryButton} onPress={handleSave}>
+        <Text style={styles.primaryButtonText}>SAVE LOG</Text>
+      </Pressable>
+    </ScrollView>
+  );
+}
+
+const createStyles = (palette: Palette) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: '#000000',
+    },
+    content: {
+      padding: 20,
+      paddingBottom: 40,
+    },
+    missingText: {
+      color: '#ff0000',
+      fontSize: 16,
+      textAlign: 'center',
+      marginTop: 40,
+    },
+    label: {
+      color: palette.accent,
+      fontSize: 12,
+      fontFamily: 'monospace',
+      marginTop: 15,
+      marginBottom: 5,
+    },
+    chipRow: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+    },
+    chip: {
+      borderWidth: 1,
+      borderColor: palette.accent,
+      borderRadius: 6,
+      paddingVertical: 6,
+      paddingHorizontal: 10,
+      marginRight: 6,
+      marginBottom: 6,
+    },
+    chipActive: {
+      backgroundColor: palette.accent,
+    },
+    chipText: {
+      color: palette.accent,
+      fontSize: 12,
+      fontWeight: 'bold',
+    },
+    chipTextActive: {
+      color: '#000000',
+    },
+    previewText: {
+      color: palette.accent,
+      opacity: 0.7,
+      fontSize: 12,
+      fontFamily: 'monospace',
+    },
+    errorText: {
+      color: '#ff0000',
+      fontSize: 12,
+    },
+    input: {
+      color: '#ffffff',
+      fontSize: 16,
+      fontFamily: 'monospace',
+      borderWidth: 1,
+      borderColor: palette.accent,
+      borderRadius: 8,
+      paddingHorizontal: 12,
+      paddingVertical: 10,
+      backgroundColor: palette.tint(0.05),
+    },
+    multilineInput: {
+      minHeight: 100,
+      textAlignVertical: 'top',
+    },
+    photo: {
+      width: '100%',
+      height: 200,
+      borderRadius: 8,
+      marginBottom: 8,
+    },
+    primaryButton: {
+      backgroundColor: palette.accent,
+      borderRadius: 10,
+      paddingVertical: 14,
+      alignItems: 'center',
+      marginTop: 25,
+    },
+    primaryButtonText: {
+      color: '#000000',
+      fontSize: 16,
+      fontWeight: 'bold',
+      letterSpacing: 2,
+    },
+  });
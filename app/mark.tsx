@@ -0,0 +1,310 @@
+import { Image } from 'expo-image';
+import { Stack, router } from 'expo-router';
+import React, { useEffect, useRef, useState } from 'react';
+import { Alert, Pressable, ScrollView, StyleSheet, Text, TextInput, View } from 'react-native';
+
+import { usePalette, useThemedStyles } from '@/hooks/usePalette';
+import { useSettings } from '@/hooks/useSettings';
+import { useWaypointAveraging } from '@/hooks/useWaypointAveraging';
+import { deleteCachePhotoAsync, pickCachePhotoAsync } from '@/lib/cacheFiles';
+import { addCache, setActiveCache } from '@/lib/cacheStore';
+import { formatCoordinates } from '@/lib/coordinates';
+import { formatDistance, formatDuration } from '@/lib/format';
+import type { Palette } from '@/lib/theme';
+import { AVERAGING_GOALS, averagingGoalLabel, type AveragingGoal } from '@/lib/waypointAveraging';
+
+export default function MarkSpotScreen() {
+  const palette = usePalette();
+  const styles = useThemedStyles(createStyles);
+  const { coordinateFormat, units } = useSettings();
+  const { capturing, estimate, elapsed, progress, error, start, stop } = useWaypointAveraging();
+  const [goal, setGoal] = useState<AveragingGoal>(AVERAGING_GOALS[1]);
+  const [name, setName] = useState('');
+  const [notes, setNotes] = useState('');
+  const [photoUri, setPhotoUri] = useState<string | null>(null);
+
+  // A photo taken for a spot that is never saved would otherwise linger in the documents
+  const latestPhoto = useRef<string | null>(null);
+  const saved = useRef(false);
+  latestPhoto.current = photoUri;
+  useEffect(
+    () => () => {
+      if (!saved.current && latestPhoto.current) deleteCachePhotoAsync(latestPhoto.current);
+    },
+    []
+  );
+
+  const handlePhoto = async (source: 'camera' | 'library') => {
+    try {
+      const uri = await pickCachePhotoAsync(source);
+      if (!uri) return;
+      if (photoUri) await deleteCachePhotoAsync(photoUri);
+      setPhotoUri(uri);
+    } catch (photoError) {
+      Alert.alert('Photo', (photoError as Error).message);
+    }
+  };
+
+  const removePhoto = () => {
+    if (photoUri) deleteCachePhotoAsync(photoUri);
+    setPhotoUri(null);
+  };
+
+  const handleSave = () => {
+    if (!estimate) return;
+    if (!name.trim()) {
+      Alert.alert('Missing Name', 'Give this cache a name.');
+      return;
+    }
+
+    const cache = addCache({
+      name: name.trim(),
+      coordinates: estimate.coordinates,
+      difficulty: 1.5,
+      hint: '',
+      notes: notes.trim() || undefined,
+      photoUri: photoUri ?? undefined,
+    });
+    saved.current = true;
+    setActiveCache(cache.id);
+    router.back();
+  };
+
+  const canSave = estimate !== null && !capturing;
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Stack.Screen options={{ title: 'Mark Spot' }} />
+
+      <Text style={styles.introText}>
+        Stand still at the hiding spot. Fixes are averaged, with precise ones counting most.
+      </Text>
+
+      <Text style={styles.label}>AVERAGE FOR</Text>
+      <View style={styles.chipRow}>
+        {AVERAGING_GOALS.map((option) => {
+          const selected = option === goal;
+          return (
+            <Pressable
+              key={averagingGoalLabel(option)}
+              style={[styles.chip, selected && styles.chipActive, capturing && styles.chipDisabled]}
+              onPress={() => setGoal(option)}
+              disabled={capturing}
+            >
+              <Text style={[styles.chipText, selected && styles.chipTextActive]}>{averagingGoalLabel(option)}</Text>
+            </Pressable>
+          );
+        })}
+      </View>
+
+      <Pressable style={styles.secondaryButton} onPress={() => (capturing ? stop() : start(goal))}>
+        <Text style={styles.secondaryButtonText}>
+          {capturing ? 'STOP' : estimate ? 'AVERAGE AGAIN' : 'START AVERAGING'}
+        </Text>
+      </Pressable>
+
+      {error && <Text style={styles.errorText}>{error}</Text>}
+
+      {(capturing || estimate) && (
+        <View style={styles.panel}>
+          <View style={styles.progressTrack}>
+            <View style={[styles.progressFill, { width: `${Math.round(progress * 100)}%` }]} />
+          </View>
+          <Text style={styles.coordinatesText}>
+            {estimate ? formatCoordinates(estimate.coordinates, coordinateFormat) : 'Waiting for fixes...'}
+          </Text>
+          <View style={styles.statsRow}>
+            <Text style={styles.statText}>FIXES {estimate?.sampleCount ?? 0}</Text>
+            <Text style={styles.statText}>{formatDuration(elapsed * 1000)}</Text>
+            <Text style={styles.statText}>SPREAD ±{estimate ? formatDistance(estimate.spread, units) : '--'}</Text>
+            <Text style={styles.statText}>MAX {estimate ? formatDistance(estimate.maxDeviation, units) : '--'}</Text>
+          </View>
+        </View>
+      )}
+
+      {canSave && (
+        <>
+          <Text style={styles.label}>NAME</Text>
+          <TextInput
+            style={styles.input}
+            value={name}
+            onChangeText={setName}
+            placeholder="Cache name"
+            placeholderTextColor={palette.muted}
+          />
+
+          <Text style={styles.label}>NOTES</Text>
+          <TextInput
+            style={[styles.input, styles.multilineInput]}
+            value={notes}
+            onChangeText={setNotes}
+            placeholder="Container, hiding place, what to look for"
+            placeholderTextColor={palette.muted}
+            multiline
+          />
+
+          <Text style={styles.label}>PHOTO</Text>
+          {photoUri && <Image source={{ uri: photoUri }} style={styles.photo} contentFit="cover" />}
+          <View style={styles.chipRow}>
+            <Pressable style={styles.chip} onPress={() => handlePhoto('camera')}>
+              <Text style={styles.chipText}>TAKE PHOTO</Text>
+            </Pressable>
+            <Pressable style={styles.chip} onPress={() => handlePhoto('library')}>
+              <Text style={styles.chipText}>CHOOSE</Text>
+            </Pressable>
+            {photoUri && (
+              <Pressable style={styles.chip} onPress={removePhoto}>
+                <Text style={styles.chipText}>REMOVE</Text>
+              </Pressable>
+            )}
+          </View>
+
+          <Pressable style={styles.primaryButton} onPress={handleSave}>
+            <Text style={styles.primaryButtonText}>SAVE AS TARGET</Text>
+          </Pressable>
+        </>
+      )}
+    </ScrollView>
+  );
+}
+
+const createStyles = (palette: Palette) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: '#000000',
+    },
+    content: {
+      padding: 20,
+      paddingBottom: 40,
+    },
+    introText: {
+      color: palette.accent,
+      opacity: 0.7,
+      fontSize: 12,
+      textAlign: 'center',
+    },
+    label: {
+      color: palette.accent,
+      fontSize: 12,
+      fontFamily: 'monospace',
+      marginTop: 15,
+      marginBottom: 5,
+    },
+    chipRow: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+    },
+    chip: {
+      borderWidth: 1,
+      borderColor: palette.accent,
+      borderRadius: 6,
+      paddingVertical: 6,
+      paddingHorizontal: 10,
+      marginRight: 6,
+      marginBottom: 6,
+    },
+    chipActive: {
+      backgroundColor: palette.accent,
+    },
+    chipDisabled: {
+      opacity: 0.4,
+    },
+    chipText: {
+      color: palette.accent,
+      fontSize: 12,
+      fontWeight: 'bold',
+      fontFamily: 'monospace',
+    },
+    chipTextActive: {
+      color: '#000000',
+    },
+    errorText: {
+      color: '#ff0000',
+      fontSize: 12,
+      marginTop: 5,
+    },
+    panel: {
+      backgroundColor: palette.tint(0.1),
+      borderRadius: 10,
+      borderWidth: 1,
+      borderColor: palette.accent,
+      padding: 15,
+      marginTop: 15,
+    },
+    progressTrack: {
+      height: 6,
+      borderRadius: 3,
+      backgroundColor: palette.tint(0.2),
+      overflow: 'hidden',
+      marginBottom: 12,
+    },
+    progressFill: {
+      height: '100%',
+      backgroundColor: palette.accent,
+    },
+    coordinatesText: {
+      color: '#ffffff',
+      fontSize: 16,
+      fontFamily: 'monospace',
+      textAlign: 'center',
+      marginBottom: 10,
+    },
+    statsRow: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+    },
+    statText: {
+      color: palette.accent,
+      fontSize: 12,
+      fontFamily: 'monospace',
+    },
+    input: {
+      color: '#ffffff',
+      fontSize: 16,
+      fontFamily: 'monospace',
+      borderWidth: 1,
+      borderColor: palette.accent,
+      borderRadius: 8,
+      paddingHorizontal: 12,
+      paddingVertical: 10,
+      backgroundColor: palette.tint(0.05),
+    },
+    multilineInput: {
+      minHeight: 80,
+      textAlignVertical: 'top',
+    },
+    photo: {
+      width: '100%',
+      height: 200,
+      borderRadius: 8,
+      marginBottom: 8,
+    },
+    primaryButton: {
+      backgroundColor: palette.accent,
+      borderRadius: 10,
+      paddingVertical: 14,
+      alignItems: 'center',
+      marginTop: 25,
+    },
+    primaryButtonText: {
+      color: '#000000',
+      fontSize: 16,
+      fontWeight: 'bold',
+      letterSpacing: 2,
+    },
+    secondaryButton: {
+      borderWidth: 1,
+      borderColor: palette.accent,
+      borderRadius: 10,
+      paddingVertical: 14,
+      alignItems: 'center',
+      marginTop: 15,
+    },
+    secondaryButtonText: {
+      color: palette.accent,
+      fontSize: 16,
+      fontWeight: 'bold',
+      letterSpacing: 2,
+    },
+  });
@@ -0,0 +1,386 @@
+import * as Location from 'expo-location';
+import { Stack, router } from 'expo-router';
+import React, { useEffect, useMemo, useState } from 'react';
+import { Alert, Pressable, ScrollView, StyleSheet, Text, TextInput, View } from 'react-native';
+
+import { useActiveCache, useCaches } from '@/hooks/useCaches';
+import { usePalette, useThemedStyles } from '@/hooks/usePalette';
+import { useSettings } from '@/hooks/useSettings';
+import { addCache } from '@/lib/cacheStore';
+import { CoordinateParseError, formatCoordinates, parseCoordinates } from '@/lib/coordinates';
+import { formatDeclination, formatDistance } from '@/lib/format';
+import type { Coordinates } from '@/lib/geo';
+import { cacheDestination } from '@/lib/multiCache';
+import {
+  PROJECTION_UNITS,
+  projectWaypoint,
+  toMeters,
+  type BearingReference,
+  type ProjectionUnit,
+} from '@/lib/projection';
+import { getSensorProvider } from '@/lib/sensorProvider';
+import { updateSettings } from '@/lib/settingsStore';
+import type { Palette } from '@/lib/theme';
+
+type StartMode = 'here' | 'cache' | 'typed';
+
+const START_MODES: { value: StartMode; label: string }[] = [
+  { value: 'here', label: 'HERE' },
+  { value: 'cache', label: 'SAVED TARGET' },
+  { value: 'typed', label: 'TYPED' },
+];
+
+/** Parses a non-negative number, accepting a decimal comma; null when invalid. */
+const parseAmount = (text: string): number | null => {
+  const value = Number(text.trim().replace(',', '.'));
+  return text.trim() && Number.isFinite(value) && value >= 0 ? value : null;
+};
+
+export default function ProjectWaypointScreen() {
+  const palette = usePalette();
+  const styles = useThemedStyles(createStyles);
+  const { coordinateFormat, paceLength, units } = useSettings();
+  const caches = useCaches();
+  const activeCache = useActiveCache();
+
+  const [startMode, setStartMode] = useState<StartMode>('here');
+  const [here, setHere] = useState<Coordinates | null>(null);
+  const [hereError, setHereError] = useState<string | null>(null);
+  const [cacheId, setCacheId] = useState<string | null>(activeCache?.id ?? null);
+  const [typed, setTyped] = useState('');
+  const [bearingText, setBearingText] = useState('');
+  const [reference, setReference] = useState<BearingReference>('true');
+  const [distanceText, setDistanceText] = useState('');
+  const [unit, setUnit] = useState<ProjectionUnit>('m');
+  const [paceText, setPaceText] = useState(String(paceLength));
+  const [name, setName] = useState('');
+
+  useEffect(() => {
+    setPaceText(String(paceLength));
+  }, [paceLength]);
+
+  // Take a fresh fix each time "here" is chosen
+  useEffect(() => {
+    if (startMode !== 'here') return;
+    let cancelled = false;
+    setHere(null);
+    setHereError(null);
+    (async () => {
+      const provider = getSensorProvider();
+      if (!(await provider.requestPermissionsAsync())) throw new Error('Location permission is required to project from here');
+      const { coords } = await provider.getCurrentPositionAsync({ accuracy: Location.Accuracy.High });
+      if (!cancelled) setHere({ latitude: coords.latitude, longitude: coords.longitude });
+    })().catch((error) => !cancelled && setHereError((error as Error).message));
+    return () => {
+      cancelled = true;
+    };
+  }, [startMode]);
+
+  const typedStart = useMemo((): { coordinates?: Coordinates; error?: string } => {
+    if (!typed.trim()) return {};
+    try {
+      return { coordinates: parseCoordinates(typed) };
+    } catch (error) {
+      if (error instanceof CoordinateParseError) return { error: error.message };
+      throw error;
+    }
+  }, [typed]);
+
+  const selectedCache = caches.find((cache) => cache.id === cacheId) ?? null;
+  const start =
+    startMode === 'here'
+      ? here
+      : startMode === 'cache'
+        ? (selectedCache && cacheDestination(selectedCache)?.coordinates) ?? null
+        : (typedStart.coordinates ?? null);
+
+  const bearing = parseAmount(bearingText);
+  const bearingValid = bearing !== null && bearing < 360;
+  const amount = parseAmount(distanceText);
+  const projection =
+    start && bearingValid && amount !== null
+      ? projectWaypoint(start, bearing, reference, toMeters(amount, unit, paceLength))
+      : null;
+
+  const savePace = () => {
+    const value = parseAmount(paceText);
+    if (value && value > 0) updateSettings({ paceLength: value });
+    else setPaceText(String(paceLength));
+  };
+
+  const handleSave = () => {
+    if (!start || !projection || bearing === null || amount === null) {
+      Alert.alert('Incomplete', 'Choose a start point and enter a bearing (0-359°) and distance.');
+      return;
+    }
+    const description = `${amount} ${unit} at ${bearing}°${reference === 'true' ? 'T' : 'M'}`;
+    const cache = addCache({
+      name: name.trim() || `Projection ${description}`,
+      coordinates: projection.coordinates,
+      difficulty: 1.5,
+      hint: '',
+      notes: `Projected ${description} from ${formatCoordinates(start, coordinateFormat)}`,
+    });
+    router.navigate({ pathname: '/transponderWaypoint', params: { cacheId: cache.id } });
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Stack.Screen options={{ title: 'Project Waypoint' }} />
+
+      <Text style={styles.label}>FROM</Text>
+      <View style={styles.chipRow}>
+        {START_MODES.map(({ value, label }) => (
+          <Pressable
+            key={value}
+            style={[styles.chip, startMode === value && styles.chipActive]}
+            onPress={() => setStartMode(value)}
+          >
+            <Text style={[styles.chipText, startMode === value && styles.chipTextActive]}>{label}</Text>
+          </Pressable>
+        ))}
+      </View>
+
+      {startMode === 'here' && (
+        <Text style={hereError ? styles.errorText : styles.previewText}>
+          {hereError ?? (here ? formatCoordinates(here, coordinateFormat) : '🛰️ Getting your location...')}
+        </Text>
+      )}
+
+      {startMode === 'cache' &&
+        (caches.length === 0 ? (
+          <Text style={styles.previewText}>No saved caches yet.</Text>
+        ) : (
+          <View style={styles.chipRow}>
+            {caches.map((cache) => (
+              <Pressable
+                key={cache.id}
+                style={[styles.chip, cache.id === cacheId && styles.chipActive]}
+                onPress={() => setCacheId(cache.id)}
+              >
+                <Text style={[styles.chipText, cache.id === cacheId && styles.chipTextActive]}>{cache.name}</Text>
+              </Pressable>
+            ))}
+          </View>
+        ))}
+      {startMode === 'cache' && selectedCache && !start && (
+        <Text style={styles.errorText}>This multi-cache stage still needs its variables.</Text>
+      )}
+
+      {startMode === 'typed' && (
+        <>
+          <TextInput
+            style={[styles.input, typedStart.error && styles.inputInvalid]}
+            value={typed}
+            onChangeText={setTyped}
+            placeholder="N 37° 46.494 W 122° 25.164"
+            placeholderTextColor={palette.muted}
+            autoCapitalize="characters"
+            autoCorrect={false}
+          />
+          {typedStart.error && <Text style={styles.errorText}>{typedStart.error}</Text>}
+        </>
+      )}
+
+      <Text style={styles.label}>BEARING (°)</Text>
+      <View style={styles.inputRow}>
+        <TextInput
+          style={[styles.input, styles.flexInput, bearingText.trim() !== '' && !bearingValid && styles.inputInvalid]}
+          value={bearingText}
+          onChangeText={setBearingText}
+          keyboardType="decimal-pad"
+          placeholder="247"
+          placeholderTextColor={palette.muted}
+        />
+        {(['true', 'magnetic'] as const).map((value) => (
+          <Pressable
+            key={value}
+            style={[styles.chip, styles.inlineChip, reference === value && styles.chipActive]}
+            onPress={() => setReference(value)}
+          >
+            <Text style={[styles.chipText, reference === value && styles.chipTextActive]}>
+              {value === 'true' ? 'TRUE' : 'MAG'}
+            </Text>
+          </Pressable>
+        ))}
+      </View>
+
+      <Text style={styles.label}>DISTANCE</Text>
+      <TextInput
+        style={styles.input}
+        value={distanceText}
+        onChangeText={setDistanceText}
+        keyboardType="decimal-pad"
+        placeholder="120"
+        placeholderTextColor={palette.muted}
+      />
+      <View style={[styles.chipRow, styles.unitRow]}>
+        {PROJECTION_UNITS.map(({ value, label }) => (
+          <Pressable
+            key={value}
+            style={[styles.chip, unit === value && styles.chipActive]}
+            onPress={() => setUnit(value)}
+          >
+            <Text style={[styles.chipText, unit === value && styles.chipTextActive]}>{label}</Text>
+          </Pressable>
+        ))}
+      </View>
+      {unit === 'paces' && (
+        <View style={styles.inputRow}>
+          <Text style={styles.previewText}>ONE PACE = </Text>
+          <TextInput
+            style={[styles.input, styles.paceInput]}
+            value={paceText}
+            onChangeText={setPaceText}
+            onEndEditing={savePace}
+            onSubmitEditing={savePace}
+            keyboardType="decimal-pad"
+          />
+          <Text style={styles.previewText}> m</Text>
+        </View>
+      )}
+
+      {projection && (
+        <View style={styles.panel}>
+          <Text style={styles.resultText}>{formatCoordinates(projection.coordinates, coordinateFormat)}</Text>
+          <Text style={styles.previewText}>
+            {formatDistance(projection.distance, units)} at {projection.trueBearing.toFixed(1)}° TRUE
+            {projection.declination !== null ? ` (DECL ${formatDeclination(projection.declination)})` : ''}
+          </Text>
+        </View>
+      )}
+
+      <Text style={styles.label}>NAME</Text>
+      <TextInput
+        style={styles.input}
+        value={name}
+        onChangeText={setName}
+        placeholder="Projected waypoint"
+        placeholderTextColor={palette.muted}
+      />
+
+      <Pressable style={[styles.primaryButton, !projection && styles.buttonDisabled]} onPress={handleSave}>
+        <Text style={styles.primaryButtonText}>SAVE & NAVIGATE</Text>
+      </Pressable>
+    </ScrollView>
+  );
+}
+
+const createStyles = (palette: Palette) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: '#000000',
+    },
+    content: {
+      padding: 20,
+      paddingBottom: 40,
+    },
+    label: {
+      color: palette.accent,
+      fontSize: 12,
+      fontFamily: 'monospace',
+      marginTop: 15,
+      marginBottom: 5,
+    },
+    chipRow: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+    },
+    unitRow: {
+      marginTop: 6,
+    },
+    chip: {
+      borderWidth: 1,
+      borderColor: palette.accent,
+      borderRadius: 6,
+      paddingVertical: 6,
+      paddingHorizontal: 10,
+      marginRight: 6,
+      marginBottom: 6,
+    },
+    inlineChip: {
+      marginLeft: 6,
+      marginRight: 0,
+      marginBottom: 0,
+    },
+    chipActive: {
+      backgroundColor: palette.accent,
+    },
+    chipText: {
+      color: palette.accent,
+      fontSize: 12,
+      fontWeight: 'bold',
+    },
+    chipTextActive: {
+      color: '#000000',
+    },
+    inputRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+    },
+    input: {
+      color: '#ffffff',
+      fontSize: 16,
+      fontFamily: 'monospace',
+      borderWidth: 1,
+      borderColor: palette.accent,
+      borderRadius: 8,
+      paddingHorizontal: 12,
+      paddingVertical: 10,
+      backgroundColor: palette.tint(0.05),
+    },
+    flexInput: {
+      flex: 1,
+    },
+    paceInput: {
+      width: 80,
+      paddingVertical: 6,
+    },
+    inputInvalid: {
+      borderColor: '#ff0000',
+    },
+    errorText: {
+      color: '#ff0000',
+      fontSize: 12,
+      marginTop: 5,
+    },
+    previewText: {
+      color: palette.accent,
+      opacity: 0.7,
+      fontSize: 12,
+      fontFamily: 'monospace',
+      marginTop: 5,
+    },
+    panel: {
+      backgroundColor: palette.tint(0.1),
+      borderRadius: 10,
+      borderWidth: 1,
+      borderColor: palette.accent,
+      padding: 15,
+      marginTop: 20,
+      alignItems: 'center',
+    },
+    resultText: {
+      color: '#ffffff',
+      fontSize: 16,
+      fontWeight: 'bold',
+      fontFamily: 'monospace',
+    },
+    primaryButton: {
+      backgroundColor: palette.accent,
+      borderRadius: 10,
+      paddingVertical: 14,
+      alignItems: 'center',
+      marginTop: 25,
+    },
+    buttonDisabled: {
+      opacity: 0.4,
+    },
+    primaryButtonText: {
+      color: '#000000',
+      fontSize: 16,
+      fontWeight: 'bold',
+      letterSpacing: 2,
+    },
+  });
@@ -0,0 +1,127 @@
+import { Stack, useLocalSearchParams } from 'expo-router';
+import React from 'react';
+import { Alert, Pressable, ScrollView, Share, StyleSheet, Text, View } from 'react-native';
+import QRCode from 'react-native-qrcode-svg';
+
+import { useCache } from '@/hooks/useCaches';
+import { useThemedStyles } from '@/hooks/usePalette';
+import { MAX_QR_LINK_LENGTH, targetLink } from '@/lib/targetLink';
+import type { Palette } from '@/lib/theme';
+
+export default function ShareCacheScreen() {
+  const styles = useThemedStyles(createStyles);
+  const { cacheId } = useLocalSearchParams<{ cacheId: string }>();
+  const cache = useCache(cacheId);
+
+  if (!cache) {
+    return (
+      <View style={styles.container}>
+        <Stack.Screen options={{ title: 'Share Cache' }} />
+        <Text style={styles.missingText}>Cache not found</Text>
+      </View>
+    );
+  }
+
+  const link = targetLink(cache);
+  const fitsQr = link.length <= MAX_QR_LINK_LENGTH;
+
+  const handleShare = async () => {
+    try {
+      await Share.share({ message: link });
+    } catch (error) {
+      Alert.alert('Share Failed', (error as Error).message);
+    }
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Stack.Screen options={{ title: `Share ${cache.name}` }} />
+
+      {fitsQr ? (
+        <>
+          {/* Dark on light with a quiet zone, which camera apps read far more reliably */}
+          <View style={styles.qrFrame}>
+            <QRCode value={link} size={240} ecl="L" />
+          </View>
+          <Text style={styles.hintText}>Scan with a phone camera to open this target in GeoCash.</Text>
+        </>
+      ) : (
+        <Text style={styles.warningText}>
+          This cache has too many stages for a QR code to scan reliably. Share the link instead.
+        </Text>
+      )}
+
+      <Text style={styles.label}>LINK</Text>
+      <Text style={styles.linkText} selectable>
+        {link}
+      </Text>
+
+      <Pressable style={styles.primaryButton} onPress={handleShare}>
+        <Text style={styles.primaryButtonText}>SHARE LINK</Text>
+      </Pressable>
+    </ScrollView>
+  );
+}
+
+const createStyles = (palette: Palette) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: '#000000',
+    },
+    content: {
+      padding: 20,
+      paddingBottom: 40,
+    },
+    missingText: {
+      color: '#ff0000',
+      fontSize: 16,
+      textAlign: 'center',
+      marginTop: 40,
+    },
+    qrFrame: {
+      alignSelf: 'center',
+      backgroundColor: '#ffffff',
+      padding: 16,
+      borderRadius: 10,
+      marginTop: 10,
+    },
+    hintText: {
+      color: palette.accent,
+      opacity: 0.7,
+      fontSize: 12,
+      textAlign: 'center',
+      marginTop: 10,
+    },
+    warningText: {
+      color: '#ffaa00',
+      fontSize: 14,
+      textAlign: 'center',
+      marginTop: 20,
+    },
+    label: {
+      color: palette.accent,
+      fontSize: 12,
+      fontFamily: 'monospace',
+      marginTop: 20,
+      marginBottom: 5,
+    },
+    linkText: {
+      color: '#ffffff',
+      fontSize: 12,
+      fontFamily: 'monospace',
+    },
+    primaryButton: {
+      backgroundColor: palette.accent,
+      borderRadius: 10,
+      paddingVertical: 14,
+      alignItems: 'center',
+      marginTop: 25,
+    },
+    primaryButtonText: {
+      color: '#000000',
+      fontSize: 16,
+      fontWeight: 'bold',
+      letterSpacing: 2,
+    },
+  });
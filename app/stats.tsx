@@ -0,0 +1,218 @@
+import { Stack } from 'expo-router';
+import React, { useMemo } from 'react';
+import { Alert, Pressable, ScrollView, StyleSheet, Text, View } from 'react-native';
+
+import { useCaches } from '@/hooks/useCaches';
+import { useLogs } from '@/hooks/useLogs';
+import { useThemedStyles } from '@/hooks/usePalette';
+import { useSettings } from '@/hooks/useSettings';
+import { useTracks } from '@/hooks/useTracks';
+import { shareFieldNotesAsync } from '@/lib/cacheFiles';
+import { DIFFICULTY_LEVELS } from '@/lib/cacheStore';
+import { formatFieldNotes } from '@/lib/fieldNotes';
+import { formatDistance } from '@/lib/format';
+import { difficultyBreakdown, findsPerDay } from '@/lib/logStore';
+import type { Palette } from '@/lib/theme';
+import { trackDistance } from '@/lib/trackStore';
+
+function BarRow({ label, value, max }: { label: string; value: number; max: number }) {
+  const styles = useThemedStyles(createStyles);
+  return (
+    <View style={styles.barRow}>
+      <Text style={styles.barLabel}>{label}</Text>
+      <View style={styles.barTrack}>
+        <View style={[styles.bar, { width: `${max > 0 ? (value / max) * 100 : 0}%` }]} />
+      </View>
+      <Text style={styles.barValue}>{value}</Text>
+    </View>
+  );
+}
+
+export default function StatsScreen() {
+  const styles = useThemedStyles(createStyles);
+  const logs = useLogs();
+  const caches = useCaches();
+  const tracks = useTracks();
+  const { units } = useSettings();
+
+  const counts = useMemo(
+    () => ({
+      found: logs.filter((log) => log.type === 'found').length,
+      dnf: logs.filter((log) => log.type === 'dnf').length,
+      maintenance: logs.filter((log) => log.type === 'maintenance').length,
+    }),
+    [logs]
+  );
+  const days = useMemo(() => findsPerDay(logs), [logs]);
+  const difficulties = useMemo(() => difficultyBreakdown(logs, caches), [logs, caches]);
+  // Only walks recorded as tracks count; the app keeps no other record of distance moved
+  const distance = useMemo(() => tracks.reduce((sum, track) => sum + trackDistance(track), 0), [tracks]);
+
+  const maxDay = Math.max(0, ...days.map((day) => day.finds));
+  const maxDifficulty = Math.max(0, ...difficulties.values());
+
+  const handleExport = async () => {
+    const { text, count, skipped } = formatFieldNotes(logs, caches);
+    if (count === 0) {
+      Alert.alert('Nothing to Export', 'Only logs of caches with a GC code can be exported as field notes.');
+      return;
+    }
+    try {
+      await shareFieldNotesAsync(text);
+      if (skipped > 0) {
+        Alert.alert('Field Notes', `${count} exported; ${skipped} logs of caches without a GC code were left out.`);
+      }
+    } catch (error) {
+      Alert.alert('Export Failed', (error as Error).message);
+    }
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Stack.Screen options={{ title: 'Stats' }} />
+
+      <View style={styles.panel}>
+        <View style={styles.totalsRow}>
+          <View style={styles.total}>
+            <Text style={styles.totalValue}>{counts.found}</Text>
+            <Text style={styles.totalLabel}>FOUND</Text>
+          </View>
+          <View style={styles.total}>
+            <Text style={styles.totalValue}>{counts.dnf}</Text>
+            <Text style={styles.totalLabel}>DNF</Text>
+          </View>
+          <View style={styles.total}>
+            <Text style={styles.totalValue}>{counts.maintenance}</Text>
+            <Text style={styles.totalLabel}>MAINT</Text>
+          </View>
+        </View>
+        <Text style={styles.distanceText}>{formatDistance(distance, units)} IN RECORDED TRACKS</Text>
+      </View>
+
+      <Text style={styles.label}>FINDS PER DAY</Text>
+      {days.length === 0 ? (
+        <Text style={styles.emptyText}>No finds logged yet.</Text>
+      ) : (
+        days.map(({ day, finds }) => <BarRow key={day} label={day} value={finds} max={maxDay} />)
+      )}
+
+      <Text style={styles.label}>DIFFICULTY</Text>
+      {difficulties.size === 0 ? (
+        <Text style={styles.emptyText}>Find a cache to see its difficulty here.</Text>
+      ) : (
+        DIFFICULTY_LEVELS.map((level) => (
+          <BarRow key={level} label={`D${level}`} value={difficulties.get(level) ?? 0} max={maxDifficulty} />
+        ))
+      )}
+
+      <Pressable
+        style={[styles.primaryButton, logs.length === 0 && styles.buttonDisabled]}
+        onPress={handleExport}
+        disabled={logs.length === 0}
+      >
+        <Text style={styles.primaryButtonText}>EXPORT FIELD NOTES</Text>
+      </Pressable>
+    </ScrollView>
+  );
+}
+
+const createStyles = (palette: Palette) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: '#000000',
+    },
+    content: {
+      padding: 20,
+      paddingBottom: 40,
+    },
+    panel: {
+      backgroundColor: palette.tint(0.1),
+      borderRadius: 10,
+      borderWidth: 1,
+      borderColor: palette.accent,
+      padding: 15,
+    },
+    totalsRow: {
+      flexDirection: 'row',
+      justifyContent: 'space-around',
+    },
+    total: {
+      alignItems: 'center',
+    },
+    totalValue: {
+      color: '#ffffff',
+      fontSize: 28,
+      fontWeight: 'bold',
+      fontFamily: 'monospace',
+    },
+    totalLabel: {
+      color: palette.accent,
+      fontSize: 12,
+      fontFamily: 'monospace',
+    },
+    distanceText: {
+      color: palette.accent,
+      fontSize: 14,
+      fontFamily: 'monospace',
+      textAlign: 'center',
+      marginTop: 12,
+    },
+    label: {
+      color: palette.accent,
+      fontSize: 12,
+      fontFamily: 'monospace',
+      marginTop: 20,
+      marginBottom: 8,
+    },
+    emptyText: {
+      color: palette.accent,
+      opacity: 0.7,
+      fontSize: 12,
+    },
+    barRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      marginBottom: 6,
+    },
+    barLabel: {
+      color: palette.accent,
+      fontSize: 12,
+      fontFamily: 'monospace',
+      width: 90,
+    },
+    barTrack: {
+      flex: 1,
+      height: 10,
+      borderRadius: 5,
+      backgroundColor: palette.tint(0.1),
+      overflow: 'hidden',
+    },
+    bar: {
+      height: '100%',
+      backgroundColor: palette.accent,
+    },
+    barValue: {
+      color: '#ffffff',
+      fontSize: 12,
+      fontFamily: 'monospace',
+      width: 30,
+      textAlign: 'right',
+    },
+    primaryButton: {
+      backgroundColor: palette.accent,
+      borderRadius: 10,
+      paddingVertical: 14,
+      alignItems: 'center',
+      marginTop: 25,
+    },
+    buttonDisabled: {
+      opacity: 0.4,
+    },
+    primaryButtonText: {
+      color: '#000000',
+      fontSize: 16,
+      fontWeight: 'bold',
+      letterSpacing: 2,
+    },
+  });
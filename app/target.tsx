@@ -0,0 +1,198 @@
+import { Stack, router, useLocalSearchParams } from 'expo-router';
+import React, { useMemo } from 'react';
+import { Pressable, ScrollView, StyleSheet, Text, View } from 'react-native';
+
+import { useCaches } from '@/hooks/useCaches';
+import { useThemedStyles } from '@/hooks/usePalette';
+import { useSettings } from '@/hooks/useSettings';
+import { addCache, cacheStore, type CacheDraft } from '@/lib/cacheStore';
+import { formatCoordinates } from '@/lib/coordinates';
+import { findSharedCache, parseTargetLink, TargetLinkError } from '@/lib/targetLink';
+import type { Palette } from '@/lib/theme';
+
+/** Opened by `geocashv2://target?…` links and scanned QR codes. */
+export default function SharedTargetScreen() {
+  const styles = useThemedStyles(createStyles);
+  const params = useLocalSearchParams();
+  const caches = useCaches();
+  const { coordinateFormat } = useSettings();
+
+  const link = useMemo((): { draft?: CacheDraft; error?: string } => {
+    try {
+      return { draft: parseTargetLink(params) };
+    } catch (error) {
+      if (error instanceof TargetLinkError) return { error: error.message };
+      throw error;
+    }
+  }, [params]);
+
+  const existing = link.draft ? findSharedCache(caches, link.draft) : undefined;
+
+  const handleOpen = async () => {
+    if (!link.draft) return;
+    // Look among all stored caches, not just those loaded so far
+    await cacheStore.hydrate();
+    const cache = findSharedCache(cacheStore.getState().caches, link.draft) ?? addCache(link.draft);
+    router.replace({ pathname: '/transponderWaypoint', params: { cacheId: cache.id } });
+  };
+
+  if (!link.draft) {
+    return (
+      <View style={[styles.container, styles.content]}>
+        <Stack.Screen options={{ title: 'Shared Target' }} />
+        <Text style={styles.errorTitle}>INVALID LINK</Text>
+        <Text style={styles.errorText}>{link.error}</Text>
+        <Pressable style={styles.secondaryButton} onPress={() => router.replace('/caches')}>
+          <Text style={styles.secondaryButtonText}>GO TO CACHES</Text>
+        </Pressable>
+      </View>
+    );
+  }
+
+  const { draft } = link;
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Stack.Screen options={{ title: 'Shared Target' }} />
+
+      <View style={styles.panel}>
+        <Text style={styles.name}>{draft.name}</Text>
+        <Text style={styles.coordinates}>{formatCoordinates(draft.coordinates, coordinateFormat)}</Text>
+        <Text style={styles.meta}>
+          {draft.code ? `${draft.code} · ` : ''}D{draft.difficulty}
+          {draft.stages ? ` · ${draft.stages.length} STAGES` : ''}
+        </Text>
+      </View>
+
+      {draft.hint !== '' && (
+        <>
+          <Text style={styles.label}>HINT</Text>
+          <Text style={styles.bodyText}>{draft.hint}</Text>
+        </>
+      )}
+
+      {draft.stages && (
+        <>
+          <Text style={styles.label}>STAGES</Text>
+          {draft.stages.map((stage, index) => (
+            <View key={stage.id} style={styles.stage}>
+              <Text style={styles.meta}>
+                {index === draft.stages!.length - 1 ? 'FINAL' : `#${index + 1}`} {stage.name}
+              </Text>
+              <Text style={styles.bodyText}>{stage.coordinates}</Text>
+            </View>
+          ))}
+        </>
+      )}
+
+      {existing && <Text style={styles.noticeText}>Already saved as &quot;{existing.name}&quot;.</Text>}
+
+      <Pressable style={styles.primaryButton} onPress={handleOpen}>
+        <Text style={styles.primaryButtonText}>{existing ? 'NAVIGATE' : 'SAVE & NAVIGATE'}</Text>
+      </Pressable>
+    </ScrollView>
+  );
+}
+
+const createStyles = (palette: Palette) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: '#000000',
+    },
+    content: {
+      padding: 20,
+      paddingBottom: 40,
+    },
+    panel: {
+      backgroundColor: palette.tint(0.1),
+      borderRadius: 10,
+      borderWidth: 1,
+      borderColor: palette.accent,
+      padding: 15,
+      alignItems: 'center',
+    },
+    name: {
+      color: '#ffffff',
+      fontSize: 20,
+      fontWeight: 'bold',
+      marginBottom: 6,
+    },
+    coordinates: {
+      color: palette.accent,
+      fontSize: 16,
+      fontFamily: 'monospace',
+    },
+    meta: {
+      color: palette.accent,
+      opacity: 0.7,
+      fontSize: 12,
+      fontFamily: 'monospace',
+      marginTop: 4,
+    },
+    label: {
+      color: palette.accent,
+      fontSize: 12,
+      fontFamily: 'monospace',
+      marginTop: 15,
+      marginBottom: 5,
+    },
+    bodyText: {
+      color: '#ffffff',
+      fontSize: 14,
+      fontFamily: 'monospace',
+    },
+    stage: {
+      borderWidth: 1,
+      borderColor: palette.tint(0.4),
+      borderRadius: 8,
+      padding: 8,
+      marginBottom: 8,
+    },
+    noticeText: {
+      color: '#ffaa00',
+      fontSize: 12,
+      marginTop: 15,
+      textAlign: 'center',
+    },
+    errorTitle: {
+      color: '#ff0000',
+      fontSize: 20,
+      fontWeight: 'bold',
+      letterSpacing: 3,
+      textAlign: 'center',
+      marginTop: 40,
+    },
+    errorText: {
+      color: '#ff0000',
+      fontSize: 14,
+      textAlign: 'center',
+      marginTop: 10,
+    },
+    primaryButton: {
+      backgroundColor: palette.accent,
+      borderRadius: 10,
+      paddingVertical: 14,
+      alignItems: 'center',
+      marginTop: 25,
+    },
+    primaryButtonText: {
+      color: '#000000',
+      fontSize: 16,
+      fontWeight: 'bold',
+      letterSpacing: 2,
+    },
+    secondaryButton: {
+      borderWidth: 1,
+      borderColor: palette.accent,
+      borderRadius: 10,
+      paddingVertical: 14,
+      alignItems: 'center',
+      marginTop: 25,
+    },
+    secondaryButtonText: {
+      color: palette.accent,
+      fontSize: 16,
+      fontWeight: 'bold',
+      letterSpacing: 2,
+    },
+  });
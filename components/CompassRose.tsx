@@ -0,0 +1,265 @@
+import React, { useEffect, useMemo, type ReactNode } from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import Animated, { useAnimatedStyle, useSharedValue, withTiming, type SharedValue } from 'react-native-reanimated';
+import Svg, { Circle, Line, Path, Text as SvgText } from 'react-native-svg';
+
+import { usePalette, useThemedStyles } from '@/hooks/usePalette';
+import { useSettings } from '@/hooks/useSettings';
+import { relativeBearing } from '@/lib/geo';
+import type { Palette } from '@/lib/theme';
+
+const NORTH_COLOR = '#ff0000';
+/** Card labels every 30°: cardinals as letters, the rest in tens of degrees. */
+const LABELS = ['N', '3', '6', 'E', '12', '15', 'S', '21', '24', 'W', '30', '33'];
+const TAPE_HEIGHT = 36;
+/** Tape scale in pixels per degree. */
+const TAPE_SCALE = 4;
+/** The tape is drawn this far past 0° and 360° so it never runs out while wrapping. */
+const TAPE_MARGIN = 90;
+
+type CompassRoseProps = {
+  /** Degrees; the dial turns so this reading sits under the lubber line. */
+  heading: number;
+  size: number;
+  /** Heading confidence from 0 to 1; the lubber line fades as it drops. */
+  confidence?: number;
+  /** Milliseconds for each turn to a new heading; defaults to the arrow smoothing setting. */
+  duration?: number;
+  /** Adds an aviation-style heading tape under the dial. */
+  tape?: boolean;
+  /** SVG drawn on the dial, north up in a `size` square, turning with it. */
+  children?: ReactNode;
+  /** Content centred over the dial that does not turn, such as an arrow. */
+  overlay?: ReactNode;
+};
+
+/** One upright card label, orbiting the centre as the dial turns. */
+function RoseLabel({
+  index,
+  radius,
+  rotation,
+  color,
+}: {
+  index: number;
+  radius: number;
+  rotation: SharedValue<number>;
+  color: string;
+}) {
+  const styles = useThemedStyles(createStyles);
+  const animatedStyle = useAnimatedStyle(() => {
+    const angle = ((index * 30 + rotation.value) * Math.PI) / 180;
+    return {
+      transform: [{ translateX: radius * Math.sin(angle) }, { translateY: -radius * Math.cos(angle) }],
+    };
+  });
+  const cardinal = index % 3 === 0;
+  return (
+    <Animated.View style={[styles.label, animatedStyle]}>
+      <Text style={[cardinal ? styles.cardinalText : styles.labelText, { color }]}>{LABELS[index]}</Text>
+    </Animated.View>
+  );
+}
+
+/** Graduations every degree, longer every 5° and 10°, drawn once and turned as a whole. */
+function Dial({ size, palette }: { size: number; palette: Palette }) {
+  const center = size / 2;
+  const outer = center - 2;
+  return (
+    <>
+      <Circle cx={center} cy={center} r={outer} fill={palette.tint(0.05)} stroke={palette.accent} strokeWidth="2" />
+      {Array.from({ length: 360 }, (_, degree) => {
+        const length = degree % 10 === 0 ? 12 : degree % 5 === 0 ? 8 : 4;
+        const angle = (degree * Math.PI) / 180;
+        const sin = Math.sin(angle);
+        const cos = Math.cos(angle);
+        return (
+          <Line
+            key={degree}
+            x1={center + outer * sin}
+            y1={center - outer * cos}
+            x2={center + (outer - length) * sin}
+            y2={center - (outer - length) * cos}
+            stroke={degree === 0 ? NORTH_COLOR : palette.accent}
+            strokeWidth={degree % 10 === 0 ? 2 : 1}
+            opacity={degree % 5 === 0 ? 1 : 0.6}
+          />
+        );
+      })}
+    </>
+  );
+}
+
+/** A strip of the scale that slides sideways under a fixed index mark. */
+function HeadingTape({ width, rotation, palette }: { width: number; rotation: SharedValue<number>; palette: Palette }) {
+  const styles = useThemedStyles(createStyles);
+  const tapeWidth = (360 + 2 * TAPE_MARGIN) * TAPE_SCALE;
+  const ticks = useMemo(
+    () =>
+      Array.from({ length: (360 + 2 * TAPE_MARGIN) / 5 + 1 }, (_, index) => {
+        const degree = index * 5 - TAPE_MARGIN;
+        const normalized = ((degree % 360) + 360) % 360;
+        const x = (degree + TAPE_MARGIN) * TAPE_SCALE;
+        const major = normalized % 10 === 0;
+        return (
+          <React.Fragment key={degree}>
+            <Line
+              x1={x}
+              y1={0}
+              x2={x}
+              y2={major ? 12 : 6}
+              stroke={normalized === 0 ? NORTH_COLOR : palette.accent}
+              strokeWidth={major ? 2 : 1}
+            />
+            {normalized % 30 === 0 && (
+              <SvgText
+                x={x}
+                y={28}
+                fontSize="12"
+                fontWeight="bold"
+                fill={normalized === 0 ? NORTH_COLOR : palette.accent}
+                textAnchor="middle"
+              >
+                {LABELS[normalized / 30]}
+              </SvgText>
+            )}
+          </React.Fragment>
+        );
+      }),
+    [palette]
+  );
+
+  const animatedStyle = useAnimatedStyle(() => {
+    const heading = (((-rotation.value) % 360) + 360) % 360;
+    return { transform: [{ translateX: width / 2 - (heading + TAPE_MARGIN) * TAPE_SCALE }] };
+  });
+
+  return (
+    <View style={[styles.tape, { width }]}>
+      <Animated.View style={[{ width: tapeWidth }, animatedStyle]}>
+        <Svg width={tapeWidth} height={TAPE_HEIGHT}>
+          {ticks}
+        </Svg>
+      </Animated.View>
+      <View style={styles.tapeIndex} />
+    </View>
+  );
+}
+
+/**
+ * Rotating compass card with 1°/5°/10° graduations, upright labels and a fixed lubber
+ * line. The dial, labels and tape are driven by one shared value on the UI thread;
+ * React only renders when the heading prop changes.
+ */
+export function CompassRose({
+  heading,
+  size,
+  confidence = 1,
+  duration,
+  tape = false,
+  children,
+  overlay,
+}: CompassRoseProps) {
+  const palette = usePalette();
+  const styles = useThemedStyles(createStyles);
+  const { arrowSmoothing } = useSettings();
+  const turnDuration = duration ?? arrowSmoothing;
+
+  // Unwrapped dial rotation in degrees, so turns always take the short way round
+  const rotation = useSharedValue(-heading);
+  const lubberOpacity = useSharedValue(1);
+
+  useEffect(() => {
+    const next = rotation.value + relativeBearing(-heading, rotation.value);
+    rotation.value = turnDuration > 0 ? withTiming(next, { duration: turnDuration }) : next;
+  }, [heading, turnDuration, rotation]);
+
+  useEffect(() => {
+    lubberOpacity.value = withTiming(0.3 + 0.7 * Math.min(1, Math.max(0, confidence)), { duration: 300 });
+  }, [confidence, lubberOpacity]);
+
+  const dialStyle = useAnimatedStyle(() => ({ transform: [{ rotate: `${rotation.value}deg` }] }));
+  const lubberStyle = useAnimatedStyle(() => ({ opacity: lubberOpacity.value }));
+
+  const dial = useMemo(() => <Dial size={size} palette={palette} />, [size, palette]);
+  const center = size / 2;
+
+  return (
+    <View style={styles.container}>
+      <View style={{ width: size, height: size }}>
+        <Animated.View style={[StyleSheet.absoluteFill, dialStyle]}>
+          <Svg width={size} height={size}>
+            {dial}
+            {children}
+          </Svg>
+        </Animated.View>
+
+        <View style={[StyleSheet.absoluteFill, styles.centered]} pointerEvents="none">
+          {LABELS.map((_, index) => (
+            <RoseLabel
+              key={index}
+              index={index}
+              radius={center - 30}
+              rotation={rotation}
+              color={index === 0 ? NORTH_COLOR : palette.accent}
+            />
+          ))}
+        </View>
+
+        <Animated.View style={[StyleSheet.absoluteFill, lubberStyle]} pointerEvents="none">
+          <Svg width={size} height={size}>
+            <Path d={`M ${center - 7} 0 L ${center + 7} 0 L ${center} 16 Z`} fill="#ffffff" />
+          </Svg>
+        </Animated.View>
+
+        {overlay && (
+          <View style={[StyleSheet.absoluteFill, styles.centered]} pointerEvents="box-none">
+            {overlay}
+          </View>
+        )}
+      </View>
+
+      {tape && <HeadingTape width={size} rotation={rotation} palette={palette} />}
+    </View>
+  );
+}
+
+const createStyles = (palette: Palette) =>
+  StyleSheet.create({
+    container: {
+      alignItems: 'center',
+    },
+    centered: {
+      justifyContent: 'center',
+      alignItems: 'center',
+    },
+    label: {
+      position: 'absolute',
+    },
+    labelText: {
+      fontSize: 12,
+      fontWeight: 'bold',
+      fontFamily: 'monospace',
+    },
+    cardinalText: {
+      fontSize: 16,
+      fontWeight: 'bold',
+    },
+    tape: {
+      height: TAPE_HEIGHT,
+      marginTop: 12,
+      overflow: 'hidden',
+      borderWidth: 1,
+      borderColor: palette.accent,
+      borderRadius: 6,
+      backgroundColor: palette.tint(0.05),
+    },
+    tapeIndex: {
+      position: 'absolute',
+      left: '50%',
+      top: 0,
+      bottom: 0,
+      width: 2,
+      marginLeft: -1,
+      backgroundColor: '#ffffff',
+    },
+  });
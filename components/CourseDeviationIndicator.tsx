@@ -0,0 +1,89 @@
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+
+import { usePalette, useThemedStyles } from '@/hooks/usePalette';
+import type { Palette } from '@/lib/theme';
+
+/** Deviation (degrees) at which the needle reaches the end of the scale. */
+const FULL_SCALE = 60;
+const OFF_COURSE_COLOR = '#ffff00';
+
+/**
+ * Horizontal deviation bar: the needle sits left or right of centre by how far the
+ * target bearing is off the heading, with the tolerance cone shaded around centre.
+ * `deviation` is the target's relative bearing, positive to the right.
+ */
+export function CourseDeviationIndicator({ deviation, tolerance }: { deviation: number; tolerance: number }) {
+  const palette = usePalette();
+  const styles = useThemedStyles(createStyles);
+  const onCourse = Math.abs(deviation) <= tolerance;
+  const toPercent = (degrees: number) => 50 + (Math.max(-FULL_SCALE, Math.min(FULL_SCALE, degrees)) / FULL_SCALE) * 50;
+  const toleranceWidth = (Math.min(tolerance, FULL_SCALE) / FULL_SCALE) * 100;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.track}>
+        <View style={[styles.toleranceZone, { left: `${50 - toleranceWidth / 2}%`, width: `${toleranceWidth}%` }]} />
+        <View style={styles.centerMark} />
+        <View
+          style={[
+            styles.needle,
+            { left: `${toPercent(deviation)}%`, backgroundColor: onCourse ? palette.accent : OFF_COURSE_COLOR },
+          ]}
+        />
+      </View>
+      <Text style={[styles.label, !onCourse && { color: OFF_COURSE_COLOR }]}>
+        {onCourse
+          ? 'ON COURSE'
+          : `${deviation < 0 ? '◀ TURN LEFT' : 'TURN RIGHT ▶'} ${Math.round(Math.abs(deviation))}°`}
+      </Text>
+    </View>
+  );
+}
+
+const createStyles = (palette: Palette) =>
+  StyleSheet.create({
+    container: {
+      width: '90%',
+      alignItems: 'center',
+      marginTop: 10,
+    },
+    track: {
+      width: '100%',
+      height: 16,
+      borderRadius: 8,
+      borderWidth: 1,
+      borderColor: palette.accent,
+      backgroundColor: palette.tint(0.05),
+      overflow: 'hidden',
+    },
+    toleranceZone: {
+      position: 'absolute',
+      top: 0,
+      bottom: 0,
+      backgroundColor: palette.tint(0.25),
+    },
+    centerMark: {
+      position: 'absolute',
+      left: '50%',
+      top: 0,
+      bottom: 0,
+      width: 1,
+      backgroundColor: palette.accent,
+    },
+    needle: {
+      position: 'absolute',
+      top: 1,
+      bottom: 1,
+      width: 6,
+      marginLeft: -3,
+      borderRadius: 3,
+    },
+    label: {
+      color: palette.accent,
+      fontSize: 12,
+      fontFamily: 'monospace',
+      fontWeight: 'bold',
+      marginTop: 5,
+    },
+  });
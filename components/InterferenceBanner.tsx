@@ -0,0 +1,62 @@
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+
+import type { HeadingSource } from '@/lib/headingFilter';
+import { INTERFERENCE_LABELS, type InterferenceStatus } from '@/lib/interference';
+
+const WARNING_COLOR = '#ffaa00';
+const ERROR_COLOR = '#ff0000';
+
+const signed = (value: number) => `${value >= 0 ? '+' : ''}${Math.round(value)}`;
+
+/**
+ * Warns when the measured field is off the Earth's and says what the heading comes from
+ * instead. Renders nothing while the field is clean and the compass is in use.
+ */
+export function InterferenceBanner({ source, interference }: { source: HeadingSource; interference: InterferenceStatus }) {
+  const { level, strengthDeviation, inclinationError } = interference;
+  if (level === 'none' && source !== 'gps') return null;
+
+  const usingCourse = source === 'gps';
+  const color = usingCourse || level === 'distorted' ? WARNING_COLOR : ERROR_COLOR;
+  const advice = usingCourse
+    ? 'HEADING FROM GPS COURSE'
+    : level === 'interference'
+      ? 'KEEP WALKING TO USE GPS COURSE'
+      : 'HEADING MAY BE OFF';
+
+  return (
+    <View style={[styles.container, { borderColor: color }]}>
+      <Text style={[styles.title, { color }]}>
+        {INTERFERENCE_LABELS[level]} · {advice}
+      </Text>
+      <Text style={[styles.detail, { color }]}>
+        FIELD {signed(strengthDeviation * 100)}%
+        {inclinationError !== null ? ` · DIP ${signed(inclinationError)}°` : ''}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    width: '90%',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 6,
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    marginTop: 8,
+  },
+  title: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    fontFamily: 'monospace',
+    textAlign: 'center',
+  },
+  detail: {
+    fontSize: 11,
+    fontFamily: 'monospace',
+    marginTop: 2,
+  },
+});
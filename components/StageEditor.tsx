@@ -0,0 +1,209 @@
+import React from 'react';
+import { Pressable, StyleSheet, Text, TextInput, View } from 'react-native';
+
+import { VariableInput } from '@/components/StagePanel';
+import { useSettings } from '@/hooks/useSettings';
+import type { Cache, CacheStage } from '@/lib/cacheStore';
+import { formatCoordinates } from '@/lib/coordinates';
+import { formulaVariables } from '@/lib/formulaCoordinates';
+import { addStage, deleteStage, moveStage, resolveStage, updateStage } from '@/lib/multiCache';
+
+function StageRow({ cache, stage, index }: { cache: Cache; stage: CacheStage; index: number }) {
+  const { coordinateFormat } = useSettings();
+  const resolution = stage.coordinates.trim() ? resolveStage(stage, cache.variables) : null;
+  const count = cache.stages?.length ?? 0;
+
+  return (
+    <View style={styles.stage}>
+      <View style={styles.row}>
+        <Text style={styles.stageNumber}>{index === count - 1 ? 'FINAL' : `#${index + 1}`}</Text>
+        <TextInput
+          style={[styles.input, styles.nameInput]}
+          value={stage.name}
+          onChangeText={(name) => updateStage(cache.id, stage.id, { name })}
+          placeholder="Stage name"
+          placeholderTextColor="#006600"
+        />
+      </View>
+
+      <TextInput
+        style={[styles.input, resolution?.error && !resolution.missing.length && styles.inputInvalid]}
+        value={stage.coordinates}
+        onChangeText={(coordinates) => updateStage(cache.id, stage.id, { coordinates })}
+        placeholder="N 37° 4A.B(C+2)' W 122° 25.DEF'"
+        placeholderTextColor="#006600"
+        autoCapitalize="characters"
+        autoCorrect={false}
+      />
+      {resolution?.coordinates && (
+        <Text style={styles.previewText}>{formatCoordinates(resolution.coordinates, coordinateFormat)}</Text>
+      )}
+      {resolution?.error && (
+        <Text style={resolution.missing.length ? styles.pendingText : styles.errorText}>{resolution.error}</Text>
+      )}
+
+      <TextInput
+        style={styles.input}
+        value={stage.hint}
+        onChangeText={(hint) => updateStage(cache.id, stage.id, { hint })}
+        placeholder="Hint or task at this stage"
+        placeholderTextColor="#006600"
+      />
+
+      <View style={styles.row}>
+        <Pressable
+          style={[styles.chip, stage.found && styles.chipActive]}
+          onPress={() => updateStage(cache.id, stage.id, { found: !stage.found })}
+        >
+          <Text style={[styles.chipText, stage.found && styles.chipTextActive]}>FOUND</Text>
+        </Pressable>
+        <Pressable style={styles.chip} onPress={() => moveStage(cache.id, stage.id, -1)} disabled={index === 0}>
+          <Text style={styles.chipText}>↑</Text>
+        </Pressable>
+        <Pressable
+          style={styles.chip}
+          onPress={() => moveStage(cache.id, stage.id, 1)}
+          disabled={index === count - 1}
+        >
+          <Text style={styles.chipText}>↓</Text>
+        </Pressable>
+        <Pressable style={[styles.chip, styles.deleteChip]} onPress={() => deleteStage(cache.id, stage.id)}>
+          <Text style={[styles.chipText, styles.deleteText]}>REMOVE</Text>
+        </Pressable>
+      </View>
+    </View>
+  );
+}
+
+/** Stages of a multi-cache and the formula variables found so far. Edits save immediately. */
+export function StageEditor({ cache }: { cache: Cache }) {
+  const stages = cache.stages ?? [];
+  const variables = [...new Set(stages.flatMap((stage) => formulaVariables(stage.coordinates)))].sort();
+
+  return (
+    <View>
+      {stages.map((stage, index) => (
+        <StageRow key={stage.id} cache={cache} stage={stage} index={index} />
+      ))}
+
+      {variables.length > 0 && (
+        <>
+          <Text style={styles.label}>VARIABLES</Text>
+          <View style={styles.variables}>
+            {variables.map((name) => (
+              <VariableInput key={name} cacheId={cache.id} name={name} value={cache.variables?.[name]} />
+            ))}
+          </View>
+        </>
+      )}
+
+      <Pressable style={styles.addButton} onPress={() => addStage(cache.id)}>
+        <Text style={styles.chipText}>+ ADD STAGE</Text>
+      </Pressable>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  stage: {
+    borderWidth: 1,
+    borderColor: 'rgba(0, 255, 0, 0.4)',
+    borderRadius: 8,
+    padding: 8,
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 5,
+  },
+  stageNumber: {
+    color: '#00ff00',
+    fontSize: 12,
+    fontWeight: 'bold',
+    fontFamily: 'monospace',
+    width: 44,
+  },
+  label: {
+    color: '#00ff00',
+    fontSize: 12,
+    fontFamily: 'monospace',
+    marginTop: 10,
+    marginBottom: 5,
+  },
+  input: {
+    color: '#ffffff',
+    fontSize: 14,
+    fontFamily: 'monospace',
+    borderWidth: 1,
+    borderColor: '#00ff00',
+    borderRadius: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    marginBottom: 5,
+    backgroundColor: 'rgba(0, 255, 0, 0.05)',
+  },
+  nameInput: {
+    flex: 1,
+    marginBottom: 0,
+  },
+  inputInvalid: {
+    borderColor: '#ff0000',
+  },
+  previewText: {
+    color: '#00ff00',
+    opacity: 0.7,
+    fontSize: 12,
+    fontFamily: 'monospace',
+    marginBottom: 5,
+  },
+  pendingText: {
+    color: '#ffaa00',
+    fontSize: 12,
+    marginBottom: 5,
+  },
+  errorText: {
+    color: '#ff0000',
+    fontSize: 12,
+    marginBottom: 5,
+  },
+  variables: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: '#00ff00',
+    borderRadius: 6,
+    paddingVertical: 4,
+    paddingHorizontal: 8,
+    marginRight: 6,
+  },
+  chipActive: {
+    backgroundColor: '#00ff00',
+  },
+  chipText: {
+    color: '#00ff00',
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
+  chipTextActive: {
+    color: '#000000',
+  },
+  deleteChip: {
+    borderColor: '#ff0000',
+    marginLeft: 'auto',
+    marginRight: 0,
+  },
+  deleteText: {
+    color: '#ff0000',
+  },
+  addButton: {
+    borderWidth: 1,
+    borderColor: '#00ff00',
+    borderRadius: 6,
+    paddingVertical: 8,
+    alignItems: 'center',
+    marginTop: 4,
+  },
+});
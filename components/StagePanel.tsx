@@ -0,0 +1,227 @@
+import * as Haptics from 'expo-haptics';
+import React, { useEffect, useState } from 'react';
+import { Pressable, StyleSheet, Text, TextInput, View } from 'react-native';
+
+import { useActiveCache } from '@/hooks/useCaches';
+import { usePalette, useThemedStyles } from '@/hooks/usePalette';
+import { useSettings } from '@/hooks/useSettings';
+import { formatDistance } from '@/lib/format';
+import { formulaVariables } from '@/lib/formulaCoordinates';
+import { haversineDistance, type Coordinates } from '@/lib/geo';
+import {
+  advanceStage,
+  currentStageIndex,
+  isMultiCache,
+  resetStages,
+  resolveStage,
+  setCacheVariable,
+  STAGE_ARRIVAL_RADIUS,
+} from '@/lib/multiCache';
+import type { Palette } from '@/lib/theme';
+
+/** A formula variable typed in the field; saved when editing ends. */
+export function VariableInput({ cacheId, name, value }: { cacheId: string; name: string; value?: number }) {
+  const palette = usePalette();
+  const styles = useThemedStyles(createStyles);
+  const [text, setText] = useState(value === undefined ? '' : String(value));
+
+  useEffect(() => {
+    setText(value === undefined ? '' : String(value));
+  }, [value]);
+
+  const commit = () => {
+    const trimmed = text.trim();
+    if (!trimmed) {
+      setCacheVariable(cacheId, name, null);
+    } else if (/^\d+$/.test(trimmed)) {
+      setCacheVariable(cacheId, name, Number(trimmed));
+    } else {
+      setText(value === undefined ? '' : String(value));
+    }
+  };
+
+  return (
+    <View style={styles.variable}>
+      <Text style={styles.variableName}>{name}=</Text>
+      <TextInput
+        style={[styles.variableInput, value === undefined && styles.variableInputMissing]}
+        value={text}
+        onChangeText={setText}
+        onEndEditing={commit}
+        onSubmitEditing={commit}
+        keyboardType="number-pad"
+        placeholder="?"
+        placeholderTextColor={palette.muted}
+      />
+    </View>
+  );
+}
+
+/** Progress through a multi-cache, formula variables for the next stage and "found, next". */
+export function StagePanel({ position }: { position: Coordinates | null }) {
+  const styles = useThemedStyles(createStyles);
+  const { units } = useSettings();
+  const cache = useActiveCache();
+  const multi = isMultiCache(cache) ? cache : null;
+  const index = multi ? currentStageIndex(multi) : null;
+  const stage = multi && index !== null ? multi.stages[index] : null;
+  const resolution = stage ? resolveStage(stage, multi?.variables) : null;
+  const distance =
+    position && resolution?.coordinates ? haversineDistance(position, resolution.coordinates) : null;
+  const arrived = distance !== null && distance <= STAGE_ARRIVAL_RADIUS;
+
+  // Buzz once on reaching each stage
+  useEffect(() => {
+    if (arrived) Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+  }, [arrived, stage?.id]);
+
+  if (!multi) return null;
+
+  if (!stage || index === null) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.row}>
+          <Text style={styles.title}>ALL {multi.stages.length} STAGES FOUND</Text>
+          <Pressable style={styles.button} onPress={() => resetStages(multi.id)}>
+            <Text style={styles.buttonText}>RESET</Text>
+          </Pressable>
+        </View>
+      </View>
+    );
+  }
+
+  const isFinal = index === multi.stages.length - 1;
+  const variables = formulaVariables(stage.coordinates);
+
+  return (
+    <View style={[styles.container, arrived && styles.containerArrived]}>
+      <View style={styles.row}>
+        <Text style={styles.title}>
+          {isFinal ? 'FINAL' : `STAGE ${index + 1}/${multi.stages.length}`} · {stage.name}
+        </Text>
+      </View>
+
+      {stage.hint ? <Text style={styles.hintText}>HINT: {stage.hint}</Text> : null}
+
+      {variables.length > 0 && (
+        <View style={styles.variables}>
+          {variables.map((name) => (
+            <VariableInput key={name} cacheId={multi.id} name={name} value={multi.variables?.[name]} />
+          ))}
+        </View>
+      )}
+      {resolution?.error && <Text style={styles.errorText}>{resolution.error}</Text>}
+
+      <View style={styles.row}>
+        {arrived && (
+          <Text style={styles.arrivedText}>
+            ARRIVED{distance !== null ? ` · ${formatDistance(distance, units)}` : ''}
+          </Text>
+        )}
+        <Pressable
+          style={[styles.button, arrived && styles.buttonActive]}
+          onPress={() => advanceStage(multi.id)}
+        >
+          <Text style={[styles.buttonText, arrived && styles.buttonTextActive]}>
+            {isFinal ? 'FOUND FINAL' : 'FOUND → NEXT STAGE'}
+          </Text>
+        </Pressable>
+      </View>
+    </View>
+  );
+}
+
+const createStyles = (palette: Palette) =>
+  StyleSheet.create({
+    container: {
+      width: '100%',
+      borderWidth: 1,
+      borderColor: palette.tint(0.4),
+      borderRadius: 10,
+      padding: 8,
+      marginBottom: 10,
+    },
+    containerArrived: {
+      borderColor: palette.accent,
+      backgroundColor: palette.tint(0.15),
+    },
+    row: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'center',
+      marginVertical: 3,
+    },
+    title: {
+      color: palette.accent,
+      fontSize: 12,
+      fontWeight: 'bold',
+      fontFamily: 'monospace',
+    },
+    hintText: {
+      color: '#ffffff',
+      fontSize: 12,
+      textAlign: 'center',
+      marginVertical: 3,
+    },
+    variables: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      justifyContent: 'center',
+    },
+    variable: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      margin: 3,
+    },
+    variableName: {
+      color: palette.accent,
+      fontSize: 12,
+      fontFamily: 'monospace',
+    },
+    variableInput: {
+      minWidth: 36,
+      color: '#ffffff',
+      fontSize: 12,
+      fontFamily: 'monospace',
+      borderWidth: 1,
+      borderColor: palette.accent,
+      borderRadius: 4,
+      paddingHorizontal: 4,
+      paddingVertical: 2,
+      textAlign: 'center',
+    },
+    variableInputMissing: {
+      borderColor: '#ffaa00',
+    },
+    errorText: {
+      color: '#ffaa00',
+      fontSize: 11,
+      textAlign: 'center',
+    },
+    arrivedText: {
+      color: palette.accent,
+      fontSize: 12,
+      fontWeight: 'bold',
+      fontFamily: 'monospace',
+      marginRight: 6,
+    },
+    button: {
+      paddingVertical: 4,
+      paddingHorizontal: 8,
+      marginLeft: 6,
+      borderWidth: 1,
+      borderColor: palette.accent,
+      borderRadius: 6,
+    },
+    buttonActive: {
+      backgroundColor: palette.accent,
+    },
+    buttonText: {
+      color: palette.accent,
+      fontSize: 12,
+      fontWeight: 'bold',
+    },
+    buttonTextActive: {
+      color: '#000000',
+    },
+  });
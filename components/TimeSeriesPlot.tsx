@@ -0,0 +1,165 @@
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import Svg, { Line, Polyline, Rect } from 'react-native-svg';
+
+export type PlotSeries = {
+  label: string;
+  color: string;
+  /** Oldest first; null leaves a gap. */
+  values: (number | null)[];
+};
+
+const PLOT_HEIGHT = 90;
+
+/** Polyline segments split at null values, in a `capacity` × 100 view box. */
+function segments(values: (number | null)[], capacity: number, min: number, max: number): string[] {
+  const offset = capacity - values.length;
+  const span = max - min || 1;
+  const result: string[] = [];
+  let current: string[] = [];
+  values.forEach((value, index) => {
+    if (value === null || !Number.isFinite(value)) {
+      if (current.length > 1) result.push(current.join(' '));
+      current = [];
+      return;
+    }
+    current.push(`${offset + index},${100 - ((value - min) / span) * 100}`);
+  });
+  if (current.length > 1) result.push(current.join(' '));
+  return result;
+}
+
+/**
+ * Scrolling line chart of the latest `capacity` values of each series, newest on the
+ * right. Scales to the data unless `range` is given; `band` shades an expected range.
+ */
+export function TimeSeriesPlot({
+  title,
+  unit,
+  series,
+  capacity,
+  range,
+  band,
+}: {
+  title: string;
+  unit: string;
+  series: PlotSeries[];
+  capacity: number;
+  range?: [number, number];
+  band?: { from: number; to: number; color: string };
+}) {
+  const finite = series.flatMap(({ values }) =>
+    values.filter((value): value is number => value !== null && Number.isFinite(value))
+  );
+  const [min, max] = range ?? [
+    Math.min(...finite, band?.from ?? Infinity),
+    Math.max(...finite, band?.to ?? -Infinity),
+  ];
+  const hasData = finite.length > 0 && Number.isFinite(min) && Number.isFinite(max);
+  const span = max - min || 1;
+  const toY = (value: number) => 100 - ((value - min) / span) * 100;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>{title}</Text>
+        <View style={styles.legend}>
+          {series.map(({ label, color, values }) => {
+            const latest = values[values.length - 1];
+            return (
+              <Text key={label} style={[styles.legendText, { color }]}>
+                {label} {latest != null ? latest.toFixed(1) : '--'}
+              </Text>
+            );
+          })}
+        </View>
+      </View>
+      <View style={styles.plot}>
+        <Svg width="100%" height={PLOT_HEIGHT} viewBox={`0 0 ${capacity} 100`} preserveAspectRatio="none">
+          {hasData && band && (
+            <Rect
+              x={0}
+              y={toY(band.to)}
+              width={capacity}
+              height={Math.max(0, toY(band.from) - toY(band.to))}
+              fill={band.color}
+            />
+          )}
+          {hasData && min < 0 && max > 0 && (
+            <Line
+              x1={0}
+              y1={toY(0)}
+              x2={capacity}
+              y2={toY(0)}
+              stroke="rgba(0, 255, 0, 0.3)"
+              strokeWidth={1}
+              vectorEffect="non-scaling-stroke"
+            />
+          )}
+          {hasData &&
+            series.flatMap(({ label, color, values }) =>
+              segments(values, capacity, min, max).map((points, index) => (
+                <Polyline
+                  key={`${label}-${index}`}
+                  points={points}
+                  fill="none"
+                  stroke={color}
+                  strokeWidth={1.5}
+                  vectorEffect="non-scaling-stroke"
+                />
+              ))
+            )}
+        </Svg>
+        <Text style={[styles.axisText, styles.axisTop]}>{hasData ? `${max.toFixed(1)} ${unit}` : ''}</Text>
+        <Text style={[styles.axisText, styles.axisBottom]}>{hasData ? `${min.toFixed(1)} ${unit}` : 'NO DATA'}</Text>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 15,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-end',
+    marginBottom: 5,
+  },
+  title: {
+    color: '#00ff00',
+    fontSize: 12,
+    fontFamily: 'monospace',
+  },
+  legend: {
+    flexDirection: 'row',
+  },
+  legendText: {
+    fontSize: 11,
+    fontFamily: 'monospace',
+    marginLeft: 8,
+  },
+  plot: {
+    height: PLOT_HEIGHT,
+    borderWidth: 1,
+    borderColor: 'rgba(0, 255, 0, 0.4)',
+    borderRadius: 6,
+    backgroundColor: 'rgba(0, 255, 0, 0.05)',
+    overflow: 'hidden',
+  },
+  axisText: {
+    position: 'absolute',
+    left: 4,
+    color: '#00ff00',
+    opacity: 0.6,
+    fontSize: 10,
+    fontFamily: 'monospace',
+  },
+  axisTop: {
+    top: 2,
+  },
+  axisBottom: {
+    bottom: 2,
+  },
+});
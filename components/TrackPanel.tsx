@@ -0,0 +1,139 @@
+import React from 'react';
+import { Pressable, StyleSheet, Text, View } from 'react-native';
+
+import { usePalette, useThemedStyles } from '@/hooks/usePalette';
+import { useSettings } from '@/hooks/useSettings';
+import { useBacktrack, useRecordingStatus, useRecordingTrack, useTrackElapsed } from '@/hooks/useTracks';
+import { formatDistance, formatDuration } from '@/lib/format';
+import {
+  pauseTrack,
+  resumeTrack,
+  setBacktrack,
+  startTrack,
+  stopTrack,
+  trackDistance,
+  type BacktrackMode,
+} from '@/lib/trackStore';
+import type { Palette } from '@/lib/theme';
+
+const STATUS_COLORS = {
+  recording: '#ff0000',
+  paused: '#ffff00',
+};
+
+/** Start/pause/stop track recording and the "take me back" controls. */
+export function TrackPanel() {
+  const palette = usePalette();
+  const styles = useThemedStyles(createStyles);
+  const { units } = useSettings();
+  const status = useRecordingStatus();
+  const recordingTrack = useRecordingTrack();
+  const backtrack = useBacktrack();
+  const elapsed = useTrackElapsed(recordingTrack);
+
+  const statusColor = status === 'stopped' ? palette.accent : STATUS_COLORS[status];
+
+  const toggleBacktrack = (mode: BacktrackMode) => setBacktrack(backtrack.mode === mode ? null : mode);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.row}>
+        <View style={[styles.statusDot, { backgroundColor: statusColor }]} />
+        <Text style={styles.statusText}>
+          {status === 'stopped'
+            ? 'TRACK OFF'
+            : `${status === 'recording' ? 'REC' : 'PAUSED'} ${formatDuration(elapsed)} · ${formatDistance(
+                recordingTrack ? trackDistance(recordingTrack) : 0,
+                units
+              )}`}
+        </Text>
+
+        {status === 'stopped' && (
+          <Pressable style={styles.button} onPress={() => startTrack()}>
+            <Text style={styles.buttonText}>START</Text>
+          </Pressable>
+        )}
+        {status === 'recording' && (
+          <Pressable style={styles.button} onPress={() => pauseTrack()}>
+            <Text style={styles.buttonText}>PAUSE</Text>
+          </Pressable>
+        )}
+        {status === 'paused' && (
+          <Pressable style={styles.button} onPress={() => resumeTrack()}>
+            <Text style={styles.buttonText}>RESUME</Text>
+          </Pressable>
+        )}
+        {status !== 'stopped' && (
+          <Pressable style={styles.button} onPress={() => stopTrack()}>
+            <Text style={styles.buttonText}>STOP</Text>
+          </Pressable>
+        )}
+      </View>
+
+      {backtrack.track && (
+        <View style={styles.row}>
+          <Text style={styles.statusText}>TAKE ME BACK</Text>
+          {(['trailhead', 'nearest'] as const).map((mode) => {
+            const active = backtrack.mode === mode;
+            return (
+              <Pressable
+                key={mode}
+                style={[styles.button, active && styles.buttonActive]}
+                onPress={() => toggleBacktrack(mode)}
+              >
+                <Text style={[styles.buttonText, active && styles.buttonTextActive]}>
+                  {mode === 'trailhead' ? 'TRAILHEAD' : 'NEAREST'}
+                </Text>
+              </Pressable>
+            );
+          })}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const createStyles = (palette: Palette) =>
+  StyleSheet.create({
+    container: {
+      width: '100%',
+      marginBottom: 10,
+    },
+    row: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'center',
+      marginVertical: 3,
+    },
+    statusDot: {
+      width: 8,
+      height: 8,
+      borderRadius: 4,
+      marginRight: 6,
+    },
+    statusText: {
+      color: palette.accent,
+      fontSize: 12,
+      fontFamily: 'monospace',
+      marginRight: 6,
+    },
+    button: {
+      paddingVertical: 4,
+      paddingHorizontal: 8,
+      marginLeft: 6,
+      borderWidth: 1,
+      borderColor: palette.accent,
+      borderRadius: 6,
+    },
+    buttonActive: {
+      backgroundColor: palette.accent,
+    },
+    buttonText: {
+      color: palette.accent,
+      fontSize: 12,
+      fontWeight: 'bold',
+    },
+    buttonTextActive: {
+      color: '#000000',
+    },
+  });
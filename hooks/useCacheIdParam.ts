@@ -0,0 +1,25 @@
+import { router, useLocalSearchParams } from 'expo-router';
+import { useEffect } from 'react';
+
+import { useCache } from '@/hooks/useCaches';
+import { setActiveCache } from '@/lib/cacheStore';
+
+/** Params of the screens that can be opened onto a cache: `/transponderWaypoint?cacheId=…`. */
+export type CacheIdParams = { cacheId?: string };
+
+/**
+ * Targets the cache named by the screen's `cacheId` param, an id or listing code, so a
+ * link like `geocashv2://transponderWaypoint?cacheId=GC1A2B3` opens straight onto it.
+ * The param is cleared once applied so choosing another target later is not undone.
+ * On a cold start the cache store may still be hydrating; the param waits for it.
+ */
+export function useCacheIdParam() {
+  const { cacheId } = useLocalSearchParams<CacheIdParams>();
+  const cache = useCache(cacheId);
+
+  useEffect(() => {
+    if (!cache) return;
+    setActiveCache(cache.id);
+    router.setParams({ cacheId: undefined });
+  }, [cache]);
+}
@@ -0,0 +1,18 @@
+import { useSyncExternalStore } from 'react';
+
+import { cacheStore, findCache, type Cache } from '@/lib/cacheStore';
+
+export function useCaches(): Cache[] {
+  return useSyncExternalStore(cacheStore.subscribe, () => cacheStore.getState().caches);
+}
+
+/** A cache by id or listing code, so `geocashv2://cache/GC1A2B3` opens an imported cache. */
+export function useCache(ref: string | undefined): Cache | undefined {
+  const caches = useCaches();
+  return ref ? findCache(caches, ref) : undefined;
+}
+
+export function useActiveCache(): Cache | null {
+  const { caches, activeCacheId } = useSyncExternalStore(cacheStore.subscribe, cacheStore.getState);
+  return caches.find((cache) => cache.id === activeCacheId) ?? null;
+}
@@ -0,0 +1,8 @@
+import { useSyncExternalStore } from 'react';
+
+import { getHeadingState, subscribeHeading, type HeadingState } from '@/lib/headingService';
+
+/** Fused device heading shared by all screens; sensors run while any component uses it. */
+export function useHeading(): HeadingState {
+  return useSyncExternalStore(subscribeHeading, getHeadingState);
+}
@@ -0,0 +1,13 @@
+import { useMemo, useSyncExternalStore } from 'react';
+
+import { logsForCache, logStore, type CacheLog } from '@/lib/logStore';
+
+export function useLogs(): CacheLog[] {
+  return useSyncExternalStore(logStore.subscribe, () => logStore.getState().logs);
+}
+
+/** Logs of one cache, newest first. */
+export function useCacheLogs(cacheId: string | undefined): CacheLog[] {
+  const logs = useLogs();
+  return useMemo(() => (cacheId ? logsForCache(logs, cacheId) : []), [logs, cacheId]);
+}
@@ -0,0 +1,80 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import { saveDeviceCalibration } from '@/lib/calibrationStore';
+import type { Vector3 } from '@/lib/headingFilter';
+import { subscribeMagnetometerSamples } from '@/lib/headingService';
+import {
+  CALIBRATION_MIN_SAMPLES,
+  CALIBRATION_TARGET_COVERAGE,
+  calibrationCoverage,
+  fitCalibration,
+  type MagnetometerCalibration,
+} from '@/lib/magnetometerCalibration';
+
+/** Stop collecting after this many samples (~60 s at the service's rate) and fit what we have. */
+const MAX_SAMPLES = 600;
+const PROGRESS_INTERVAL = 500;
+
+type CalibrationProgress = {
+  sampleCount: number;
+  coverage: number;
+};
+
+/**
+ * Guided figure-eight calibration: collects raw magnetometer samples until enough
+ * directions are covered, then fits and stores the calibration for this device.
+ */
+export function useMagnetometerCalibration() {
+  const [collecting, setCollecting] = useState(false);
+  const [progress, setProgress] = useState<CalibrationProgress>({ sampleCount: 0, coverage: 0 });
+  const [result, setResult] = useState<MagnetometerCalibration | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const samples = useRef<Vector3[]>([]);
+
+  const finish = useCallback(() => {
+    setCollecting(false);
+    try {
+      const calibration = fitCalibration(samples.current);
+      saveDeviceCalibration(calibration);
+      setResult(calibration);
+    } catch (fitError) {
+      setError((fitError as Error).message);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!collecting) return;
+
+    samples.current = [];
+    const unsubscribe = subscribeMagnetometerSamples((sample) => {
+      if (samples.current.length < MAX_SAMPLES) samples.current.push(sample);
+    });
+    const timer = setInterval(() => {
+      const sampleCount = samples.current.length;
+      const coverage = calibrationCoverage(samples.current);
+      setProgress({ sampleCount, coverage });
+      if (
+        sampleCount >= MAX_SAMPLES ||
+        (sampleCount >= CALIBRATION_MIN_SAMPLES && coverage >= CALIBRATION_TARGET_COVERAGE)
+      ) {
+        finish();
+      }
+    }, PROGRESS_INTERVAL);
+
+    return () => {
+      clearInterval(timer);
+      unsubscribe();
+    };
+  }, [collecting, finish]);
+
+  const start = useCallback(() => {
+    setProgress({ sampleCount: 0, coverage: 0 });
+    setResult(null);
+    setError(null);
+    setCollecting(true);
+  }, []);
+
+  const cancel = useCallback(() => setCollecting(false), []);
+
+  return { collecting, progress, result, error, start, cancel, finish };
+}
@@ -0,0 +1,8 @@
+import { useSyncExternalStore } from 'react';
+
+import { mapStore, type MapSource } from '@/lib/mapSources';
+
+/** The active offline map, or null when none has been set up. */
+export function useMapSource(): MapSource | null {
+  return useSyncExternalStore(mapStore.subscribe, () => mapStore.getState().source);
+}
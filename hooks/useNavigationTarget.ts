@@ -0,0 +1,46 @@
+import { useMemo } from 'react';
+
+import { useActiveCache } from '@/hooks/useCaches';
+import { useBacktrack } from '@/hooks/useTracks';
+import { nearestPointOnPath, type Coordinates } from '@/lib/geo';
+import { cacheDestination, isMultiCache } from '@/lib/multiCache';
+import { trackPoints } from '@/lib/trackStore';
+
+export type NavigationTarget = {
+  coordinates: Coordinates;
+  name: string;
+  kind: 'cache' | 'stage' | 'backtrack';
+};
+
+/**
+ * Where the arrow should point: back along the recorded track while "take me back"
+ * is on, otherwise the cache selected in the Caches tab. For a multi-cache that is the
+ * first stage not yet found (the final once all are), or nothing while its
+ * coordinates still depend on unknown variables.
+ */
+export function useNavigationTarget(position: Coordinates | null): NavigationTarget | null {
+  const activeCache = useActiveCache();
+  const { mode, track } = useBacktrack();
+  const latitude = position?.latitude;
+  const longitude = position?.longitude;
+
+  return useMemo(() => {
+    if (mode && track) {
+      const points = trackPoints(track);
+      const coordinates =
+        mode === 'trailhead' || latitude === undefined || longitude === undefined
+          ? points[0]
+          : nearestPointOnPath({ latitude, longitude }, points);
+      if (coordinates) {
+        return {
+          coordinates: { latitude: coordinates.latitude, longitude: coordinates.longitude },
+          name: mode === 'trailhead' ? 'Trailhead' : 'Nearest track point',
+          kind: 'backtrack',
+        };
+      }
+    }
+
+    const destination = activeCache ? cacheDestination(activeCache) : null;
+    return destination ? { ...destination, kind: isMultiCache(activeCache) ? 'stage' : 'cache' } : null;
+  }, [mode, track, latitude, longitude, activeCache]);
+}
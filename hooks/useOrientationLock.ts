@@ -0,0 +1,16 @@
+import { useFocusEffect } from 'expo-router';
+import { useCallback } from 'react';
+
+import { lockOrientationAsync, type OrientationMode } from '@/lib/screenOrientation';
+
+/** Lets the focused screen take the orientations `mode` allows; leaving it returns to portrait. */
+export function useOrientationLock(mode: OrientationMode) {
+  useFocusEffect(
+    useCallback(() => {
+      lockOrientationAsync(mode).catch((error) => console.warn('Failed to lock orientation:', error));
+      return () => {
+        lockOrientationAsync('portrait').catch((error) => console.warn('Failed to lock orientation:', error));
+      };
+    }, [mode])
+  );
+}
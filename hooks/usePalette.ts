@@ -0,0 +1,14 @@
+import { useMemo } from 'react';
+
+import { useSettings } from '@/hooks/useSettings';
+import { PALETTES, type Palette } from '@/lib/theme';
+
+export function usePalette(): Palette {
+  return PALETTES[useSettings().theme] ?? PALETTES.green;
+}
+
+/** Styles built from the current theme's palette, rebuilt only when the theme changes. */
+export function useThemedStyles<T>(createStyles: (palette: Palette) => T): T {
+  const palette = usePalette();
+  return useMemo(() => createStyles(palette), [createStyles, palette]);
+}
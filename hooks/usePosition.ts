@@ -0,0 +1,8 @@
+import { useSyncExternalStore } from 'react';
+
+import { getPositionState, subscribePosition, type PositionState } from '@/lib/positionService';
+
+/** Filtered GPS position shared by the navigation screens; GPS runs while any component uses it. */
+export function usePosition(): PositionState {
+  return useSyncExternalStore(subscribePosition, getPositionState);
+}
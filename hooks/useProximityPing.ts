@@ -0,0 +1,82 @@
+import * as Haptics from 'expo-haptics';
+import { useEffect, useRef } from 'react';
+
+import {
+  bearingAlignment,
+  pingInterval,
+  pingStrength,
+  updateProximityRings,
+  type PingStrength,
+} from '@/lib/proximity';
+import {
+  loadProximityTones,
+  playPingTone,
+  playRingAlert,
+  unloadProximityTones,
+} from '@/lib/proximityAudio';
+
+const IMPACT_STYLES: Record<PingStrength, Haptics.ImpactFeedbackStyle> = {
+  light: Haptics.ImpactFeedbackStyle.Light,
+  medium: Haptics.ImpactFeedbackStyle.Medium,
+  heavy: Haptics.ImpactFeedbackStyle.Heavy,
+};
+
+type ProximityPingOptions = {
+  enabled: boolean;
+  /** Meters to the target, or null when unknown. */
+  distance: number | null;
+  /** Target bearing relative to the current heading, in degrees. */
+  relativeBearing: number;
+  rings: number[];
+  audio: boolean;
+};
+
+/**
+ * Transponder ping: pulses faster and buzzes harder as the target gets closer, with a
+ * tone that rises as you face it, and a distinct alert when crossing a proximity ring.
+ */
+export function useProximityPing({ enabled, distance, relativeBearing, rings, audio }: ProximityPingOptions) {
+  // The ping loop reads the latest values without restarting on every fix or heading change
+  const latest = useRef({ distance, relativeBearing, audio });
+  latest.current = { distance, relativeBearing, audio };
+  /** Null until the first fix after enabling, so rings we are already inside stay quiet. */
+  const firedRings = useRef<number[] | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+    if (audio) loadProximityTones();
+    return () => unloadProximityTones();
+  }, [enabled, audio]);
+
+  useEffect(() => {
+    if (!enabled) {
+      firedRings.current = null;
+      return;
+    }
+
+    let timer: ReturnType<typeof setTimeout>;
+    const ping = () => {
+      const current = latest.current;
+      if (current.distance !== null) {
+        Haptics.impactAsync(IMPACT_STYLES[pingStrength(current.distance)]);
+        if (current.audio) playPingTone(bearingAlignment(current.relativeBearing));
+      }
+      timer = setTimeout(ping, current.distance !== null ? pingInterval(current.distance) : 1000);
+    };
+    ping();
+
+    return () => clearTimeout(timer);
+  }, [enabled]);
+
+  useEffect(() => {
+    if (!enabled || distance === null) return;
+
+    const { fired, crossed } = updateProximityRings(rings, firedRings.current ?? [], distance);
+    const initializing = firedRings.current === null;
+    firedRings.current = fired;
+    if (crossed !== null && !initializing) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      if (latest.current.audio) playRingAlert();
+    }
+  }, [enabled, distance, rings]);
+}
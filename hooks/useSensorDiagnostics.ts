@@ -0,0 +1,195 @@
+import type * as Location from 'expo-location';
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import { useSensorProvider } from '@/hooks/useSensorProvider';
+import { useSettings } from '@/hooks/useSettings';
+import { gpsProfileOptions } from '@/lib/gpsProfiles';
+import { tiltCompensatedHeading, vectorLength, type SensorSample, type Vector3 } from '@/lib/headingFilter';
+import { getHeadingState, setHeadingPosition, subscribeHeading, subscribeSensorSamples } from '@/lib/headingService';
+import { expectedFieldStrength, NO_INTERFERENCE, type InterferenceStatus } from '@/lib/interference';
+import {
+  createSensorRecording,
+  MAX_RECORDING_ENTRIES,
+  recordingSize,
+  updateRate,
+  type SensorRecording,
+  type UpdateRate,
+} from '@/lib/sensorRecording';
+
+/** Samples kept per plotted stream. */
+export const DIAGNOSTICS_WINDOW = 200;
+/** How often the plots redraw (ms); samples arrive much faster. */
+const REFRESH_INTERVAL = 250;
+
+type Sensor = SensorSample['sensor'];
+
+export type HeadingPoint = {
+  /** Per-sample tilt-compensated heading, before filtering; null when degenerate. */
+  raw: number | null;
+  filtered: number;
+  /** Calibrated field strength, µT. */
+  strength: number;
+};
+
+export type DiagnosticsSnapshot = {
+  samples: Record<Sensor, SensorSample[]>;
+  headings: HeadingPoint[];
+  /** GPS accuracy of recent fixes, meters. */
+  accuracies: (number | null)[];
+  rates: Record<Sensor | 'gps', UpdateRate | null>;
+  /** Field strength the model predicts here (µT), once there is a fix. */
+  expectedStrength: number | null;
+  /** The heading service's check of the field against the model. */
+  interference: InterferenceStatus;
+  /** Entries in the recording in progress, or null when not recording. */
+  recordingSize: number | null;
+};
+
+const EMPTY_SNAPSHOT: DiagnosticsSnapshot = {
+  samples: { accelerometer: [], gyroscope: [], magnetometer: [] },
+  headings: [],
+  accuracies: [],
+  rates: { accelerometer: null, gyroscope: null, magnetometer: null, gps: null },
+  expectedStrength: null,
+  interference: NO_INTERFERENCE,
+  recordingSize: null,
+};
+
+const pushWindow = <T>(buffer: T[], value: T) => {
+  buffer.push(value);
+  if (buffer.length > DIAGNOSTICS_WINDOW) buffer.shift();
+};
+
+/**
+ * Live sensor streams for the diagnostics screen: rolling windows of every sensor, raw
+ * and filtered headings and GPS accuracy, update rates, and an optional recording.
+ */
+export function useSensorDiagnostics() {
+  const provider = useSensorProvider();
+  const { gpsProfile } = useSettings();
+  const [snapshot, setSnapshot] = useState<DiagnosticsSnapshot>(EMPTY_SNAPSHOT);
+  const samples = useRef<Record<Sensor, SensorSample[]>>({ accelerometer: [], gyroscope: [], magnetometer: [] });
+  const headings = useRef<HeadingPoint[]>([]);
+  const fixes = useRef<{ timestamp: number; accuracy: number | null }[]>([]);
+  const expectedStrength = useRef<number | null>(null);
+  const recording = useRef<SensorRecording | null>(null);
+  const [finished, setFinished] = useState<SensorRecording | null>(null);
+
+  const stopRecording = useCallback(() => {
+    if (recording.current) setFinished(recording.current);
+    recording.current = null;
+  }, []);
+
+  const startRecording = useCallback(() => {
+    recording.current = createSensorRecording();
+    setFinished(null);
+  }, []);
+
+  const record = useCallback(
+    (add: (active: SensorRecording, t: number) => void) => {
+      const active = recording.current;
+      if (!active) return;
+      add(active, Date.now() - active.startedAt);
+      if (recordingSize(active) >= MAX_RECORDING_ENTRIES) stopRecording();
+    },
+    [stopRecording]
+  );
+
+  // Sensor streams and the heading estimate built from them
+  useEffect(() => {
+    let up: Vector3 = { x: 0, y: 0, z: 1 };
+    let lastMagnetometer: Vector3 | null = null;
+    // Start the plots over when switching between the device and a simulation
+    samples.current = { accelerometer: [], gyroscope: [], magnetometer: [] };
+    headings.current = [];
+
+    const unsubscribeSamples = subscribeSensorSamples((sample) => {
+      if (sample.sensor === 'accelerometer') up = sample;
+      pushWindow(samples.current[sample.sensor], sample);
+      record((active, t) => active.samples.push({ ...sample, t }));
+    });
+    const unsubscribeHeading = subscribeHeading(() => {
+      const state = getHeadingState();
+      // The state also changes for calibration and declination updates; only log new samples
+      if (state.source === 'none' || state.source === 'system' || state.magnetometer === lastMagnetometer) return;
+      lastMagnetometer = state.magnetometer;
+      pushWindow(headings.current, {
+        raw: tiltCompensatedHeading(state.magnetometer, up),
+        filtered: state.magneticHeading,
+        strength: vectorLength(state.magnetometer),
+      });
+      record((active, t) =>
+        active.headings.push({
+          t,
+          heading: state.heading,
+          magneticHeading: state.magneticHeading,
+          confidence: state.confidence,
+          source: state.source,
+        })
+      );
+    });
+
+    return () => {
+      unsubscribeSamples();
+      unsubscribeHeading();
+    };
+  }, [provider, record]);
+
+  // GPS accuracy, and a position for the expected field strength
+  useEffect(() => {
+    let subscription: Location.LocationSubscription | null = null;
+    let cancelled = false;
+
+    (async () => {
+      if (!(await provider.requestPermissionsAsync())) return;
+      const watcher = await provider.watchPositionAsync(gpsProfileOptions(gpsProfile), ({ coords, timestamp }) => {
+        pushWindow(fixes.current, { timestamp: timestamp / 1000, accuracy: coords.accuracy });
+        expectedStrength.current = expectedFieldStrength(coords);
+        setHeadingPosition(coords);
+        record((active, t) =>
+          active.fixes.push({
+            t,
+            latitude: coords.latitude,
+            longitude: coords.longitude,
+            accuracy: coords.accuracy,
+            altitude: coords.altitude,
+            speed: coords.speed,
+            heading: coords.heading,
+          })
+        );
+      });
+      if (cancelled) watcher.remove();
+      else subscription = watcher;
+    })().catch((error) => console.warn('Diagnostics has no position:', error));
+
+    return () => {
+      cancelled = true;
+      subscription?.remove();
+    };
+  }, [gpsProfile, provider, record]);
+
+  // Redraw at a fixed rate rather than per sample
+  useEffect(() => {
+    const timer = setInterval(() => {
+      const { accelerometer, gyroscope, magnetometer } = samples.current;
+      const rateOf = (stream: { timestamp: number }[]) => updateRate(stream.map(({ timestamp }) => timestamp));
+      setSnapshot({
+        samples: { accelerometer: [...accelerometer], gyroscope: [...gyroscope], magnetometer: [...magnetometer] },
+        headings: [...headings.current],
+        accuracies: fixes.current.map(({ accuracy }) => accuracy),
+        rates: {
+          accelerometer: rateOf(accelerometer),
+          gyroscope: rateOf(gyroscope),
+          magnetometer: rateOf(magnetometer),
+          gps: rateOf(fixes.current),
+        },
+        expectedStrength: expectedStrength.current,
+        interference: getHeadingState().interference,
+        recordingSize: recording.current ? recordingSize(recording.current) : null,
+      });
+    }, REFRESH_INTERVAL);
+    return () => clearInterval(timer);
+  }, []);
+
+  return { ...snapshot, recording: finished, startRecording, stopRecording };
+}
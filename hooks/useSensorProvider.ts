@@ -0,0 +1,8 @@
+import { useSyncExternalStore } from 'react';
+
+import { getSensorProvider, subscribeSensorProvider, type SensorProvider } from '@/lib/sensorProvider';
+
+/** The device, or the simulation replacing it; effects that read sensors should restart when it changes. */
+export function useSensorProvider(): SensorProvider {
+  return useSyncExternalStore(subscribeSensorProvider, getSensorProvider);
+}
@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react';
+
+import { settingsStore, type Settings } from '@/lib/settingsStore';
+
+export function useSettings(): Settings {
+  return useSyncExternalStore(settingsStore.subscribe, settingsStore.getState);
+}
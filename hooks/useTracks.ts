@@ -0,0 +1,45 @@
+import { useEffect, useState, useSyncExternalStore } from 'react';
+
+import {
+  getBacktrackTrack,
+  getRecordingStatus,
+  getRecordingTrack,
+  trackElapsed,
+  trackStore,
+  type BacktrackMode,
+  type RecordedTrack,
+  type RecordingStatus,
+} from '@/lib/trackStore';
+
+export function useTracks(): RecordedTrack[] {
+  return useSyncExternalStore(trackStore.subscribe, () => trackStore.getState().tracks);
+}
+
+export function useRecordingTrack(): RecordedTrack | null {
+  useSyncExternalStore(trackStore.subscribe, trackStore.getState);
+  return getRecordingTrack();
+}
+
+export function useRecordingStatus(): RecordingStatus {
+  return useSyncExternalStore(trackStore.subscribe, getRecordingStatus);
+}
+
+export function useBacktrack(): { mode: BacktrackMode | null; track: RecordedTrack | null } {
+  const { backtrack } = useSyncExternalStore(trackStore.subscribe, trackStore.getState);
+  return { mode: backtrack, track: getBacktrackTrack() };
+}
+
+/** Recording time of a track in milliseconds, ticking every second while it records. */
+export function useTrackElapsed(track: RecordedTrack | null): number {
+  const [now, setNow] = useState(Date.now());
+  const recording = track?.resumedAt != null;
+
+  useEffect(() => {
+    if (!recording) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [recording]);
+
+  // Just after a resume the last tick may predate it
+  return track ? trackElapsed(track, Math.max(now, track.resumedAt ?? 0)) : 0;
+}
@@ -0,0 +1,86 @@
+import * as Location from 'expo-location';
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import { useSensorProvider } from '@/hooks/useSensorProvider';
+import {
+  averageWaypoint,
+  averagingProgress,
+  type AveragedWaypoint,
+  type AveragingGoal,
+  type AveragingSample,
+} from '@/lib/waypointAveraging';
+
+const PROGRESS_INTERVAL = 500;
+
+/**
+ * "Mark this spot": collects GPS fixes while the user stands still until the goal
+ * (a duration or a number of fixes) is reached, keeping a running weighted average.
+ */
+export function useWaypointAveraging() {
+  const [goal, setGoal] = useState<AveragingGoal | null>(null);
+  const [capturing, setCapturing] = useState(false);
+  const [estimate, setEstimate] = useState<AveragedWaypoint | null>(null);
+  const [elapsed, setElapsed] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const samples = useRef<AveragingSample[]>([]);
+  const provider = useSensorProvider();
+
+  useEffect(() => {
+    if (!capturing || !goal) return;
+
+    let subscription: Location.LocationSubscription | null = null;
+    let cancelled = false;
+    const startedAt = Date.now();
+    // Fixes from one provider say nothing about where the other one is, so a switch starts over
+    samples.current = [];
+
+    (async () => {
+      if (!(await provider.requestPermissionsAsync())) throw new Error('Location permission is required to mark a spot');
+      const watcher = await provider.watchPositionAsync(
+        { accuracy: Location.Accuracy.BestForNavigation, timeInterval: 1000, distanceInterval: 0 },
+        ({ coords }) => {
+          samples.current.push({
+            latitude: coords.latitude,
+            longitude: coords.longitude,
+            accuracy: coords.accuracy,
+          });
+        }
+      );
+      if (cancelled) watcher.remove();
+      else subscription = watcher;
+    })().catch((watchError) => {
+      setError((watchError as Error).message);
+      setCapturing(false);
+    });
+
+    const timer = setInterval(() => {
+      const seconds = (Date.now() - startedAt) / 1000;
+      setElapsed(seconds);
+      setEstimate(averageWaypoint(samples.current));
+      if (averagingProgress(goal, samples.current.length, seconds) >= 1) setCapturing(false);
+    }, PROGRESS_INTERVAL);
+
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+      subscription?.remove();
+      // Include whatever arrived after the last tick
+      setEstimate(averageWaypoint(samples.current));
+    };
+  }, [capturing, goal, provider]);
+
+  const start = useCallback((nextGoal: AveragingGoal) => {
+    setGoal(nextGoal);
+    setEstimate(null);
+    setElapsed(0);
+    setError(null);
+    setCapturing(true);
+  }, []);
+
+  /** Stops early, keeping the average so far. */
+  const stop = useCallback(() => setCapturing(false), []);
+
+  const progress = goal ? averagingProgress(goal, estimate?.sampleCount ?? 0, elapsed) : 0;
+
+  return { capturing, estimate, elapsed, progress, error, start, stop };
+}
@@ -0,0 +1,186 @@
+/**
+ * Opt-in background tracking of the active target. A location task keeps running with
+ * the screen off, keeps a status notification with distance and bearing up to date,
+ * and alerts once when the user comes within the configured radius.
+ *
+ * The task must be defined at module scope, so this module is imported by the root layout.
+ */
+
+import * as Location from 'expo-location';
+import * as Notifications from 'expo-notifications';
+import * as TaskManager from 'expo-task-manager';
+import { Platform } from 'react-native';
+
+import { cacheStore, getActiveCache } from '@/lib/cacheStore';
+import { formatBearing, formatDistance } from '@/lib/format';
+import { calculateNavigationData } from '@/lib/geo';
+import { cacheDestination } from '@/lib/multiCache';
+import { settingsStore, updateSettings } from '@/lib/settingsStore';
+import { recordLocation } from '@/lib/trackRecorder';
+import { flushTracks, trackStore } from '@/lib/trackStore';
+
+export const BACKGROUND_LOCATION_TASK = 'geocash-background-location';
+
+const STATUS_NOTIFICATION_ID = 'geocash-tracking-status';
+const STATUS_CHANNEL = 'tracking';
+const ALERT_CHANNEL = 'proximity-alerts';
+
+export class BackgroundLocationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackgroundLocationError';
+  }
+}
+
+/** Name of the target we last alerted for, so leaving and re-entering the radius alerts again. */
+let insideRadiusOf: string | null = null;
+
+Notifications.setNotificationHandler({
+  // The status notification is replaced on every fix; only proximity alerts should pop up
+  handleNotification: async ({ request }) => {
+    const alert = request.identifier !== STATUS_NOTIFICATION_ID;
+    return { shouldShowBanner: alert, shouldShowList: true, shouldPlaySound: alert, shouldSetBadge: false };
+  },
+});
+
+async function updateStatusNotification(title: string, body: string) {
+  await Notifications.scheduleNotificationAsync({
+    identifier: STATUS_NOTIFICATION_ID,
+    content: {
+      title,
+      body,
+      sound: false,
+      sticky: true,
+      autoDismiss: false,
+      interruptionLevel: 'passive',
+    },
+    trigger: Platform.OS === 'android' ? { channelId: STATUS_CHANNEL } : null,
+  });
+}
+
+async function handleLocation(location: Location.LocationObject) {
+  const cache = getActiveCache();
+  const target = cache ? cacheDestination(cache) : null;
+  if (!target) {
+    insideRadiusOf = null;
+    await updateStatusNotification('GeoCash tracking', cache ? 'Next stage needs its variables' : 'No target selected');
+    return;
+  }
+
+  const { distance, bearing } = calculateNavigationData(location.coords, target.coordinates);
+  const { alertRadius, units } = settingsStore.getState();
+  await updateStatusNotification(target.name, `${formatDistance(distance, units)} · ${formatBearing(bearing)}`);
+
+  if (distance > alertRadius) {
+    if (insideRadiusOf === target.name) insideRadiusOf = null;
+  } else if (insideRadiusOf !== target.name) {
+    insideRadiusOf = target.name;
+    await Notifications.scheduleNotificationAsync({
+      content: {
+        title: `Within ${formatDistance(alertRadius, units)} of ${target.name}`,
+        body: `${formatDistance(distance, units)} to go, bearing ${formatBearing(bearing)}`,
+        sound: true,
+        interruptionLevel: 'timeSensitive',
+      },
+      trigger: Platform.OS === 'android' ? { channelId: ALERT_CHANNEL } : null,
+    });
+  }
+}
+
+TaskManager.defineTask<{ locations: Location.LocationObject[] }>(BACKGROUND_LOCATION_TASK, async ({ data, error }) => {
+  if (error) {
+    console.warn('Background location error:', error.message);
+    return;
+  }
+  // The task may run in a fresh JS context with nothing loaded yet
+  await Promise.all([cacheStore.hydrate(), settingsStore.hydrate(), trackStore.hydrate()]);
+
+  // Fixes arrive in batches while the app is suspended; all of them belong on a recorded track
+  data.locations.forEach(recordLocation);
+  // The app may be suspended again before a batched write would run
+  await flushTracks();
+  const latest = data.locations[data.locations.length - 1];
+  if (latest) await handleLocation(latest);
+});
+
+async function requestPermissionsAsync() {
+  const foreground = await Location.requestForegroundPermissionsAsync();
+  if (foreground.status !== 'granted') {
+    throw new BackgroundLocationError('Location permission is required');
+  }
+  const background = await Location.requestBackgroundPermissionsAsync();
+  if (background.status !== 'granted') {
+    throw new BackgroundLocationError('Allow location access "all the time" to track in the background');
+  }
+  const notifications = await Notifications.requestPermissionsAsync();
+  if (!notifications.granted) {
+    throw new BackgroundLocationError('Notification permission is required for proximity alerts');
+  }
+
+  if (Platform.OS === 'android') {
+    await Notifications.setNotificationChannelAsync(STATUS_CHANNEL, {
+      name: 'Tracking status',
+      importance: Notifications.AndroidImportance.LOW,
+    });
+    await Notifications.setNotificationChannelAsync(ALERT_CHANNEL, {
+      name: 'Proximity alerts',
+      importance: Notifications.AndroidImportance.HIGH,
+      vibrationPattern: [0, 250, 250, 250],
+    });
+  }
+}
+
+export async function isBackgroundTrackingAsync(): Promise<boolean> {
+  return (
+    (await TaskManager.isTaskRegisteredAsync(BACKGROUND_LOCATION_TASK)) &&
+    (await Location.hasStartedLocationUpdatesAsync(BACKGROUND_LOCATION_TASK))
+  );
+}
+
+export async function startBackgroundTrackingAsync(): Promise<void> {
+  if (!(await TaskManager.isAvailableAsync())) {
+    throw new BackgroundLocationError('Background tracking is not available on this device');
+  }
+  await requestPermissionsAsync();
+  if (await isBackgroundTrackingAsync()) return;
+
+  insideRadiusOf = null;
+  await Location.startLocationUpdatesAsync(BACKGROUND_LOCATION_TASK, {
+    accuracy: Location.Accuracy.High,
+    distanceInterval: 10,
+    timeInterval: 5000,
+    activityType: Location.ActivityType.Fitness,
+    pausesUpdatesAutomatically: false,
+    showsBackgroundLocationIndicator: true,
+    foregroundService: {
+      notificationTitle: 'GeoCash is tracking your approach',
+      notificationBody: 'Distance and proximity alerts stay on while the phone is locked',
+      notificationColor: '#00ff00',
+      killServiceOnDestroy: false,
+    },
+  });
+}
+
+export async function stopBackgroundTrackingAsync(): Promise<void> {
+  if (!(await TaskManager.isAvailableAsync())) return;
+  if (await isBackgroundTrackingAsync()) {
+    await Location.stopLocationUpdatesAsync(BACKGROUND_LOCATION_TASK);
+  }
+  insideRadiusOf = null;
+  await Notifications.dismissNotificationAsync(STATUS_NOTIFICATION_ID).catch(() => {});
+}
+
+/**
+ * Brings the location task in line with the stored setting, e.g. after the OS killed it or
+ * the app was reinstalled. Turns the setting off if tracking can no longer be started.
+ */
+export async function syncBackgroundTrackingAsync(): Promise<void> {
+  await settingsStore.hydrate();
+  try {
+    if (settingsStore.getState().backgroundTracking) await startBackgroundTrackingAsync();
+    else await stopBackgroundTrackingAsync();
+  } catch (error) {
+    console.warn('Failed to resume background tracking:', error);
+    updateSettings({ backgroundTracking: false });
+  }
+}
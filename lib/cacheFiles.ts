@@ -0,0 +1,136 @@
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import * as ImagePicker from 'expo-image-picker';
+import * as Sharing from 'expo-sharing';
+
+import { bytesToBase64 } from '@/lib/base64';
+import type { CacheDraft } from '@/lib/cacheStore';
+import { encodeUtf16le } from '@/lib/fieldNotes';
+import { CacheFileError, parseCacheFile } from '@/lib/gpx';
+import { parseSessionFile, type SensorSession } from '@/lib/sensorSession';
+
+/**
+ * Lets the user pick a .gpx or .loc file and parses its waypoints.
+ * Resolves to null when the picker is cancelled.
+ */
+export async function pickCacheFileAsync(): Promise<CacheDraft[] | null> {
+  const result = await DocumentPicker.getDocumentAsync({
+    // .loc files have no registered MIME type on most devices
+    type: '*/*',
+    copyToCacheDirectory: true,
+  });
+  if (result.canceled) return null;
+
+  const [asset] = result.assets;
+  if (!/\.(gpx|loc|xml)$/i.test(asset.name)) {
+    throw new CacheFileError(`${asset.name} is not a GPX or LOC file`);
+  }
+
+  const contents = asset.file
+    ? await asset.file.text() // web
+    : await FileSystem.readAsStringAsync(asset.uri);
+  return parseCacheFile(contents);
+}
+
+/**
+ * Lets the user pick a recorded sensor session (.json) or a GPX track to replay.
+ * Resolves to null when the picker is cancelled.
+ */
+export async function pickSensorSessionAsync(): Promise<SensorSession | null> {
+  const result = await DocumentPicker.getDocumentAsync({ type: '*/*', copyToCacheDirectory: true });
+  if (result.canceled) return null;
+
+  const [asset] = result.assets;
+  const contents = asset.file
+    ? await asset.file.text() // web
+    : await FileSystem.readAsStringAsync(asset.uri);
+  return parseSessionFile(asset.name, contents);
+}
+
+/** Writes a GPX document to the cache directory and opens the share sheet for it. */
+export async function shareGpxAsync(gpx: string, fileName: string): Promise<void> {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new CacheFileError('Sharing is not available on this device');
+  }
+
+  const uri = `${FileSystem.cacheDirectory}${fileName}`;
+  await FileSystem.writeAsStringAsync(uri, gpx);
+  await Sharing.shareAsync(uri, {
+    mimeType: 'application/gpx+xml',
+    UTI: 'com.topografix.gpx',
+    dialogTitle: 'Export GPX',
+  });
+}
+
+/** Writes field notes as `geocache_visits.txt` and opens the share sheet for it. */
+export async function shareFieldNotesAsync(text: string): Promise<void> {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new CacheFileError('Sharing is not available on this device');
+  }
+
+  const uri = `${FileSystem.cacheDirectory}geocache_visits.txt`;
+  await FileSystem.writeAsStringAsync(uri, bytesToBase64(encodeUtf16le(text)), {
+    encoding: FileSystem.EncodingType.Base64,
+  });
+  await Sharing.shareAsync(uri, {
+    mimeType: 'text/plain',
+    UTI: 'public.plain-text',
+    dialogTitle: 'Export Field Notes',
+  });
+}
+
+/** Writes a sensor recording (.csv or .json) to the cache directory and opens the share sheet for it. */
+export async function shareSensorRecordingAsync(contents: string, fileName: string): Promise<void> {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new CacheFileError('Sharing is not available on this device');
+  }
+
+  const csv = fileName.endsWith('.csv');
+  const uri = `${FileSystem.cacheDirectory}${fileName}`;
+  await FileSystem.writeAsStringAsync(uri, contents);
+  await Sharing.shareAsync(uri, {
+    mimeType: csv ? 'text/csv' : 'application/json',
+    UTI: csv ? 'public.comma-separated-values-text' : 'public.json',
+    dialogTitle: 'Export Sensor Recording',
+  });
+}
+
+const PHOTO_DIRECTORY = FileSystem.documentDirectory ? `${FileSystem.documentDirectory}photos/` : null;
+
+/**
+ * Takes or picks a photo of a cache and copies it into the app's documents, where it
+ * outlives the picker's temporary file. Resolves to its URI, or null when cancelled.
+ */
+export async function pickCachePhotoAsync(source: 'camera' | 'library'): Promise<string | null> {
+  const permission =
+    source === 'camera'
+      ? await ImagePicker.requestCameraPermissionsAsync()
+      : await ImagePicker.requestMediaLibraryPermissionsAsync();
+  if (!permission.granted) {
+    throw new CacheFileError(`${source === 'camera' ? 'Camera' : 'Photo library'} permission is required`);
+  }
+
+  const options: ImagePicker.ImagePickerOptions = { mediaTypes: 'images', quality: 0.7 };
+  const result =
+    source === 'camera'
+      ? await ImagePicker.launchCameraAsync(options)
+      : await ImagePicker.launchImageLibraryAsync(options);
+  if (result.canceled) return null;
+
+  const [asset] = result.assets;
+  // Web has no document directory; the picker's blob URI is the best we can keep
+  if (!PHOTO_DIRECTORY) return asset.uri;
+
+  const match = /\.(\w{2,4})$/.exec(asset.uri);
+  const extension = match ? match[1].toLowerCase() : 'jpg';
+  const uri = `${PHOTO_DIRECTORY}${Date.now().toString(36)}.${extension}`;
+  await FileSystem.makeDirectoryAsync(PHOTO_DIRECTORY, { intermediates: true });
+  await FileSystem.copyAsync({ from: asset.uri, to: uri });
+  return uri;
+}
+
+/** Deletes a photo stored by `pickCachePhotoAsync`; other URIs are left alone. */
+export async function deleteCachePhotoAsync(uri: string | undefined): Promise<void> {
+  if (!uri || !PHOTO_DIRECTORY || !uri.startsWith(PHOTO_DIRECTORY)) return;
+  await FileSystem.deleteAsync(uri, { idempotent: true });
+}
@@ -0,0 +1,127 @@
+import type { FormulaVariables } from '@/lib/formulaCoordinates';
+import type { Coordinates } from '@/lib/geo';
+import { generateId } from '@/lib/id';
+import { createPersistedStore } from '@/lib/persistedStore';
+
+/** One waypoint of a multi-cache; finding it reveals where the next one is. */
+export type CacheStage = {
+  id: string;
+  name: string;
+  /** Plain coordinates or a formula such as `N 37° 4A.B(C+2)' W 122° 25.DEF'`. */
+  coordinates: string;
+  hint: string;
+  found: boolean;
+};
+
+export type Cache = {
+  id: string;
+  name: string;
+  coordinates: Coordinates;
+  /** Geocaching-style difficulty rating, 1 to 5 in half steps. */
+  difficulty: number;
+  hint: string;
+  /** ISO-8601 timestamp. */
+  createdAt: string;
+  /** Listing code such as `GC1A2B3`, when imported from a geocaching site. */
+  code?: string;
+  terrain?: number;
+  description?: string;
+  /** The hider's own notes, e.g. how the container is hidden. */
+  notes?: string;
+  /** file:// URI of a photo kept in the app's documents. */
+  photoUri?: string;
+  /** Ordered stages of a multi-cache; the last one is the final. */
+  stages?: CacheStage[];
+  /** Values found in the field for the stages' formula variables. */
+  variables?: FormulaVariables;
+};
+
+export type MultiCache = Cache & { stages: CacheStage[] };
+
+export type CacheDraft = Omit<Cache, 'id' | 'createdAt'>;
+
+type CacheState = {
+  caches: Cache[];
+  activeCacheId: string | null;
+};
+
+export const DIFFICULTY_LEVELS = [1, 1.5, 2, 2.5, 3, 3.5, 4, 4.5, 5];
+
+export const cacheStore = createPersistedStore<CacheState>('geocash.caches', {
+  caches: [],
+  activeCacheId: null,
+});
+
+export function getCache(id: string): Cache | undefined {
+  return cacheStore.getState().caches.find((cache) => cache.id === id);
+}
+
+/**
+ * Finds a cache by id, or failing that by listing code (case-insensitive), so links can
+ * name a cache either way.
+ */
+export function findCache(caches: Cache[], ref: string): Cache | undefined {
+  const code = ref.toUpperCase();
+  return caches.find((cache) => cache.id === ref) ?? caches.find((cache) => cache.code?.toUpperCase() === code);
+}
+
+export function getActiveCache(): Cache | null {
+  const { caches, activeCacheId } = cacheStore.getState();
+  return caches.find((cache) => cache.id === activeCacheId) ?? null;
+}
+
+export function addCache(draft: CacheDraft): Cache {
+  const cache: Cache = { ...draft, id: generateId(), createdAt: new Date().toISOString() };
+  cacheStore.setState((prev) => ({ ...prev, caches: [...prev.caches, cache] }));
+  return cache;
+}
+
+/**
+ * Adds imported caches, updating existing ones that share a listing code instead of
+ * duplicating them. Caches without a code are exported under their id, so a code that
+ * matches one of those updates it too. Returns how many were added and updated.
+ */
+export function importCaches(drafts: CacheDraft[]): { added: number; updated: number } {
+  let added = 0;
+  let updated = 0;
+
+  cacheStore.setState((prev) => {
+    const caches = [...prev.caches];
+    for (const draft of drafts) {
+      const byCode = draft.code ? caches.findIndex((cache) => cache.code === draft.code) : -1;
+      const byId = byCode < 0 && draft.code ? caches.findIndex((cache) => !cache.code && cache.id === draft.code) : -1;
+      if (byCode >= 0) {
+        caches[byCode] = { ...caches[byCode], ...draft };
+        updated++;
+      } else if (byId >= 0) {
+        // The id only stood in for a code on export; don't adopt it as one
+        caches[byId] = { ...caches[byId], ...draft, code: undefined };
+        updated++;
+      } else {
+        caches.push({ ...draft, id: generateId(), createdAt: new Date().toISOString() });
+        added++;
+      }
+    }
+    return { ...prev, caches };
+  });
+
+  return { added, updated };
+}
+
+export function updateCache(id: string, changes: Partial<CacheDraft>) {
+  cacheStore.setState((prev) => ({
+    ...prev,
+    caches: prev.caches.map((cache) => (cache.id === id ? { ...cache, ...changes } : cache)),
+  }));
+}
+
+export function deleteCache(id: string) {
+  cacheStore.setState((prev) => ({
+    caches: prev.caches.filter((cache) => cache.id !== id),
+    activeCacheId: prev.activeCacheId === id ? null : prev.activeCacheId,
+  }));
+}
+
+export function setActiveCache(id: string | null) {
+  cacheStore.setState((prev) => ({ ...prev, activeCacheId: id }));
+}
@@ -0,0 +1,36 @@
+import Constants from 'expo-constants';
+import { Platform } from 'react-native';
+
+import type { MagnetometerCalibration } from '@/lib/magnetometerCalibration';
+import { createPersistedStore } from '@/lib/persistedStore';
+
+type CalibrationState = {
+  /** Calibrations keyed by device, so a restored backup on a new phone starts uncalibrated. */
+  calibrations: Record<string, MagnetometerCalibration>;
+};
+
+export const DEVICE_KEY =
+  Platform.OS === 'android'
+    ? `android:${Platform.constants.Manufacturer} ${Platform.constants.Model}`
+    : `${Platform.OS}:${Constants.deviceName ?? 'device'}`;
+
+export const calibrationStore = createPersistedStore<CalibrationState>('geocash.calibration', {
+  calibrations: {},
+});
+
+export function getDeviceCalibration(): MagnetometerCalibration | null {
+  return calibrationStore.getState().calibrations[DEVICE_KEY] ?? null;
+}
+
+export function saveDeviceCalibration(calibration: MagnetometerCalibration) {
+  calibrationStore.setState((prev) => ({
+    calibrations: { ...prev.calibrations, [DEVICE_KEY]: calibration },
+  }));
+}
+
+export function clearDeviceCalibration() {
+  calibrationStore.setState((prev) => {
+    const { [DEVICE_KEY]: _removed, ...calibrations } = prev.calibrations;
+    return { calibrations };
+  });
+}
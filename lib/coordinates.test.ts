@@ -0,0 +1,214 @@
+import {
+  COORDINATE_FORMATS,
+  CoordinateParseError,
+  formatCoordinates,
+  parseCoordinates,
+  type CoordinateFormat,
+} from '@/lib/coordinates';
+import { haversineDistance, type Coordinates } from '@/lib/geo';
+import { fromMgrs, fromUtm, isInUtmRange, latitudeBand, toMgrs, toUtm, utmZone } from '@/lib/utm';
+
+// Reference conversions published with Chris Veness's "Movable Type" UTM/MGRS scripts
+const EIFFEL_TOWER: Coordinates = { latitude: 48.8582, longitude: 2.2945 };
+const NULL_ISLAND: Coordinates = { latitude: 0, longitude: 0 };
+
+const SAN_FRANCISCO: Coordinates = { latitude: 37.7749, longitude: -122.4194 };
+const SYDNEY: Coordinates = { latitude: -33.8568, longitude: 151.2153 };
+
+const parseError = (input: string) => {
+  try {
+    parseCoordinates(input);
+  } catch (error) {
+    expect(error).toBeInstanceOf(CoordinateParseError);
+    return (error as Error).message;
+  }
+  throw new Error(`"${input}" parsed without an error`);
+};
+
+describe('toUtm', () => {
+  it('matches the Eiffel Tower reference conversion', () => {
+    const utm = toUtm(EIFFEL_TOWER);
+    expect(utm.zone).toBe(31);
+    expect(utm.band).toBe('U');
+    expect(utm.easting).toBeCloseTo(448251.795, 3);
+    expect(utm.northing).toBeCloseTo(5411932.678, 3);
+  });
+
+  it('puts the origin at the false easting of zone 31', () => {
+    const utm = toUtm(NULL_ISLAND);
+    expect(utm).toMatchObject({ zone: 31, band: 'N', northing: 0 });
+    expect(utm.easting).toBeCloseTo(166021.443, 3);
+  });
+
+  it('adds the false northing south of the equator', () => {
+    const utm = toUtm({ latitude: -0.0001, longitude: -0.0001 });
+    expect(utm).toMatchObject({ zone: 30, band: 'M' });
+    expect(utm.northing).toBeGreaterThan(9999980);
+  });
+});
+
+describe('fromUtm', () => {
+  it('inverts the projection to well under a meter', () => {
+    for (const position of [EIFFEL_TOWER, SAN_FRANCISCO, SYDNEY, { latitude: -79.9, longitude: 0 }]) {
+      expect(haversineDistance(fromUtm(toUtm(position)), position)).toBeLessThan(0.01);
+    }
+  });
+
+  it('reads the hemisphere from the band letter', () => {
+    const north = fromUtm({ zone: 56, band: 'N', easting: 334900, northing: 6252288 });
+    const south = fromUtm({ zone: 56, band: 'H', easting: 334900, northing: 6252288 });
+    expect(north.latitude).toBeGreaterThan(0);
+    expect(south.latitude).toBeCloseTo(SYDNEY.latitude, 4);
+  });
+});
+
+describe('utmZone and latitudeBand', () => {
+  it('uses 6° zones from the antimeridian', () => {
+    expect(utmZone({ latitude: 0, longitude: -180 })).toBe(1);
+    expect(utmZone({ latitude: 0, longitude: 179.9 })).toBe(60);
+    expect(utmZone({ latitude: 0, longitude: 180 })).toBe(1);
+    expect(utmZone(SAN_FRANCISCO)).toBe(10);
+  });
+
+  it('widens zone 32 over south-west Norway', () => {
+    expect(utmZone({ latitude: 60.39, longitude: 5.32 })).toBe(32);
+    expect(utmZone({ latitude: 64, longitude: 5.32 })).toBe(31);
+  });
+
+  it('uses the odd Svalbard zones', () => {
+    expect(utmZone({ latitude: 78.2232, longitude: 8.9 })).toBe(31);
+    expect(utmZone({ latitude: 78.2232, longitude: 15.6267 })).toBe(33);
+    expect(utmZone({ latitude: 78.2232, longitude: 25 })).toBe(35);
+    expect(utmZone({ latitude: 78.2232, longitude: 40 })).toBe(37);
+  });
+
+  it('assigns 8° bands and stretches X to 84°N', () => {
+    expect(latitudeBand(-80)).toBe('C');
+    expect(latitudeBand(-0.0001)).toBe('M');
+    expect(latitudeBand(0)).toBe('N');
+    expect(latitudeBand(72)).toBe('X');
+    expect(latitudeBand(83.9)).toBe('X');
+  });
+
+  it('covers 80°S up to but not including 84°N', () => {
+    expect(isInUtmRange(-80)).toBe(true);
+    expect(isInUtmRange(-80.1)).toBe(false);
+    expect(isInUtmRange(83.99)).toBe(true);
+    expect(isInUtmRange(84)).toBe(false);
+  });
+});
+
+describe('toMgrs and fromMgrs', () => {
+  it('matches the reference grid squares', () => {
+    expect(toMgrs(EIFFEL_TOWER)).toMatchObject({ zone: 31, band: 'U', square: 'DQ' });
+    expect(toMgrs(NULL_ISLAND)).toMatchObject({ zone: 31, band: 'N', square: 'AA' });
+  });
+
+  it('round trips in every row cycle', () => {
+    for (const position of [EIFFEL_TOWER, SAN_FRANCISCO, SYDNEY, { latitude: 83.9, longitude: -30 }]) {
+      expect(haversineDistance(fromMgrs(toMgrs(position))!, position)).toBeLessThan(0.01);
+    }
+  });
+
+  it('rejects square letters that do not exist in the zone', () => {
+    expect(fromMgrs({ zone: 31, band: 'U', square: 'ZQ', easting: 0, northing: 0 })).toBeNull();
+    expect(fromMgrs({ zone: 31, band: 'U', square: 'DW', easting: 0, northing: 0 })).toBeNull();
+  });
+});
+
+describe('formatCoordinates', () => {
+  const formats: [CoordinateFormat, string][] = [
+    ['dd', '37.77490°N 122.41940°W'],
+    ['ddm', "N 37° 46.494' W 122° 25.164'"],
+    ['dms', 'N 37° 46\' 29.6" W 122° 25\' 09.8"'],
+    ['utm', '10S 551130 4180998'],
+    ['mgrs', '10S EG 51130 80998'],
+  ];
+
+  it.each(formats)('writes %s', (format, expected) => {
+    expect(formatCoordinates(SAN_FRANCISCO, format)).toBe(expected);
+  });
+
+  it('writes southern and eastern hemispheres', () => {
+    expect(formatCoordinates(SYDNEY, 'ddm')).toBe("S 33° 51.408' E 151° 12.918'");
+    expect(formatCoordinates(SYDNEY, 'utm')).toBe('56H 334900 6252288');
+  });
+
+  it('carries rounded minutes and seconds into the next unit', () => {
+    expect(formatCoordinates({ latitude: 9.9999999, longitude: -0.9999999 }, 'ddm')).toBe(
+      "N 10° 00.000' W 001° 00.000'"
+    );
+    expect(formatCoordinates({ latitude: 9.9999999, longitude: -0.9999999 }, 'dms')).toBe(
+      'N 10° 00\' 00.0" W 001° 00\' 00.0"'
+    );
+  });
+
+  it('pads MGRS digits to five places', () => {
+    expect(formatCoordinates(NULL_ISLAND, 'mgrs')).toBe('31N AA 66021 00000');
+  });
+
+  it('falls back to decimal degrees outside the UTM range', () => {
+    const pole = { latitude: 89.5, longitude: 10 };
+    expect(formatCoordinates(pole, 'utm')).toBe('89.50000°N 10.00000°E');
+    expect(formatCoordinates(pole, 'mgrs')).toBe('89.50000°N 10.00000°E');
+  });
+});
+
+describe('parseCoordinates', () => {
+  it.each([
+    ['37.7749, -122.4194'],
+    ['37.77490°N 122.41940°W'],
+    ["N 37° 46.494' W 122° 25.164'"],
+    ['n 37 46.494 w 122 25.164'],
+    ['37°46\'29.64"N 122°25\'09.84"W'],
+    ['W 122° 25.164 N 37° 46.494'],
+  ])('reads %s', (input) => {
+    expect(haversineDistance(parseCoordinates(input), SAN_FRANCISCO)).toBeLessThan(1);
+  });
+
+  it('reads UTM with or without unit suffixes', () => {
+    expect(haversineDistance(parseCoordinates('10S 551130 4180998'), SAN_FRANCISCO)).toBeLessThan(2);
+    expect(haversineDistance(parseCoordinates('10s 551130mE 4180998mN'), SAN_FRANCISCO)).toBeLessThan(2);
+  });
+
+  it('reads MGRS as one run, two groups or at lower precision', () => {
+    const full = parseCoordinates('31U DQ 48251 11932');
+    expect(haversineDistance(full, EIFFEL_TOWER)).toBeLessThan(2);
+    expect(parseCoordinates('31UDQ4825111932')).toEqual(full);
+    // A 1 km reference names the south-west corner of its square
+    expect(parseCoordinates('31UDQ4811')).toEqual(parseCoordinates('31U DQ 48000 11000'));
+    expect(parseCoordinates('31UDQ')).toEqual(parseCoordinates('31U DQ 00000 00000'));
+  });
+
+  it('round trips its own output in every format', () => {
+    for (const position of [SAN_FRANCISCO, SYDNEY, EIFFEL_TOWER]) {
+      for (const { value } of COORDINATE_FORMATS) {
+        const parsed = parseCoordinates(formatCoordinates(position, value));
+        expect(haversineDistance(parsed, position)).toBeLessThan(2);
+      }
+    }
+  });
+
+  it.each([
+    ['  ', 'Enter coordinates'],
+    ['37.7749 north', 'Unrecognized characters in coordinates'],
+    ['37 46 122', 'Latitude and longitude need the same number of components'],
+    ['N 37 46 122', 'Use one hemisphere letter (N/S and E/W) for each axis'],
+    ['37 N 122 W 5', 'Hemisphere letters must come before or after each axis'],
+    ['N 37 46 S', 'Could not find both latitude and longitude'],
+    ['E 37 E 122', 'Latitude must use N or S'],
+    ['1 2 3 4 5 6 7 8', 'Could not read the latitude'],
+    ['N 37.5 46 W 122', 'Only the last latitude component may have decimals'],
+    ['N 37 46 W 122 60', 'Minutes and seconds in the longitude must be less than 60'],
+    ['N 91 W 122', 'Latitude must be between -90 and 90'],
+    ['N 37 W 181', 'Longitude must be between -180 and 180'],
+    ['61S 551130 4180998', 'UTM zone 61 is out of range (1-60)'],
+    ['10S 51130 4180998', 'UTM easting must be between 100000 and 900000'],
+    ['0S EG 51130 80998', 'MGRS zone 0 is out of range (1-60)'],
+    ['10SEG511308099', 'MGRS easting and northing must have the same number of digits'],
+    ['10S EG 5113 80998', 'MGRS easting and northing must have the same number of digits (up to 5)'],
+    ['31U ZQ 48251 11932', 'Grid square ZQ does not exist in zone 31'],
+  ])('rejects %j', (input, message) => {
+    expect(parseError(input)).toBe(message);
+  });
+});
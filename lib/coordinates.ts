@@ -0,0 +1,274 @@
+/**
+ * Parsing and formatting of positions in the notations used by geocache listings
+ * and field partners: decimal degrees, degrees-decimal-minutes, DMS, UTM and MGRS.
+ */
+
+import type { Coordinates } from '@/lib/geo';
+import { fromMgrs, fromUtm, isInUtmRange, toMgrs, toUtm } from '@/lib/utm';
+
+export type CoordinateFormat = 'dd' | 'ddm' | 'dms' | 'utm' | 'mgrs';
+
+export const COORDINATE_FORMATS: { value: CoordinateFormat; label: string; example: string }[] = [
+  { value: 'dd', label: 'Decimal degrees', example: '37.77490°N 122.41940°W' },
+  { value: 'ddm', label: 'Degrees decimal minutes', example: "N 37° 46.494' W 122° 25.164'" },
+  { value: 'dms', label: 'Degrees minutes seconds', example: 'N 37° 46\' 29.6" W 122° 25\' 09.8"' },
+  { value: 'utm', label: 'UTM', example: '10S 551130 4180998' },
+  { value: 'mgrs', label: 'MGRS', example: '10S EG 51130 80998' },
+];
+
+export class CoordinateParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CoordinateParseError';
+  }
+}
+
+/** Fixed-point number with a zero-padded integer part, e.g. `pad(5.1, 2, 3)` → `05.100`. */
+const pad = (value: number, integerWidth: number, decimals = 0) =>
+  value.toFixed(decimals).padStart(integerWidth + (decimals ? decimals + 1 : 0), '0');
+
+/** Splits an absolute angle into whole degrees and minutes, carrying rounding overflow. */
+function toDegreesMinutes(value: number, minuteDecimals: number) {
+  let degrees = Math.floor(value);
+  let minutes = Number(((value - degrees) * 60).toFixed(minuteDecimals));
+  if (minutes >= 60) {
+    degrees += 1;
+    minutes -= 60;
+  }
+  return { degrees, minutes };
+}
+
+function toDegreesMinutesSeconds(value: number, secondDecimals: number) {
+  let degrees = Math.floor(value);
+  let minutes = Math.floor((value - degrees) * 60);
+  let seconds = Number(((value - degrees - minutes / 60) * 3600).toFixed(secondDecimals));
+  if (seconds >= 60) {
+    minutes += 1;
+    seconds -= 60;
+  }
+  if (minutes >= 60) {
+    degrees += 1;
+    minutes -= 60;
+  }
+  return { degrees, minutes, seconds };
+}
+
+function formatAxis(value: number, isLongitude: boolean, format: 'ddm' | 'dms'): string {
+  const hemisphere = isLongitude ? (value >= 0 ? 'E' : 'W') : value >= 0 ? 'N' : 'S';
+  const degreeWidth = isLongitude ? 3 : 2;
+
+  if (format === 'ddm') {
+    const { degrees, minutes } = toDegreesMinutes(Math.abs(value), 3);
+    return `${hemisphere} ${pad(degrees, degreeWidth)}° ${pad(minutes, 2, 3)}'`;
+  }
+
+  const { degrees, minutes, seconds } = toDegreesMinutesSeconds(Math.abs(value), 1);
+  return `${hemisphere} ${pad(degrees, degreeWidth)}° ${pad(minutes, 2)}' ${pad(seconds, 2, 1)}"`;
+}
+
+function formatDecimal(value: number, isLongitude: boolean): string {
+  const direction = isLongitude ? (value >= 0 ? 'E' : 'W') : value >= 0 ? 'N' : 'S';
+  return `${Math.abs(value).toFixed(5)}°${direction}`;
+}
+
+/**
+ * Formats a position in the requested notation. UTM and MGRS fall back to decimal
+ * degrees in the polar regions they do not cover.
+ */
+export function formatCoordinates(coordinates: Coordinates, format: CoordinateFormat): string {
+  const { latitude, longitude } = coordinates;
+
+  switch (format) {
+    case 'ddm':
+    case 'dms':
+      return `${formatAxis(latitude, false, format)} ${formatAxis(longitude, true, format)}`;
+    case 'utm':
+      if (isInUtmRange(latitude)) {
+        const { zone, band, easting, northing } = toUtm(coordinates);
+        return `${zone}${band} ${Math.floor(easting)} ${Math.floor(northing)}`;
+      }
+      break;
+    case 'mgrs':
+      if (isInUtmRange(latitude)) {
+        const { zone, band, square, easting, northing } = toMgrs(coordinates);
+        return `${zone}${band} ${square} ${pad(Math.floor(easting), 5)} ${pad(Math.floor(northing), 5)}`;
+      }
+      break;
+  }
+
+  return `${formatDecimal(latitude, false)} ${formatDecimal(longitude, true)}`;
+}
+
+const UTM_PATTERN = /^(\d{1,2})\s*([C-HJ-NP-X])\s+(\d+(?:\.\d+)?)\s*M?\s*E?\s+(\d+(?:\.\d+)?)\s*M?\s*N?$/;
+const MGRS_PATTERN = /^(\d{1,2})\s*([C-HJ-NP-X])\s*([A-HJ-NP-Z][A-HJ-NP-V])\s*(\d*)\s*(\d*)$/;
+
+function parseUtm(match: RegExpMatchArray): Coordinates {
+  const zone = Number(match[1]);
+  if (zone < 1 || zone > 60) {
+    throw new CoordinateParseError(`UTM zone ${zone} is out of range (1-60)`);
+  }
+  const easting = Number(match[3]);
+  if (easting < 100000 || easting > 900000) {
+    throw new CoordinateParseError('UTM easting must be between 100000 and 900000');
+  }
+  return fromUtm({ zone, band: match[2], easting, northing: Number(match[4]) });
+}
+
+function parseMgrs(match: RegExpMatchArray): Coordinates {
+  const zone = Number(match[1]);
+  if (zone < 1 || zone > 60) {
+    throw new CoordinateParseError(`MGRS zone ${zone} is out of range (1-60)`);
+  }
+
+  // Digits may be written as one run ("5113180999") or two groups ("51131 80999")
+  let eastingDigits = match[4];
+  let northingDigits = match[5];
+  if (!northingDigits) {
+    if (eastingDigits.length % 2 !== 0) {
+      throw new CoordinateParseError('MGRS easting and northing must have the same number of digits');
+    }
+    northingDigits = eastingDigits.slice(eastingDigits.length / 2);
+    eastingDigits = eastingDigits.slice(0, eastingDigits.length / 2);
+  }
+  if (eastingDigits.length !== northingDigits.length || eastingDigits.length > 5) {
+    throw new CoordinateParseError('MGRS easting and northing must have the same number of digits (up to 5)');
+  }
+
+  // Shorter references denote a larger square; scale to meters
+  const scale = 10 ** (5 - eastingDigits.length);
+  const coordinates = fromMgrs({
+    zone,
+    band: match[2],
+    square: match[3],
+    easting: Number(eastingDigits || 0) * scale,
+    northing: Number(northingDigits || 0) * scale,
+  });
+  if (!coordinates) {
+    throw new CoordinateParseError(`Grid square ${match[3]} does not exist in zone ${zone}`);
+  }
+  return coordinates;
+}
+
+/** Combines degree/minute/second components into decimal degrees, validating each part. */
+function combineComponents(components: number[], axis: string): number {
+  if (components.length === 0 || components.length > 3) {
+    throw new CoordinateParseError(`Could not read the ${axis}`);
+  }
+  const negative = components[0] < 0 || Object.is(components[0], -0);
+  const [degrees, minutes = 0, seconds = 0] = components.map(Math.abs);
+
+  if (components.length > 1 && !Number.isInteger(degrees)) {
+    throw new CoordinateParseError(`Only the last ${axis} component may have decimals`);
+  }
+  if (components.length > 2 && !Number.isInteger(minutes)) {
+    throw new CoordinateParseError(`Only the last ${axis} component may have decimals`);
+  }
+  if (minutes >= 60 || seconds >= 60) {
+    throw new CoordinateParseError(`Minutes and seconds in the ${axis} must be less than 60`);
+  }
+
+  const value = degrees + minutes / 60 + seconds / 3600;
+  return negative ? -value : value;
+}
+
+type AxisGroup = { hemisphere?: string; components: number[] };
+
+/** Groups number tokens with the hemisphere letter that precedes or follows them. */
+function groupTokens(tokens: string[]): AxisGroup[] {
+  const isLetter = (token: string) => /^[NSEW]$/.test(token);
+  const letters = tokens.filter(isLetter);
+
+  if (letters.length === 0) {
+    const numbers = tokens.map(Number);
+    if (numbers.length % 2 !== 0) {
+      throw new CoordinateParseError('Latitude and longitude need the same number of components');
+    }
+    return [
+      { components: numbers.slice(0, numbers.length / 2) },
+      { components: numbers.slice(numbers.length / 2) },
+    ];
+  }
+  if (letters.length !== 2) {
+    throw new CoordinateParseError('Use one hemisphere letter (N/S and E/W) for each axis');
+  }
+
+  const prefixed = isLetter(tokens[0]);
+  if (!prefixed && !isLetter(tokens[tokens.length - 1])) {
+    throw new CoordinateParseError('Hemisphere letters must come before or after each axis');
+  }
+
+  const groups: AxisGroup[] = [];
+  let current: AxisGroup = { components: [] };
+  for (const token of tokens) {
+    if (isLetter(token)) {
+      if (prefixed) {
+        if (groups.length || current.hemisphere) groups.push(current);
+        current = { hemisphere: token, components: [] };
+      } else {
+        current.hemisphere = token;
+        groups.push(current);
+        current = { components: [] };
+      }
+    } else {
+      current.components.push(Number(token));
+    }
+  }
+  if (prefixed) groups.push(current);
+  if (groups.length !== 2 || groups.some((group) => group.components.length === 0)) {
+    throw new CoordinateParseError('Could not find both latitude and longitude');
+  }
+  return groups;
+}
+
+function parseGeographic(input: string): Coordinates {
+  const tokens = input.match(/[NSEW]|[-+]?\d+(?:\.\d+)?/g);
+  const leftover = input.replace(/[NSEW]|[-+]?\d+(?:\.\d+)?|[\s,;°º'’′"”″:]/g, '');
+  if (!tokens || leftover) {
+    throw new CoordinateParseError('Unrecognized characters in coordinates');
+  }
+
+  let [first, second] = groupTokens(tokens);
+  if (first.hemisphere && /[EW]/.test(first.hemisphere)) {
+    [first, second] = [second, first];
+  }
+  if (first.hemisphere && !/[NS]/.test(first.hemisphere)) {
+    throw new CoordinateParseError('Latitude must use N or S');
+  }
+  if (second.hemisphere && !/[EW]/.test(second.hemisphere)) {
+    throw new CoordinateParseError('Longitude must use E or W');
+  }
+
+  let latitude = combineComponents(first.components, 'latitude');
+  let longitude = combineComponents(second.components, 'longitude');
+  if (first.hemisphere === 'S') latitude = -Math.abs(latitude);
+  if (second.hemisphere === 'W') longitude = -Math.abs(longitude);
+
+  if (Math.abs(latitude) > 90) {
+    throw new CoordinateParseError('Latitude must be between -90 and 90');
+  }
+  if (Math.abs(longitude) > 180) {
+    throw new CoordinateParseError('Longitude must be between -180 and 180');
+  }
+  return { latitude, longitude };
+}
+
+/**
+ * Parses a position typed in any supported notation, e.g.
+ * `37.7749, -122.4194`, `N 37° 46.494 W 122° 25.164`, `37°46'29.6"N 122°25'09.8"W`,
+ * `10S 551131 4180999` or `10SEG5113180999`.
+ * Throws a `CoordinateParseError` describing what is wrong.
+ */
+export function parseCoordinates(input: string): Coordinates {
+  const normalized = input.trim().toUpperCase();
+  if (!normalized) {
+    throw new CoordinateParseError('Enter coordinates');
+  }
+
+  const utm = normalized.match(UTM_PATTERN);
+  if (utm) return parseUtm(utm);
+
+  const mgrs = normalized.replace(/\s+/g, ' ').match(MGRS_PATTERN);
+  if (mgrs) return parseMgrs(mgrs);
+
+  return parseGeographic(normalized);
+}
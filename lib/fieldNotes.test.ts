@@ -0,0 +1,99 @@
+import type { Cache } from '@/lib/cacheStore';
+import { encodeUtf16le, formatFieldNotes } from '@/lib/fieldNotes';
+import type { CacheLog } from '@/lib/logStore';
+
+const cache = (id: string, code?: string): Cache => ({
+  id,
+  name: id,
+  code,
+  coordinates: { latitude: 0, longitude: 0 },
+  difficulty: 1,
+  hint: '',
+  createdAt: '2026-01-01T00:00:00.000Z',
+});
+
+const log = (id: string, cacheId: string, loggedAt: string, type: CacheLog['type'], notes = ''): CacheLog => ({
+  id,
+  cacheId,
+  type,
+  loggedAt,
+  position: null,
+  notes,
+});
+
+const CACHES = [cache('c1', 'GC1A2B3'), cache('c2', 'GC4D5E6'), cache('c3')];
+
+describe('formatFieldNotes', () => {
+  it('writes one CRLF-terminated line per log, oldest first', () => {
+    const { text, count, skipped } = formatFieldNotes(
+      [
+        log('b', 'c2', '2026-05-02T09:15:00.000Z', 'dnf', 'No luck'),
+        log('a', 'c1', '2026-05-01T14:03:00.000Z', 'found', 'TFTC'),
+        log('c', 'c1', '2026-05-03T08:00:00.000Z', 'maintenance', 'Log is wet'),
+      ],
+      CACHES
+    );
+    expect(text).toBe(
+      'GC1A2B3,2026-05-01T14:03Z,Found it,"TFTC"\r\n' +
+        'GC4D5E6,2026-05-02T09:15Z,Didn\'t find it,"No luck"\r\n' +
+        'GC1A2B3,2026-05-03T08:00Z,Needs Maintenance,"Log is wet"\r\n'
+    );
+    expect(count).toBe(3);
+    expect(skipped).toBe(0);
+  });
+
+  it('writes UTC times truncated to the minute', () => {
+    const { text } = formatFieldNotes([log('a', 'c1', '2026-05-01T23:59:59.999-02:00', 'found')], CACHES);
+    expect(text).toBe('GC1A2B3,2026-05-02T01:59Z,Found it,""\r\n');
+  });
+
+  it('doubles quotes and keeps commas and line breaks inside the text', () => {
+    const { text } = formatFieldNotes(
+      [log('a', 'c1', '2026-05-01T14:03:00.000Z', 'found', 'Said "found it", then\nleft')],
+      CACHES
+    );
+    expect(text).toBe('GC1A2B3,2026-05-01T14:03Z,Found it,"Said ""found it"", then\nleft"\r\n');
+  });
+
+  it('skips logs of caches without a code or no longer stored', () => {
+    const { text, count, skipped } = formatFieldNotes(
+      [
+        log('a', 'c3', '2026-05-01T14:03:00.000Z', 'found'),
+        log('b', 'gone', '2026-05-01T15:00:00.000Z', 'found'),
+        log('c', 'c2', '2026-05-01T16:00:00.000Z', 'found'),
+      ],
+      CACHES
+    );
+    expect(text).toBe('GC4D5E6,2026-05-01T16:00Z,Found it,""\r\n');
+    expect(count).toBe(1);
+    expect(skipped).toBe(2);
+  });
+
+  it('is empty without a trailing line break when nothing can be exported', () => {
+    expect(formatFieldNotes([log('a', 'c3', '2026-05-01T14:03:00.000Z', 'found')], CACHES)).toEqual({
+      text: '',
+      count: 0,
+      skipped: 1,
+    });
+  });
+});
+
+describe('encodeUtf16le', () => {
+  it('starts with the little-endian byte-order mark', () => {
+    expect([...encodeUtf16le('')]).toEqual([0xff, 0xfe]);
+  });
+
+  it('writes each code unit low byte first', () => {
+    expect([...encodeUtf16le('A\r\n')]).toEqual([0xff, 0xfe, 0x41, 0x00, 0x0d, 0x00, 0x0a, 0x00]);
+    expect([...encodeUtf16le('é€')]).toEqual([0xff, 0xfe, 0xe9, 0x00, 0xac, 0x20]);
+  });
+
+  it('writes characters outside the BMP as surrogate pairs', () => {
+    expect([...encodeUtf16le('🧭')]).toEqual([0xff, 0xfe, 0x3e, 0xd8, 0xed, 0xdd]);
+  });
+
+  it('decodes back to the text', () => {
+    const text = 'GC1A2B3,2026-05-01T14:03Z,Found it,"Über ""cool"" 🧭"\r\n';
+    expect(Buffer.from(encodeUtf16le(text)).toString('utf16le')).toBe(`\ufeff${text}`);
+  });
+});
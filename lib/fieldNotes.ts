@@ -0,0 +1,52 @@
+/**
+ * Groundspeak field notes (`geocache_visits.txt`), the format geocaching.com and most
+ * GPS units use to bulk-upload logs: one `code,timestamp,type,"text"` line per visit,
+ * timestamps in UTC, stored as UTF-16LE with a byte-order mark.
+ */
+
+import type { Cache } from '@/lib/cacheStore';
+import type { CacheLog, LogType } from '@/lib/logStore';
+
+const FIELD_NOTE_TYPES: Record<LogType, string> = {
+  found: 'Found it',
+  dnf: "Didn't find it",
+  maintenance: 'Needs Maintenance',
+};
+
+/** `2024-05-01T14:03Z`: minutes precision, UTC. */
+const fieldNoteTime = (iso: string) => `${new Date(iso).toISOString().slice(0, 16)}Z`;
+
+/**
+ * Field-note lines for the logs, oldest first. Logs of caches without a listing code
+ * cannot be uploaded and are counted in `skipped` instead.
+ */
+export function formatFieldNotes(logs: CacheLog[], caches: Cache[]): { text: string; count: number; skipped: number } {
+  const codes = new Map(caches.filter((cache) => cache.code).map((cache) => [cache.id, cache.code!]));
+  const lines: string[] = [];
+  let skipped = 0;
+
+  for (const log of [...logs].sort((a, b) => a.loggedAt.localeCompare(b.loggedAt))) {
+    const code = codes.get(log.cacheId);
+    if (!code) {
+      skipped++;
+      continue;
+    }
+    const text = log.notes.replace(/"/g, '""');
+    lines.push(`${code},${fieldNoteTime(log.loggedAt)},${FIELD_NOTE_TYPES[log.type]},"${text}"`);
+  }
+
+  return { text: lines.join('\r\n') + (lines.length ? '\r\n' : ''), count: lines.length, skipped };
+}
+
+/** UTF-16LE bytes with a byte-order mark, as geocaching.com expects. */
+export function encodeUtf16le(text: string): Uint8Array {
+  const bytes = new Uint8Array(2 + text.length * 2);
+  bytes[0] = 0xff;
+  bytes[1] = 0xfe;
+  for (let i = 0; i < text.length; i++) {
+    const unit = text.charCodeAt(i);
+    bytes[2 + i * 2] = unit & 0xff;
+    bytes[3 + i * 2] = unit >> 8;
+  }
+  return bytes;
+}
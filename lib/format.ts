@@ -0,0 +1,60 @@
+import { METERS_PER_FOOT } from '@/lib/projection';
+
+export type UnitSystem = 'metric' | 'imperial' | 'nautical';
+
+export const UNIT_SYSTEMS: { value: UnitSystem; label: string; example: string }[] = [
+  { value: 'metric', label: 'Metric', example: '42m · 3.4km' },
+  { value: 'imperial', label: 'Imperial', example: '138ft · 2.1mi' },
+  { value: 'nautical', label: 'Nautical', example: '42m · 1.8nm' },
+];
+
+type DistanceUnit = { length: number; symbol: string };
+
+/** Each system's short and long unit, and the distance in meters at which it switches. */
+const DISTANCE_UNITS: Record<UnitSystem, { short: DistanceUnit; long: DistanceUnit; switchAt: number }> = {
+  metric: { short: { length: 1, symbol: 'm' }, long: { length: 1000, symbol: 'km' }, switchAt: 1000 },
+  imperial: {
+    short: { length: METERS_PER_FOOT, symbol: 'ft' },
+    long: { length: 1609.344, symbol: 'mi' },
+    switchAt: 1000 * METERS_PER_FOOT,
+  },
+  // Short nautical distances stay in meters, as on a chart plotter
+  nautical: { short: { length: 1, symbol: 'm' }, long: { length: 1852, symbol: 'nm' }, switchAt: 1852 },
+};
+
+/** The unit `formatDistance` shows a distance in: its length in meters and its symbol. */
+export function distanceUnit(meters: number, units: UnitSystem = 'metric'): DistanceUnit {
+  const { short, long, switchAt } = DISTANCE_UNITS[units];
+  return meters < switchAt ? short : long;
+}
+
+/** Compact distance, e.g. `42m`/`3.4km`/`120km`, `138ft`/`2.1mi`, or `42m`/`1.8nm`. */
+export function formatDistance(meters: number, units: UnitSystem = 'metric'): string {
+  const unit = distanceUnit(meters, units);
+  const value = meters / unit.length;
+  if (unit === DISTANCE_UNITS[units].short || value >= 10) return `${Math.round(value)}${unit.symbol}`;
+  return `${value.toFixed(1)}${unit.symbol}`;
+}
+
+/** Declination with its direction, e.g. `12.8°E`, or `--` when unknown. */
+export function formatDeclination(declination: number | null): string {
+  if (declination === null) return '--';
+  return `${Math.abs(declination).toFixed(1)}°${declination < 0 ? 'W' : 'E'}`;
+}
+
+/** Elapsed time as `M:SS` or `H:MM:SS`. */
+export function formatDuration(milliseconds: number): string {
+  const totalSeconds = Math.max(0, Math.floor(milliseconds / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+}
+
+const CARDINALS = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+
+/** Bearing with its 8-point compass direction, e.g. `045° NE`. */
+export function formatBearing(bearing: number): string {
+  const degrees = ((Math.round(bearing) % 360) + 360) % 360;
+  return `${String(degrees).padStart(3, '0')}° ${CARDINALS[Math.round(degrees / 45) % 8]}`;
+}
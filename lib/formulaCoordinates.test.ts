@@ -0,0 +1,105 @@
+import { CoordinateParseError } from '@/lib/coordinates';
+import {
+  formulaVariables,
+  isFormula,
+  missingVariables,
+  resolveFormula,
+  substituteFormula,
+  type FormulaVariables,
+} from '@/lib/formulaCoordinates';
+
+const FORMULA = "N 37° 4A.B(C+2)' W 122° 2(D*2).EF0'";
+const VARIABLES: FormulaVariables = { A: 5, B: 3, C: 1, D: 2, E: 1, F: 6 };
+
+const resolveError = (formula: string, variables: FormulaVariables) => {
+  try {
+    resolveFormula(formula, variables);
+  } catch (error) {
+    expect(error).toBeInstanceOf(CoordinateParseError);
+    return (error as Error).message;
+  }
+  throw new Error(`"${formula}" resolved without an error`);
+};
+
+describe('formulaVariables', () => {
+  it('lists bare and parenthesised variables once, in order', () => {
+    expect(formulaVariables(FORMULA)).toEqual(['A', 'B', 'C', 'D', 'E', 'F']);
+    expect(formulaVariables("N 37° 12.(C+A)(A*B)' E 7° 12.345'")).toEqual(['A', 'B', 'C']);
+  });
+
+  it('tells hemisphere letters from variables with the same name', () => {
+    expect(formulaVariables("N 37° 4E.123' E7 12.345")).toEqual(['E']);
+  });
+
+  it('is empty for plain coordinates, UTM and MGRS', () => {
+    expect(formulaVariables("N 37° 46.494' W 122° 25.164'")).toEqual([]);
+    expect(formulaVariables('10S 551130 4180998')).toEqual([]);
+    expect(formulaVariables('10S EG 51130 80998')).toEqual([]);
+  });
+
+  it('is empty for malformed formulas', () => {
+    expect(formulaVariables("N 37° 4A.(B+' W 122° 25.164'")).toEqual([]);
+  });
+});
+
+describe('isFormula', () => {
+  it('is true only for text with variables or expressions', () => {
+    expect(isFormula(FORMULA)).toBe(true);
+    expect(isFormula("N 37° 46.(4*2)94' W 122° 25.164'")).toBe(true);
+    expect(isFormula("N 37° 46.494' W 122° 25.164'")).toBe(false);
+    expect(isFormula('10S 551130 4180998')).toBe(false);
+  });
+});
+
+describe('missingVariables', () => {
+  it('lists the variables without a value', () => {
+    expect(missingVariables(FORMULA, {})).toEqual(['A', 'B', 'C', 'D', 'E', 'F']);
+    expect(missingVariables(FORMULA, { A: 1, C: 2 })).toEqual(['B', 'D', 'E', 'F']);
+    expect(missingVariables(FORMULA, VARIABLES)).toEqual([]);
+  });
+
+  it('counts zero as a value', () => {
+    expect(missingVariables(FORMULA, { ...VARIABLES, A: 0 })).toEqual([]);
+  });
+});
+
+describe('substituteFormula and resolveFormula', () => {
+  it('resolves a complete formula', () => {
+    expect(substituteFormula(FORMULA, VARIABLES)).toBe("N 37° 45.33' W 122° 24.160'");
+    const position = resolveFormula(FORMULA, VARIABLES);
+    expect(position.latitude).toBeCloseTo(37 + 45.33 / 60, 9);
+    expect(position.longitude).toBeCloseTo(-(122 + 24.16 / 60), 9);
+  });
+
+  it('passes plain coordinates through untouched', () => {
+    const plain = "N 37° 46.494' W 122° 25.164'";
+    expect(substituteFormula(plain, {})).toBe(plain);
+    expect(resolveFormula(plain, {}).latitude).toBeCloseTo(37.7749, 6);
+  });
+
+  it('applies operator precedence and nested parentheses', () => {
+    expect(substituteFormula("N 37° 4(A+B*2).(((A+1)*B)%3)' E 7° 12.345'", { A: 1, B: 2 })).toBe(
+      "N 37° 45.1' E 7° 12.345'"
+    );
+  });
+
+  it('names the missing variables of a partial formula', () => {
+    expect(resolveError(FORMULA, { A: 1 })).toBe('Enter a value for B, C, D, E, F');
+  });
+
+  it.each([
+    ["N 37° 4A.(B-5)' W 122° 25.164'", '(B-5) must be a whole number of zero or more, got -2'],
+    ["N 37° 4A.(B/2)' W 122° 25.164'", '(B/2) must be a whole number of zero or more, got 1.5'],
+    ["N 37° 4A.(B/0)' W 122° 25.164'", 'Division by zero in (B/0)'],
+    ["N 37° 4A.(B+' W 122° 25.164'", 'Unbalanced parentheses in formula'],
+    ["N 37° 4A.B)' W 122° 25.164'", 'Unbalanced parentheses in formula'],
+    ["N 37° 4A.(B$2)' W 122° 25.164'", 'Cannot evaluate (B$2)'],
+    ["N 37° 9A.123' W 122° 25.164'", 'Minutes and seconds in the latitude must be less than 60'],
+  ])('rejects %j', (formula, message) => {
+    expect(resolveError(formula, { A: 1, B: 3 })).toBe(message);
+  });
+
+  it('rejects variables that are not whole digits', () => {
+    expect(resolveError(FORMULA, { ...VARIABLES, A: 2.5 })).toBe('A must be a whole number of zero or more, got 2.5');
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * Puzzle and multi-cache coordinates written as formulas, e.g.
+ * `N 37° 4A.B(C+2)' W 122° 2(D*2).EF0'`. Single letters stand for the digits of a
+ * variable found in the field and parenthesised groups are arithmetic; once every
+ * variable is known the result is parsed like any other coordinate.
+ *
+ * N, S, E and W are read as hemispheres when they stand on their own, at the start of
+ * the text or after a space or unit sign and not glued to a preceding digit, so `4E` uses
+ * variable E while `E 7` and `E7` are the eastern hemisphere. Text that already parses
+ * as plain coordinates (including UTM and MGRS) is never treated as a formula.
+ */
+
+import { CoordinateParseError, parseCoordinates } from '@/lib/coordinates';
+import type { Coordinates } from '@/lib/geo';
+
+export type FormulaVariables = Record<string, number>;
+
+type Segment = { kind: 'text'; text: string } | { kind: 'variable'; name: string } | { kind: 'expression'; source: string };
+
+const isLetter = (char: string) => /^[A-Z]$/.test(char);
+
+/** Splits a formula into literal text, bare variables and parenthesised expressions. */
+function segment(formula: string): Segment[] {
+  const input = formula.toUpperCase();
+  const segments: Segment[] = [];
+  let text = '';
+  let index = 0;
+
+  const flush = () => {
+    if (text) segments.push({ kind: 'text', text });
+    text = '';
+  };
+
+  while (index < input.length) {
+    const char = input[index];
+    if (char === '(') {
+      let depth = 0;
+      let end = index;
+      for (; end < input.length; end++) {
+        if (input[end] === '(') depth++;
+        else if (input[end] === ')' && --depth === 0) break;
+      }
+      if (depth !== 0) throw new CoordinateParseError('Unbalanced parentheses in formula');
+      flush();
+      segments.push({ kind: 'expression', source: input.slice(index + 1, end) });
+      index = end + 1;
+      continue;
+    }
+    if (char === ')') throw new CoordinateParseError('Unbalanced parentheses in formula');
+
+    if (isLetter(char)) {
+      const previous = input[index - 1];
+      const next = input[index + 1];
+      const standsAlone =
+        (previous === undefined || /[\s,;°'"’”′″]/.test(previous)) && (next === undefined || /[\s\d]/.test(next));
+      if (/[NSEW]/.test(char) && standsAlone) {
+        text += char;
+      } else {
+        flush();
+        segments.push({ kind: 'variable', name: char });
+      }
+      index++;
+      continue;
+    }
+
+    text += char;
+    index++;
+  }
+  flush();
+  return segments;
+}
+
+/** Recursive-descent evaluator for + - * / % and parentheses over integers and variables. */
+function evaluate(source: string, variables: FormulaVariables): number {
+  const tokens = source.replace(/[×·]/g, '*').replace(/÷/g, '/').match(/\d+(?:\.\d+)?|[A-Z]|[-+*/%()]|\S/g) ?? [];
+  let position = 0;
+
+  const fail = (): never => {
+    throw new CoordinateParseError(`Cannot evaluate (${source})`);
+  };
+
+  const primary = (): number => {
+    const token = tokens[position++];
+    if (token === undefined) return fail();
+    if (token === '(') {
+      const value = sum();
+      if (tokens[position++] !== ')') fail();
+      return value;
+    }
+    if (token === '-') return -primary();
+    if (token === '+') return primary();
+    if (/^\d/.test(token)) return Number(token);
+    if (isLetter(token)) {
+      const value = variables[token];
+      if (value === undefined) throw new CoordinateParseError(`Variable ${token} has no value yet`);
+      return value;
+    }
+    return fail();
+  };
+
+  const product = (): number => {
+    let value = primary();
+    while (tokens[position] === '*' || tokens[position] === '/' || tokens[position] === '%') {
+      const operator = tokens[position++];
+      const right = primary();
+      if (operator === '*') value *= right;
+      else if (right === 0) throw new CoordinateParseError(`Division by zero in (${source})`);
+      else value = operator === '/' ? value / right : value % right;
+    }
+    return value;
+  };
+
+  const sum = (): number => {
+    let value = product();
+    while (tokens[position] === '+' || tokens[position] === '-') {
+      const operator = tokens[position++];
+      const right = product();
+      value = operator === '+' ? value + right : value - right;
+    }
+    return value;
+  };
+
+  const value = sum();
+  if (position !== tokens.length) fail();
+  return value;
+}
+
+function isPlainCoordinates(text: string): boolean {
+  try {
+    parseCoordinates(text);
+    return true;
+  } catch (error) {
+    if (error instanceof CoordinateParseError) return false;
+    throw error;
+  }
+}
+
+/** Segments, or null when the formula is malformed (the error surfaces on resolving). */
+function trySegment(formula: string): Segment[] | null {
+  try {
+    return segment(formula);
+  } catch (error) {
+    if (error instanceof CoordinateParseError) return null;
+    throw error;
+  }
+}
+
+/** Variables a formula needs, in alphabetical order; empty for plain coordinates. */
+export function formulaVariables(formula: string): string[] {
+  if (isPlainCoordinates(formula)) return [];
+  const names = new Set<string>();
+  for (const part of trySegment(formula) ?? []) {
+    if (part.kind === 'variable') names.add(part.name);
+    if (part.kind === 'expression') {
+      part.source.match(/[A-Z]/g)?.forEach((name) => names.add(name));
+    }
+  }
+  return [...names].sort();
+}
+
+export const isFormula = (text: string) =>
+  !isPlainCoordinates(text) && !!trySegment(text)?.some((part) => part.kind !== 'text');
+
+/** Formula variables that have no value yet. */
+export const missingVariables = (formula: string, variables: FormulaVariables) =>
+  formulaVariables(formula).filter((name) => variables[name] === undefined);
+
+/**
+ * Substitutes the variables and evaluates every expression, returning plain coordinate
+ * text such as `N 37° 45.312' W 122° 25.164'`. Throws a `CoordinateParseError`.
+ */
+export function substituteFormula(formula: string, variables: FormulaVariables): string {
+  if (isPlainCoordinates(formula)) return formula;
+  const missing = missingVariables(formula, variables);
+  if (missing.length > 0) {
+    throw new CoordinateParseError(`Enter a value for ${missing.join(', ')}`);
+  }
+
+  return segment(formula)
+    .map((part) => {
+      if (part.kind === 'text') return part.text;
+      const value = part.kind === 'variable' ? variables[part.name] : evaluate(part.source, variables);
+      if (!Number.isInteger(value) || value < 0) {
+        const label = part.kind === 'variable' ? part.name : `(${part.source})`;
+        throw new CoordinateParseError(`${label} must be a whole number of zero or more, got ${value}`);
+      }
+      return String(value);
+    })
+    .join('');
+}
+
+/** Resolves formula or plain coordinates to a position. Throws a `CoordinateParseError`. */
+export function resolveFormula(formula: string, variables: FormulaVariables): Coordinates {
+  return parseCoordinates(substituteFormula(formula, variables));
+}
@@ -0,0 +1,118 @@
+import {
+  crossTrackDistance,
+  destinationPoint,
+  finalBearing,
+  haversineDistance,
+  initialBearing,
+  midpoint,
+  normalizeBearing,
+  relativeBearing,
+  vincentyDistance,
+  type Coordinates,
+} from '@/lib/geo';
+
+/** Degrees, minutes and seconds as decimal degrees; negate for south and west. */
+const dms = (degrees: number, minutes: number, seconds: number) => degrees + minutes / 60 + seconds / 3600;
+
+// Geodetic reference line from the Geoscience Australia datum manual (Vincenty's worked example)
+const FLINDERS_PEAK: Coordinates = { latitude: -dms(37, 57, 3.7203), longitude: dms(144, 25, 29.5244) };
+const BUNINYONG: Coordinates = { latitude: -dms(37, 39, 10.1561), longitude: dms(143, 55, 35.3839) };
+
+// Spherical reference values published with Chris Veness's "Movable Type" geodesy scripts
+const LANDS_END: Coordinates = { latitude: dms(50, 3, 59), longitude: -dms(5, 42, 53) };
+const JOHN_O_GROATS: Coordinates = { latitude: dms(58, 38, 38), longitude: -dms(3, 4, 12) };
+
+describe('vincentyDistance', () => {
+  it('matches the Flinders Peak to Buninyong reference line', () => {
+    expect(vincentyDistance(FLINDERS_PEAK, BUNINYONG)).toBeCloseTo(54972.271, 3);
+  });
+
+  it('is symmetric and zero for coincident points', () => {
+    expect(vincentyDistance(BUNINYONG, FLINDERS_PEAK)).toBeCloseTo(54972.271, 3);
+    expect(vincentyDistance(BUNINYONG, BUNINYONG)).toBe(0);
+  });
+
+  it('falls back to the sphere for nearly antipodal points', () => {
+    const distance = vincentyDistance({ latitude: 0, longitude: 0 }, { latitude: 0.5, longitude: 179.7 });
+    expect(distance).toBeCloseTo(haversineDistance({ latitude: 0, longitude: 0 }, { latitude: 0.5, longitude: 179.7 }));
+  });
+});
+
+describe('haversineDistance', () => {
+  it("matches the Land's End to John o' Groats reference", () => {
+    expect(haversineDistance(LANDS_END, JOHN_O_GROATS) / 1000).toBeCloseTo(968.9, 1);
+  });
+
+  it('stays within half a percent of the ellipsoid', () => {
+    const spherical = haversineDistance(FLINDERS_PEAK, BUNINYONG);
+    expect(Math.abs(spherical / 54972.271 - 1)).toBeLessThan(0.005);
+  });
+});
+
+describe('bearings', () => {
+  it("matches the Land's End to John o' Groats initial and final bearings", () => {
+    expect(initialBearing(LANDS_END, JOHN_O_GROATS)).toBeCloseTo(dms(9, 7, 11), 2);
+    expect(finalBearing(LANDS_END, JOHN_O_GROATS)).toBeCloseTo(dms(11, 16, 31), 2);
+  });
+
+  it('stays close to the ellipsoidal azimuths of the reference line', () => {
+    expect(initialBearing(FLINDERS_PEAK, BUNINYONG)).toBeCloseTo(dms(306, 52, 5.37), 0);
+    // Reverse azimuth 127°10′25.07″, so 307°10′25.07″ travelling on
+    expect(finalBearing(FLINDERS_PEAK, BUNINYONG)).toBeCloseTo(dms(307, 10, 25.07), 0);
+  });
+
+  it('wraps bearings and relative bearings', () => {
+    expect(normalizeBearing(-90)).toBe(270);
+    expect(normalizeBearing(720)).toBe(0);
+    expect(relativeBearing(10, 350)).toBe(20);
+    expect(relativeBearing(350, 10)).toBe(-20);
+  });
+});
+
+describe('destinationPoint', () => {
+  it('matches the reference destination', () => {
+    const start = { latitude: dms(53, 19, 14), longitude: -dms(1, 43, 47) };
+    const destination = destinationPoint(start, dms(96, 1, 18), 124800);
+    expect(destination.latitude).toBeCloseTo(dms(53, 11, 18), 3);
+    expect(destination.longitude).toBeCloseTo(dms(0, 8, 0), 3);
+  });
+
+  it('round-trips with distance and initial bearing', () => {
+    const destination = destinationPoint(FLINDERS_PEAK, 45, 1000);
+    expect(haversineDistance(FLINDERS_PEAK, destination)).toBeCloseTo(1000, 3);
+    expect(initialBearing(FLINDERS_PEAK, destination)).toBeCloseTo(45, 6);
+  });
+
+  it('wraps longitude across the antimeridian', () => {
+    expect(destinationPoint({ latitude: 0, longitude: 179.9 }, 90, 30000).longitude).toBeLessThan(-179);
+  });
+});
+
+describe('midpoint', () => {
+  it('matches the reference midpoint', () => {
+    const middle = midpoint(LANDS_END, JOHN_O_GROATS);
+    expect(middle.latitude).toBeCloseTo(dms(54, 21, 44), 3);
+    expect(middle.longitude).toBeCloseTo(-dms(4, 31, 50), 3);
+  });
+
+  it('is equidistant from both ends', () => {
+    const middle = midpoint(FLINDERS_PEAK, BUNINYONG);
+    expect(haversineDistance(FLINDERS_PEAK, middle)).toBeCloseTo(haversineDistance(middle, BUNINYONG), 3);
+  });
+});
+
+describe('crossTrackDistance', () => {
+  const pathStart = { latitude: 53.3206, longitude: -1.7297 };
+  const pathEnd = { latitude: 53.1887, longitude: 0.1334 };
+
+  it('matches the reference cross-track distance', () => {
+    expect(crossTrackDistance({ latitude: 53.2611, longitude: -0.7972 }, pathStart, pathEnd)).toBeCloseTo(-307.5, 0);
+  });
+
+  it('is positive to the right of the path and zero on it', () => {
+    const onPath = destinationPoint(pathStart, initialBearing(pathStart, pathEnd), 20000);
+    expect(Math.abs(crossTrackDistance(onPath, pathStart, pathEnd))).toBeLessThan(1e-6);
+    const right = destinationPoint(onPath, initialBearing(onPath, pathEnd) + 90, 50);
+    expect(crossTrackDistance(right, pathStart, pathEnd)).toBeCloseTo(50, 1);
+  });
+});
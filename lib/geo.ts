@@ -0,0 +1,226 @@
+/**
+ * Geodesy helpers shared by the transponder screens.
+ * Angles are in degrees (bearings clockwise from true north), distances in meters.
+ */
+
+export type Coordinates = {
+  latitude: number;
+  longitude: number;
+};
+
+export type NavigationData = {
+  distance: number;
+  bearing: number;
+};
+
+/** Mean Earth radius used by the spherical formulas. */
+export const EARTH_RADIUS = 6371e3;
+
+/** WGS-84 ellipsoid used by Vincenty's formula. */
+const WGS84 = {
+  a: 6378137,
+  b: 6356752.314245,
+  f: 1 / 298.257223563,
+};
+
+export const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+export const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+/** Wraps any angle into [0, 360). */
+export function normalizeBearing(degrees: number): number {
+  return ((degrees % 360) + 360) % 360;
+}
+
+/** Signed difference `bearing - heading` wrapped into (-180, 180]. */
+export function relativeBearing(bearing: number, heading: number): number {
+  const difference = normalizeBearing(bearing - heading);
+  return difference > 180 ? difference - 360 : difference;
+}
+
+/**
+ * Heading of a horizontal field vector in device coordinates
+ * (+X right, +Y towards the top of the screen).
+ */
+export function headingFromVector(x: number, y: number): number {
+  return normalizeBearing(toDegrees(Math.atan2(-x, y)));
+}
+
+/** Great-circle distance on a spherical Earth. */
+export function haversineDistance(from: Coordinates, to: Coordinates): number {
+  const φ1 = toRadians(from.latitude);
+  const φ2 = toRadians(to.latitude);
+  const Δφ = toRadians(to.latitude - from.latitude);
+  const Δλ = toRadians(to.longitude - from.longitude);
+
+  const a = Math.sin(Δφ / 2) ** 2 + Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) ** 2;
+  return EARTH_RADIUS * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+/**
+ * Ellipsoidal distance on WGS-84 using Vincenty's inverse formula (sub-millimeter accuracy).
+ * Falls back to haversine for nearly antipodal points where the iteration does not converge.
+ */
+export function vincentyDistance(from: Coordinates, to: Coordinates): number {
+  const { a, b, f } = WGS84;
+  const L = toRadians(to.longitude - from.longitude);
+  const U1 = Math.atan((1 - f) * Math.tan(toRadians(from.latitude)));
+  const U2 = Math.atan((1 - f) * Math.tan(toRadians(to.latitude)));
+  const sinU1 = Math.sin(U1);
+  const cosU1 = Math.cos(U1);
+  const sinU2 = Math.sin(U2);
+  const cosU2 = Math.cos(U2);
+
+  let λ = L;
+  let sinσ = 0;
+  let cosσ = 0;
+  let σ = 0;
+  let cos2α = 0;
+  let cos2σm = 0;
+
+  for (let iteration = 0; iteration < 200; iteration++) {
+    const sinλ = Math.sin(λ);
+    const cosλ = Math.cos(λ);
+    sinσ = Math.sqrt((cosU2 * sinλ) ** 2 + (cosU1 * sinU2 - sinU1 * cosU2 * cosλ) ** 2);
+    if (sinσ === 0) return 0; // coincident points
+
+    cosσ = sinU1 * sinU2 + cosU1 * cosU2 * cosλ;
+    σ = Math.atan2(sinσ, cosσ);
+    const sinα = (cosU1 * cosU2 * sinλ) / sinσ;
+    cos2α = 1 - sinα ** 2;
+    // cos2α is zero on the equator
+    cos2σm = cos2α !== 0 ? cosσ - (2 * sinU1 * sinU2) / cos2α : 0;
+    const C = (f / 16) * cos2α * (4 + f * (4 - 3 * cos2α));
+
+    const previousλ = λ;
+    λ = L + (1 - C) * f * sinα * (σ + C * sinσ * (cos2σm + C * cosσ * (-1 + 2 * cos2σm ** 2)));
+
+    if (Math.abs(λ - previousλ) < 1e-12) {
+      const u2 = (cos2α * (a ** 2 - b ** 2)) / b ** 2;
+      const A = 1 + (u2 / 16384) * (4096 + u2 * (-768 + u2 * (320 - 175 * u2)));
+      const B = (u2 / 1024) * (256 + u2 * (-128 + u2 * (74 - 47 * u2)));
+      const Δσ =
+        B *
+        sinσ *
+        (cos2σm +
+          (B / 4) *
+            (cosσ * (-1 + 2 * cos2σm ** 2) -
+              (B / 6) * cos2σm * (-3 + 4 * sinσ ** 2) * (-3 + 4 * cos2σm ** 2)));
+      return b * A * (σ - Δσ);
+    }
+  }
+
+  return haversineDistance(from, to);
+}
+
+/** Initial great-circle bearing (forward azimuth) from `from` towards `to`. */
+export function initialBearing(from: Coordinates, to: Coordinates): number {
+  const φ1 = toRadians(from.latitude);
+  const φ2 = toRadians(to.latitude);
+  const Δλ = toRadians(to.longitude - from.longitude);
+
+  const y = Math.sin(Δλ) * Math.cos(φ2);
+  const x = Math.cos(φ1) * Math.sin(φ2) - Math.sin(φ1) * Math.cos(φ2) * Math.cos(Δλ);
+  return normalizeBearing(toDegrees(Math.atan2(y, x)));
+}
+
+/** Bearing on arrival at `to` when following the great circle from `from`. */
+export function finalBearing(from: Coordinates, to: Coordinates): number {
+  return normalizeBearing(initialBearing(to, from) + 180);
+}
+
+/** Point reached by travelling `distance` along the great circle starting at `bearing`. */
+export function destinationPoint(start: Coordinates, bearing: number, distance: number): Coordinates {
+  const δ = distance / EARTH_RADIUS;
+  const θ = toRadians(bearing);
+  const φ1 = toRadians(start.latitude);
+  const λ1 = toRadians(start.longitude);
+
+  const sinφ2 = Math.sin(φ1) * Math.cos(δ) + Math.cos(φ1) * Math.sin(δ) * Math.cos(θ);
+  const φ2 = Math.asin(sinφ2);
+  const λ2 =
+    λ1 + Math.atan2(Math.sin(θ) * Math.sin(δ) * Math.cos(φ1), Math.cos(δ) - Math.sin(φ1) * sinφ2);
+
+  return {
+    latitude: toDegrees(φ2),
+    longitude: normalizeBearing(toDegrees(λ2) + 540) - 180,
+  };
+}
+
+/** Half-way point along the great circle between two points. */
+export function midpoint(from: Coordinates, to: Coordinates): Coordinates {
+  const φ1 = toRadians(from.latitude);
+  const φ2 = toRadians(to.latitude);
+  const λ1 = toRadians(from.longitude);
+  const Δλ = toRadians(to.longitude - from.longitude);
+
+  const Bx = Math.cos(φ2) * Math.cos(Δλ);
+  const By = Math.cos(φ2) * Math.sin(Δλ);
+  const φ3 = Math.atan2(Math.sin(φ1) + Math.sin(φ2), Math.sqrt((Math.cos(φ1) + Bx) ** 2 + By ** 2));
+  const λ3 = λ1 + Math.atan2(By, Math.cos(φ1) + Bx);
+
+  return {
+    latitude: toDegrees(φ3),
+    longitude: normalizeBearing(toDegrees(λ3) + 540) - 180,
+  };
+}
+
+/**
+ * Signed distance of `point` from the great circle through `pathStart` and `pathEnd`.
+ * Positive values are to the right of the path.
+ */
+export function crossTrackDistance(
+  point: Coordinates,
+  pathStart: Coordinates,
+  pathEnd: Coordinates
+): number {
+  const δ13 = haversineDistance(pathStart, point) / EARTH_RADIUS;
+  const θ13 = toRadians(initialBearing(pathStart, point));
+  const θ12 = toRadians(initialBearing(pathStart, pathEnd));
+  return Math.asin(Math.sin(δ13) * Math.sin(θ13 - θ12)) * EARTH_RADIUS;
+}
+
+/**
+ * Closest point to `point` on a polyline, treating each leg as straight in a local
+ * flat projection (fine for walking-scale tracks). Returns null for an empty path.
+ */
+export function nearestPointOnPath(point: Coordinates, path: Coordinates[]): Coordinates | null {
+  if (path.length <= 1) return path[0] ?? null;
+
+  // Equirectangular projection centred on `point`, in degrees of latitude
+  const scale = Math.cos(toRadians(point.latitude));
+  const project = ({ latitude, longitude }: Coordinates) => ({
+    x: relativeBearing(longitude, point.longitude) * scale,
+    y: latitude - point.latitude,
+  });
+
+  let nearest = path[0];
+  let nearestDistance = Infinity;
+  for (let i = 1; i < path.length; i++) {
+    const a = project(path[i - 1]);
+    const b = project(path[i]);
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared === 0 ? 0 : Math.min(Math.max(-(a.x * dx + a.y * dy) / lengthSquared, 0), 1);
+    const distance = (a.x + t * dx) ** 2 + (a.y + t * dy) ** 2;
+    if (distance < nearestDistance) {
+      const from = path[i - 1];
+      const to = path[i];
+      nearestDistance = distance;
+      nearest = {
+        latitude: from.latitude + t * (to.latitude - from.latitude),
+        longitude: relativeBearing(from.longitude + t * relativeBearing(to.longitude, from.longitude), 0),
+      };
+    }
+  }
+  return nearest;
+}
+
+/** Distance and initial bearing from the current position to a target. */
+export function calculateNavigationData(from: Coordinates, to: Coordinates): NavigationData {
+  return {
+    distance: haversineDistance(from, to),
+    bearing: initialBearing(from, to),
+  };
+}
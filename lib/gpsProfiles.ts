@@ -0,0 +1,42 @@
+import * as Location from 'expo-location';
+
+/** Trade-off between fix quality and battery for the navigation screens' GPS updates. */
+export type GpsProfile = 'precise' | 'balanced' | 'saver';
+
+export const GPS_PROFILES: {
+  value: GpsProfile;
+  label: string;
+  description: string;
+  options: Location.LocationOptions;
+  /** Worst fix accuracy (m) the position filter normally accepts; coarser providers report worse. */
+  maxAccuracy: number;
+}[] = [
+  {
+    value: 'precise',
+    label: 'Precise',
+    description: 'Best accuracy, every second',
+    options: { accuracy: Location.Accuracy.BestForNavigation, timeInterval: 1000, distanceInterval: 0 },
+    maxAccuracy: 30,
+  },
+  {
+    value: 'balanced',
+    label: 'Balanced',
+    description: 'High accuracy, every 2 s or 5 m',
+    options: { accuracy: Location.Accuracy.High, timeInterval: 2000, distanceInterval: 5 },
+    maxAccuracy: 50,
+  },
+  {
+    value: 'saver',
+    label: 'Battery saver',
+    description: 'Coarser fixes, every 5 s or 10 m',
+    options: { accuracy: Location.Accuracy.Balanced, timeInterval: 5000, distanceInterval: 10 },
+    // Network and Wi-Fi positioning is typically good to about 100 m
+    maxAccuracy: 150,
+  },
+];
+
+const findProfile = (profile: GpsProfile) => GPS_PROFILES.find(({ value }) => value === profile) ?? GPS_PROFILES[1];
+
+export const gpsProfileOptions = (profile: GpsProfile): Location.LocationOptions => findProfile(profile).options;
+
+export const gpsProfileMaxAccuracy = (profile: GpsProfile): number => findProfile(profile).maxAccuracy;
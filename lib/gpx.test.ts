@@ -0,0 +1,163 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+import { cacheStore, importCaches, type Cache } from '@/lib/cacheStore';
+import { CacheFileError, exportGpx, parseCacheFile, parseGpxTracks, type GpxTrack } from '@/lib/gpx';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const fixture = (name: string) => readFileSync(join(__dirname, '__fixtures__', name), 'utf8');
+
+const cache = (overrides: Partial<Cache> = {}): Cache => ({
+  id: 'lx2abc123',
+  name: 'Bench & "Sign" <micro>',
+  coordinates: { latitude: 37.4219983, longitude: -122.0840011 },
+  difficulty: 2.5,
+  terrain: 3,
+  hint: "Look under the bench's left leg",
+  description: 'Quick park and grab',
+  createdAt: '2024-05-01T10:00:00.000Z',
+  ...overrides,
+});
+
+describe('parseCacheFile', () => {
+  it('reads a Groundspeak GPX 1.0 pocket query', () => {
+    const caches = parseCacheFile(fixture('groundspeak-1.0.gpx'));
+    expect(caches).toEqual([
+      {
+        code: 'GC1A2B3',
+        name: 'Mountain View Micro',
+        coordinates: { latitude: 37.421998, longitude: -122.084 },
+        difficulty: 1.5,
+        terrain: 2,
+        hint: 'Under the bench & behind the sign',
+        description: 'A quick park and grab.',
+      },
+      {
+        code: 'GC4D5E6',
+        name: 'Shoreline Stroll',
+        coordinates: { latitude: 37.4305, longitude: -122.0731 },
+        // Out-of-range ratings are clamped and rounded to half steps
+        difficulty: 5,
+        terrain: 2.5,
+        hint: '',
+        description: undefined,
+      },
+    ]);
+  });
+
+  it('reads Groundspeak data under GPX 1.1 <extensions> and plain waypoints', () => {
+    const [clockTower, parking] = parseCacheFile(fixture('extensions-1.1.gpx'));
+    expect(clockTower).toMatchObject({
+      code: 'GC7XYZ9',
+      name: 'Clock Tower',
+      coordinates: { latitude: 51.5007292, longitude: -0.1246254 },
+      difficulty: 2.5,
+      terrain: 1.5,
+      hint: 'Magnetic',
+      description: 'Listen for the bells.',
+    });
+    expect(parking).toEqual({
+      code: 'PARKING',
+      name: 'Parking near the river',
+      coordinates: { latitude: 51.5033, longitude: -0.1196 },
+      difficulty: 1,
+      hint: 'Pay at the machine',
+    });
+  });
+
+  it('reads a Groundspeak .loc file', () => {
+    expect(parseCacheFile(fixture('geocaching.loc'))).toEqual([
+      {
+        code: 'GC2F3G4',
+        name: 'Hidden Harbor by Finder',
+        coordinates: { latitude: 47.6062, longitude: -122.3321 },
+        difficulty: 3.5,
+        terrain: 4,
+        hint: '',
+      },
+      {
+        code: 'GC9H8J7',
+        name: 'Needle Point',
+        coordinates: { latitude: 47.6205, longitude: -122.3493 },
+        difficulty: 1,
+        terrain: undefined,
+        hint: '',
+      },
+    ]);
+  });
+
+  it('rejects other documents and files without waypoints', () => {
+    expect(() => parseCacheFile('<kml></kml>')).toThrow(CacheFileError);
+    expect(() => parseCacheFile('<gpx version="1.1"></gpx>')).toThrow('The file contains no waypoints');
+    expect(() => parseCacheFile('<gpx><wpt lat="1"')).toThrow(CacheFileError);
+  });
+});
+
+describe('parseGpxTracks', () => {
+  it('joins segments, skips invalid points and drops empty tracks', () => {
+    const tracks = parseGpxTracks(fixture('extensions-1.1.gpx'));
+    expect(tracks.map(({ name, points }) => [name, points.length])).toEqual([
+      ['Morning walk', 3],
+      ['Track 2', 1],
+    ]);
+    expect(tracks[0].points[0]).toEqual({
+      latitude: 51.5007,
+      longitude: -0.1246,
+      timestamp: Date.parse('2024-06-02T08:30:00Z'),
+      elevation: 12.5,
+    });
+    expect(tracks[0].points[2]).toMatchObject({ elevation: null });
+    expect(tracks[1].points[0].timestamp).toBeUndefined();
+  });
+
+  it('rejects documents that are not GPX', () => {
+    expect(() => parseGpxTracks(fixture('geocaching.loc'))).toThrow('Expected a GPX file');
+  });
+});
+
+describe('exportGpx', () => {
+  it('round-trips caches, escaping text', () => {
+    const exported = cache({ code: 'GC1A2B3' });
+    const [draft] = parseCacheFile(exportGpx([exported]));
+    const { id, createdAt, ...expected } = exported;
+    expect(draft).toEqual(expected);
+  });
+
+  it('round-trips tracks', () => {
+    const track: GpxTrack = {
+      name: 'Walk <1>',
+      points: [
+        { latitude: 51.5, longitude: -0.12, timestamp: Date.parse('2024-06-02T08:30:00Z'), elevation: 12.5 },
+        { latitude: 51.5001, longitude: -0.1201, timestamp: Date.parse('2024-06-02T08:30:05Z'), elevation: null },
+      ],
+    };
+    const [parsed] = parseGpxTracks(exportGpx([], [track]));
+    expect(parsed).toEqual(track);
+  });
+
+  it('re-exports imported caches unchanged', () => {
+    const original = parseCacheFile(fixture('groundspeak-1.0.gpx'));
+    const once = parseCacheFile(
+      exportGpx(original.map((draft, index) => ({ ...draft, id: `id${index}`, createdAt: '2024-05-01T00:00:00Z' })))
+    );
+    expect(once).toEqual(original.map((draft) => ({ ...draft, terrain: draft.terrain ?? 1 })));
+  });
+
+  it('names caches without a code by their id, and re-importing updates them instead of duplicating', () => {
+    const homemade = cache({ id: 'lx2home01', name: 'Backyard' });
+    const xml = exportGpx([homemade]);
+    expect(xml).toContain('<name>lx2home01</name>');
+
+    cacheStore.setState({ caches: [homemade], activeCacheId: null });
+    const [draft] = parseCacheFile(xml);
+    expect(importCaches([{ ...draft, name: 'Backyard (moved)' }])).toEqual({ added: 0, updated: 1 });
+
+    const { caches } = cacheStore.getState();
+    expect(caches).toHaveLength(1);
+    expect(caches[0]).toMatchObject({ id: 'lx2home01', name: 'Backyard (moved)' });
+    expect(caches[0].code).toBeUndefined();
+  });
+});
@@ -0,0 +1,247 @@
+/**
+ * GPX (1.0/1.1, with Groundspeak cache extensions) and Groundspeak .loc import,
+ * GPX track import, and GPX 1.1 export of caches and recorded tracks.
+ */
+
+import { XMLParser } from 'fast-xml-parser';
+
+import type { Cache, CacheDraft } from '@/lib/cacheStore';
+import type { Coordinates } from '@/lib/geo';
+
+export type TrackPoint = Coordinates & {
+  /** Milliseconds since the epoch. */
+  timestamp?: number;
+  elevation?: number | null;
+};
+
+export type GpxTrack = {
+  name: string;
+  points: TrackPoint[];
+};
+
+export class CacheFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CacheFileError';
+  }
+}
+
+const GROUNDSPEAK_NAMESPACE = 'http://www.groundspeak.com/cache/1/0/1';
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  removeNSPrefix: true,
+  parseTagValue: false,
+  trimValues: true,
+  isArray: (name) => ['wpt', 'waypoint', 'trk', 'trkseg', 'trkpt'].includes(name),
+});
+
+// Parsed nodes are loosely shaped; these helpers read them defensively.
+type XmlNode = Record<string, unknown>;
+
+const isNode = (value: unknown): value is XmlNode => typeof value === 'object' && value !== null;
+
+/** The element named `key` under `node`, if there is one with children or attributes. */
+const child = (node: unknown, key: string): XmlNode | undefined => {
+  const value = isNode(node) ? node[key] : undefined;
+  return isNode(value) && !Array.isArray(value) ? value : undefined;
+};
+
+/** The repeated elements named `key` under `node`; the parser always makes these arrays. */
+const children = (node: unknown, key: string): XmlNode[] => {
+  const value = isNode(node) ? node[key] : undefined;
+  return Array.isArray(value) ? value.filter(isNode) : [];
+};
+
+const text = (node: unknown): string => {
+  if (node == null) return '';
+  if (isNode(node)) return text(node['#text']);
+  return String(node).trim();
+};
+
+const numberOr = (value: unknown, fallback: number): number => {
+  const parsed = parseFloat(text(value));
+  return Number.isFinite(parsed) ? parsed : fallback;
+};
+
+const toCoordinates = (latitude: unknown, longitude: unknown): Coordinates | null => {
+  const coordinates = { latitude: parseFloat(text(latitude)), longitude: parseFloat(text(longitude)) };
+  const valid =
+    Number.isFinite(coordinates.latitude) &&
+    Number.isFinite(coordinates.longitude) &&
+    Math.abs(coordinates.latitude) <= 90 &&
+    Math.abs(coordinates.longitude) <= 180;
+  return valid ? coordinates : null;
+};
+
+const clampDifficulty = (value: number) => Math.min(5, Math.max(1, Math.round(value * 2) / 2));
+
+function parseGpxWaypoint(wpt: XmlNode): CacheDraft | null {
+  const coordinates = toCoordinates(wpt['@_lat'], wpt['@_lon']);
+  if (!coordinates) return null;
+
+  // GPX 1.0 files put the Groundspeak block directly on the waypoint, 1.1 under <extensions>
+  const geocache = child(wpt, 'cache') ?? child(child(wpt, 'extensions'), 'cache');
+  const code = text(wpt.name) || undefined;
+
+  if (geocache) {
+    return {
+      code,
+      name: text(geocache.name) || text(wpt.desc) || code || 'Imported cache',
+      coordinates,
+      difficulty: clampDifficulty(numberOr(geocache.difficulty, 1)),
+      terrain: clampDifficulty(numberOr(geocache.terrain, 1)),
+      hint: text(geocache.encoded_hints),
+      description: text(geocache.short_description) || undefined,
+    };
+  }
+
+  return {
+    code,
+    name: text(wpt.desc) || code || 'Imported waypoint',
+    coordinates,
+    difficulty: 1,
+    hint: text(wpt.cmt),
+  };
+}
+
+function parseLocWaypoint(waypoint: XmlNode): CacheDraft | null {
+  const coord = child(waypoint, 'coord');
+  const coordinates = toCoordinates(coord?.['@_lat'], coord?.['@_lon']);
+  if (!coordinates) return null;
+
+  const code = text(child(waypoint, 'name')?.['@_id']) || undefined;
+  return {
+    code,
+    name: text(waypoint.name) || code || 'Imported cache',
+    coordinates,
+    difficulty: clampDifficulty(numberOr(waypoint.difficulty, 1)),
+    terrain: waypoint.terrain != null ? clampDifficulty(numberOr(waypoint.terrain, 1)) : undefined,
+    hint: '',
+  };
+}
+
+function parseXml(xml: string): XmlNode {
+  try {
+    return parser.parse(xml, true);
+  } catch (error) {
+    throw new CacheFileError(`Not a valid XML file: ${(error as Error).message}`);
+  }
+}
+
+/** Parses the waypoints of a GPX or .loc document into cache drafts. */
+export function parseCacheFile(xml: string): CacheDraft[] {
+  const document = parseXml(xml);
+
+  let drafts: (CacheDraft | null)[];
+  if (document.gpx !== undefined) {
+    drafts = children(document.gpx, 'wpt').map(parseGpxWaypoint);
+  } else if (document.loc !== undefined) {
+    drafts = children(document.loc, 'waypoint').map(parseLocWaypoint);
+  } else {
+    throw new CacheFileError('Expected a GPX or LOC file');
+  }
+
+  const caches = drafts.filter((draft): draft is CacheDraft => draft !== null);
+  if (caches.length === 0) {
+    throw new CacheFileError('The file contains no waypoints');
+  }
+  return caches;
+}
+
+function parseTrackPoint(trkpt: XmlNode): TrackPoint | null {
+  const coordinates = toCoordinates(trkpt['@_lat'], trkpt['@_lon']);
+  if (!coordinates) return null;
+  const time = Date.parse(text(trkpt.time));
+  const elevation = parseFloat(text(trkpt.ele));
+  return {
+    ...coordinates,
+    timestamp: Number.isFinite(time) ? time : undefined,
+    elevation: Number.isFinite(elevation) ? elevation : null,
+  };
+}
+
+/** Parses the tracks of a GPX document, joining each track's segments. */
+export function parseGpxTracks(xml: string): GpxTrack[] {
+  const document = parseXml(xml);
+  if (document.gpx === undefined) throw new CacheFileError('Expected a GPX file');
+
+  const tracks = children(document.gpx, 'trk').map(
+    (trk, index): GpxTrack => ({
+      name: text(trk.name) || `Track ${index + 1}`,
+      points: children(trk, 'trkseg')
+        .flatMap((segment) => children(segment, 'trkpt'))
+        .map(parseTrackPoint)
+        .filter((point): point is TrackPoint => point !== null),
+    })
+  );
+  return tracks.filter((track) => track.points.length > 0);
+}
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const formatNumber = (value: number, decimals: number) => Number(value.toFixed(decimals)).toString();
+
+function exportWaypoint(cache: Cache): string {
+  const code = cache.code ?? cache.id;
+  const lines = [
+    `  <wpt lat="${formatNumber(cache.coordinates.latitude, 7)}" lon="${formatNumber(cache.coordinates.longitude, 7)}">`,
+    `    <time>${escapeXml(cache.createdAt)}</time>`,
+    `    <name>${escapeXml(code)}</name>`,
+    `    <desc>${escapeXml(cache.name)}</desc>`,
+    `    <sym>Geocache</sym>`,
+    `    <type>Geocache</type>`,
+    `    <extensions>`,
+    `      <groundspeak:cache id="${escapeXml(code)}">`,
+    `        <groundspeak:name>${escapeXml(cache.name)}</groundspeak:name>`,
+    `        <groundspeak:difficulty>${cache.difficulty}</groundspeak:difficulty>`,
+    `        <groundspeak:terrain>${cache.terrain ?? 1}</groundspeak:terrain>`,
+  ];
+  if (cache.description) {
+    lines.push(`        <groundspeak:short_description>${escapeXml(cache.description)}</groundspeak:short_description>`);
+  }
+  if (cache.hint) {
+    lines.push(`        <groundspeak:encoded_hints>${escapeXml(cache.hint)}</groundspeak:encoded_hints>`);
+  }
+  lines.push(`      </groundspeak:cache>`, `    </extensions>`, `  </wpt>`);
+  return lines.join('\n');
+}
+
+function exportTrack(track: GpxTrack): string {
+  const points = track.points.map((point) => {
+    const children = [
+      point.elevation != null ? `<ele>${formatNumber(point.elevation, 1)}</ele>` : '',
+      point.timestamp != null ? `<time>${new Date(point.timestamp).toISOString()}</time>` : '',
+    ].join('');
+    return `      <trkpt lat="${formatNumber(point.latitude, 7)}" lon="${formatNumber(point.longitude, 7)}">${children}</trkpt>`;
+  });
+  return [
+    `  <trk>`,
+    `    <name>${escapeXml(track.name)}</name>`,
+    `    <trkseg>`,
+    ...points,
+    `    </trkseg>`,
+    `  </trk>`,
+  ].join('\n');
+}
+
+/** Serializes caches as waypoints and tracks as single-segment tracks in a GPX 1.1 document. */
+export function exportGpx(caches: Cache[], tracks: GpxTrack[] = []): string {
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<gpx version="1.1" creator="GeoCashV2" xmlns="http://www.topografix.com/GPX/1/1" ` +
+      `xmlns:groundspeak="${GROUNDSPEAK_NAMESPACE}">`,
+    `  <metadata><time>${new Date().toISOString()}</time></metadata>`,
+    ...caches.map(exportWaypoint),
+    ...tracks.map(exportTrack),
+    `</gpx>`,
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,78 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+import { relativeBearing } from '@/lib/geo';
+import { replayHeading, tiltAngles, tiltCompensatedHeading, type SensorSample } from '@/lib/headingFilter';
+
+/**
+ * Synthetic sessions, not device captures: generated sensor streams at 25 Hz with added
+ * noise, for a phone held still flat or tilted, turned at 30°/s, without a gyroscope, and
+ * next to a strong magnet. The field is 20 µT north and 45 µT down, so headings are magnetic.
+ */
+const fixture = (name: string): SensorSample[] =>
+  JSON.parse(readFileSync(join(__dirname, '__fixtures__', `${name}.json`), 'utf8'));
+
+const expectHeading = (actual: number, expected: number, tolerance: number) =>
+  expect(Math.abs(relativeBearing(actual, expected))).toBeLessThan(tolerance);
+
+describe('replayHeading', () => {
+  it('holds the heading of a phone lying flat', () => {
+    const estimate = replayHeading(fixture('synthetic-heading-flat'));
+    expectHeading(estimate.heading, 30, 1);
+    expect(estimate.source).toBe('fusion');
+    expect(estimate.confidence).toBeGreaterThan(0.9);
+    expect(estimate.pitch).toBeCloseTo(0, 0);
+    expect(estimate.roll).toBeCloseTo(0, 0);
+  });
+
+  it('compensates for tilt', () => {
+    const estimate = replayHeading(fixture('synthetic-heading-tilted'));
+    expectHeading(estimate.heading, 120, 1);
+    expect(estimate.source).toBe('fusion');
+    expect(estimate.confidence).toBeGreaterThan(0.9);
+    expect(Math.abs(estimate.pitch - 40)).toBeLessThan(1);
+    // 20° about the tilted long axis leaves the right edge 15° below the horizon
+    expect(Math.abs(estimate.roll + 15.2)).toBeLessThan(1);
+  });
+
+  it('follows a turn with the gyroscope and settles on the new heading', () => {
+    const samples = fixture('synthetic-heading-rotating');
+    const midTurn = replayHeading(samples.filter(({ timestamp }) => timestamp < 101.5));
+    expectHeading(midTurn.heading, 45, 3);
+
+    const estimate = replayHeading(samples);
+    expectHeading(estimate.heading, 90, 1);
+    expect(estimate.source).toBe('fusion');
+    expect(estimate.confidence).toBeGreaterThan(0.8);
+  });
+
+  it('falls back to the smoothed magnetometer without a gyroscope', () => {
+    const estimate = replayHeading(fixture('synthetic-heading-compass-only'));
+    expectHeading(estimate.heading, 250, 1);
+    expect(estimate.source).toBe('compass');
+    expect(estimate.confidence).toBeGreaterThan(0.9);
+  });
+
+  it('reports no confidence in a field far stronger than the Earth’s', () => {
+    const estimate = replayHeading(fixture('synthetic-heading-disturbed'));
+    expect(estimate.source).toBe('fusion');
+    expect(estimate.confidence).toBeLessThan(0.1);
+  });
+
+  it('has no heading without magnetometer samples', () => {
+    const samples = fixture('synthetic-heading-flat').filter(({ sensor }) => sensor !== 'magnetometer');
+    expect(replayHeading(samples)).toMatchObject({ heading: 0, confidence: 0, source: 'none' });
+  });
+});
+
+describe('tiltCompensatedHeading', () => {
+  it('is null for degenerate vectors', () => {
+    expect(tiltCompensatedHeading({ x: 0, y: 0, z: -45 }, { x: 0, y: 0, z: 1 })).toBeNull();
+    expect(tiltCompensatedHeading({ x: 0, y: 20, z: -45 }, { x: 0, y: 0, z: 0 })).toBeNull();
+  });
+
+  it('measures tilt against the horizon on each axis', () => {
+    expect(tiltAngles({ x: 0, y: 1, z: 0 })).toEqual({ pitch: 90, roll: 0 });
+    expect(tiltAngles({ x: 1, y: 0, z: 0 })).toEqual({ pitch: 0, roll: 90 });
+  });
+});
@@ -0,0 +1,265 @@
+/**
+ * Complementary filter that fuses magnetometer, accelerometer and gyroscope samples
+ * into a tilt-compensated heading. It has no sensor dependencies so recorded
+ * streams can be replayed through it deterministically.
+ *
+ * Vectors use the device frame (+X right, +Y top of screen, +Z out of the screen).
+ * Accelerometer samples must point *up* (away from the ground), as Android reports them.
+ * Timestamps are in seconds.
+ *
+ * The heading is that of the top of the displayed content, which follows the screen
+ * orientation, or of the camera once the phone is held upright.
+ */
+
+import { normalizeBearing, relativeBearing, toDegrees } from '@/lib/geo';
+
+export type Vector3 = {
+  x: number;
+  y: number;
+  z: number;
+};
+
+/** `gps` is course over ground, used while magnetic interference makes the compass unusable. */
+export type HeadingSource = 'fusion' | 'compass' | 'system' | 'gps' | 'none';
+
+export const HEADING_SOURCE_LABELS: Record<HeadingSource, string> = {
+  fusion: 'GYRO+MAG',
+  compass: 'MAG',
+  system: 'SYSTEM',
+  gps: 'GPS COURSE',
+  none: 'NO HEADING',
+};
+
+/** Which edge of the device the displayed content's top is on, as in expo-screen-orientation. */
+export type DisplayOrientation = 'portrait' | 'portrait-down' | 'landscape-left' | 'landscape-right';
+
+export type HeadingEstimate = {
+  /** Degrees clockwise from magnetic north. */
+  heading: number;
+  /** 0 (unusable) to 1 (trustworthy). */
+  confidence: number;
+  source: HeadingSource;
+  /** Tilt of the displayed content in degrees, for display. */
+  pitch: number;
+  roll: number;
+  /** Held upright, so the heading is where the camera looks rather than where the screen's top points. */
+  upright: boolean;
+};
+
+export type HeadingFilterOptions = {
+  /** Time constant (s) for pulling the gyro-integrated heading towards the magnetometer. */
+  fusionTimeConstant?: number;
+  /** Time constant (s) for smoothing the magnetometer heading when no gyroscope is available. */
+  compassTimeConstant?: number;
+  /** Time constant (s) for the gravity low-pass filter. */
+  gravityTimeConstant?: number;
+};
+
+/** Typical range of the Earth's field strength in µT. */
+export const EARTH_FIELD_MIN = 22;
+export const EARTH_FIELD_MAX = 67;
+/** Gyro samples older than this (s) no longer count as a live gyroscope. */
+const GYRO_TIMEOUT = 0.5;
+/** Largest sample gap (s) the filter integrates across. */
+const MAX_STEP = 0.5;
+/**
+ * Elevations of the display's top, as the sine of the angle above the horizon, at which
+ * the heading switches to the camera axis and back. The gap keeps it from flapping.
+ */
+const UPRIGHT_ENTER = Math.sin((60 * Math.PI) / 180);
+const UPRIGHT_EXIT = Math.sin((50 * Math.PI) / 180);
+
+/** Device axis pointing to the top of the displayed content in each orientation. */
+const DISPLAY_TOP: Record<DisplayOrientation, Vector3> = {
+  portrait: { x: 0, y: 1, z: 0 },
+  'portrait-down': { x: 0, y: -1, z: 0 },
+  // Landscape left has the device's top edge on the right, so the content's top is its left edge
+  'landscape-left': { x: -1, y: 0, z: 0 },
+  'landscape-right': { x: 1, y: 0, z: 0 },
+};
+
+export const vectorLength = ({ x, y, z }: Vector3) => Math.sqrt(x * x + y * y + z * z);
+
+const cross = (a: Vector3, b: Vector3): Vector3 => ({
+  x: a.y * b.z - a.z * b.y,
+  y: a.z * b.x - a.x * b.z,
+  z: a.x * b.y - a.y * b.x,
+});
+
+const dot = (a: Vector3, b: Vector3) => a.x * b.x + a.y * b.y + a.z * b.z;
+
+export const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+/** 1 within the Earth's field range, falling to 0 at no field or twice the maximum. */
+export const fieldStrengthScore = (strength: number) =>
+  strength < EARTH_FIELD_MIN
+    ? clamp01(strength / EARTH_FIELD_MIN)
+    : clamp01(1 - (strength - EARTH_FIELD_MAX) / EARTH_FIELD_MAX);
+
+/**
+ * Heading of a device axis (+Y by default) from a magnetic field vector and an up vector,
+ * valid at any tilt except with that axis pointing straight up or down. Returns null
+ * when the vectors are degenerate.
+ */
+export function tiltCompensatedHeading(
+  magnetic: Vector3,
+  up: Vector3,
+  forward: Vector3 = DISPLAY_TOP.portrait
+): number | null {
+  const east = cross(magnetic, up);
+  const eastLength = vectorLength(east);
+  const upLength = vectorLength(up);
+  if (eastLength < 1e-6 || upLength < 1e-6) return null;
+
+  const north = cross(up, east);
+  const northLength = vectorLength(north);
+  return normalizeBearing(toDegrees(Math.atan2(dot(east, forward) / eastLength, dot(north, forward) / northLength)));
+}
+
+/** A device-frame vector in the frame of the displayed content (+X right, +Y top, +Z out). */
+export function toDisplayFrame(vector: Vector3, orientation: DisplayOrientation): Vector3 {
+  const top = DISPLAY_TOP[orientation];
+  const right = cross(top, { x: 0, y: 0, z: 1 });
+  return { x: dot(vector, right), y: dot(vector, top), z: vector.z };
+}
+
+/**
+ * Pitch (top edge raised) and roll (right edge raised) in degrees from an up vector in
+ * the display frame. Each is measured against the horizon on its own, so neither breaks
+ * down when the other approaches 90°.
+ */
+export function tiltAngles({ x, y, z }: Vector3): { pitch: number; roll: number } {
+  return {
+    pitch: toDegrees(Math.atan2(y, Math.sqrt(x * x + z * z))),
+    roll: toDegrees(Math.atan2(x, Math.sqrt(y * y + z * z))),
+  };
+}
+
+export function createHeadingFilter({
+  fusionTimeConstant = 1,
+  compassTimeConstant = 0.25,
+  gravityTimeConstant = 0.2,
+}: HeadingFilterOptions = {}) {
+  let gravity: Vector3 = { x: 0, y: 0, z: 1 };
+  let gravityTime: number | null = null;
+  let accelerationMagnitude = 1;
+  let heading: number | null = null;
+  let magnetometerTime: number | null = null;
+  let gyroTime: number | null = null;
+  let fieldStrength = 0;
+  /** Running mean square of magnetometer-vs-estimate disagreement, in deg². */
+  let innovationVariance = 0;
+  let orientation: DisplayOrientation = 'portrait';
+  let upright = false;
+
+  const gyroActive = (time: number) => gyroTime !== null && time - gyroTime < GYRO_TIMEOUT;
+
+  const step = (previous: number | null, time: number) =>
+    previous === null ? 0 : Math.min(Math.max(time - previous, 0), MAX_STEP);
+
+  function addAccelerometer(sample: Vector3, time: number) {
+    const dt = step(gravityTime, time);
+    const k = gravityTime === null ? 1 : dt / (gravityTimeConstant + dt);
+    gravity = {
+      x: gravity.x + k * (sample.x - gravity.x),
+      y: gravity.y + k * (sample.y - gravity.y),
+      z: gravity.z + k * (sample.z - gravity.z),
+    };
+    accelerationMagnitude = vectorLength(sample);
+    gravityTime = time;
+  }
+
+  /** Integrates rotation about the vertical axis; `sample` is in rad/s. */
+  function addGyroscope(sample: Vector3, time: number) {
+    const dt = step(gyroTime, time);
+    gyroTime = time;
+    if (heading === null || dt === 0) return;
+
+    const up = vectorLength(gravity);
+    if (up < 1e-6) return;
+    // Counter-clockwise rotation about "up" turns the heading to the left
+    const yawRate = -dot(sample, gravity) / up;
+    heading = normalizeBearing(heading + toDegrees(yawRate * dt));
+  }
+
+  /**
+   * The device axis whose heading is reported: the display's top, or once that points
+   * steeply up or down, the camera (or the screen when the top is tipped down), which
+   * share its heading through the tilt.
+   */
+  function forwardAxis(): Vector3 {
+    const top = DISPLAY_TOP[orientation];
+    const up = vectorLength(gravity);
+    const elevation = up < 1e-6 ? 0 : dot(top, gravity) / up;
+    upright = Math.abs(elevation) > (upright ? UPRIGHT_EXIT : UPRIGHT_ENTER);
+    return upright ? { x: 0, y: 0, z: elevation > 0 ? -1 : 1 } : top;
+  }
+
+  /** The heading is measured along a different axis from now on, so start it over. */
+  function setDisplayOrientation(next: DisplayOrientation) {
+    if (next === orientation) return;
+    orientation = next;
+    heading = null;
+    innovationVariance = 0;
+  }
+
+  function addMagnetometer(sample: Vector3, time: number) {
+    const measured = tiltCompensatedHeading(sample, gravity, forwardAxis());
+    fieldStrength = vectorLength(sample);
+    const dt = step(magnetometerTime, time);
+    magnetometerTime = time;
+    if (measured === null) return;
+
+    if (heading === null) {
+      heading = measured;
+      return;
+    }
+
+    const innovation = relativeBearing(measured, heading);
+    const timeConstant = gyroActive(time) ? fusionTimeConstant : compassTimeConstant;
+    const k = dt / (timeConstant + dt);
+    heading = normalizeBearing(heading + k * innovation);
+    innovationVariance += k * (innovation * innovation - innovationVariance);
+  }
+
+  function getEstimate(): HeadingEstimate {
+    const { pitch, roll } = tiltAngles(toDisplayFrame(gravity, orientation));
+    if (heading === null || magnetometerTime === null) {
+      return { heading: 0, confidence: 0, source: 'none', pitch, roll, upright };
+    }
+
+    const fieldScore = fieldStrengthScore(fieldStrength);
+    const motionScore = clamp01(1 - Math.abs(accelerationMagnitude - 1) / 0.5);
+    const agreementScore = clamp01(1 - Math.sqrt(innovationVariance) / 45);
+
+    return {
+      heading,
+      confidence: fieldScore * motionScore * agreementScore,
+      source: gyroActive(magnetometerTime) ? 'fusion' : 'compass',
+      pitch,
+      roll,
+      upright,
+    };
+  }
+
+  return { addAccelerometer, addGyroscope, addMagnetometer, setDisplayOrientation, getEstimate };
+}
+
+export type HeadingFilter = ReturnType<typeof createHeadingFilter>;
+
+export type SensorSample = Vector3 & {
+  sensor: 'accelerometer' | 'gyroscope' | 'magnetometer';
+  timestamp: number;
+};
+
+/** Runs a recorded sensor stream through a fresh filter and returns the final estimate. */
+export function replayHeading(samples: SensorSample[], options?: HeadingFilterOptions): HeadingEstimate {
+  const filter = createHeadingFilter(options);
+  for (const { sensor, timestamp, x, y, z } of samples) {
+    const vector = { x, y, z };
+    if (sensor === 'accelerometer') filter.addAccelerometer(vector, timestamp);
+    else if (sensor === 'gyroscope') filter.addGyroscope(vector, timestamp);
+    else filter.addMagnetometer(vector, timestamp);
+  }
+  return filter.getEstimate();
+}
@@ -0,0 +1,374 @@
+/**
+ * Single shared heading source for every screen. Sensors start with the first
+ * subscriber and stop with the last, so both transponders see the same estimate.
+ * Raw magnetometer readings are corrected with this device's stored calibration, and
+ * magnetometer headings are corrected to true north with the World Magnetic Model
+ * once a position is known. The measured field is checked against the model too;
+ * under magnetic interference the heading follows the GPS course while the user is
+ * moving. Readings come from the active sensor provider, which may be a simulation.
+ */
+
+import { Platform } from 'react-native';
+
+import { calibrationStore, getDeviceCalibration } from '@/lib/calibrationStore';
+import { haversineDistance, normalizeBearing, type Coordinates } from '@/lib/geo';
+import {
+  createHeadingFilter,
+  vectorLength,
+  type HeadingEstimate,
+  type SensorSample,
+  type Vector3,
+} from '@/lib/headingFilter';
+import {
+  createInterferenceMonitor,
+  expectedField,
+  NO_INTERFERENCE,
+  type InterferenceLevel,
+  type InterferenceStatus,
+} from '@/lib/interference';
+import { magneticDeclination } from '@/lib/magneticModel';
+import { applyCalibration, needsRecalibration } from '@/lib/magnetometerCalibration';
+import { watchDisplayOrientation } from '@/lib/screenOrientation';
+import { getSensorProvider, subscribeSensorProvider, type SensorProvider } from '@/lib/sensorProvider';
+import { settingsStore } from '@/lib/settingsStore';
+
+export type HeadingState = HeadingEstimate & {
+  /** Whether `heading` is relative to true north or, lacking a position, magnetic north. */
+  reference: 'true' | 'magnetic';
+  magneticHeading: number;
+  /** Declination applied to magnetic headings, or null until a position is known. */
+  declination: number | null;
+  /** Quality of this device's magnetometer calibration, or null if it has none. */
+  calibrationQuality: number | null;
+  /** Calibration is missing, poor, stale, or no longer matches the measured field. */
+  needsCalibration: boolean;
+  /** How far the measured field is from the expected Earth field. */
+  interference: InterferenceStatus;
+  /** Latest readings, for diagnostics; `magnetometer` is calibrated. */
+  magnetometer: Vector3;
+  rawMagnetometer: Vector3;
+  accelerometer: Vector3;
+};
+
+/** Per-sample smoothing of the calibrated field's deviation from the calibration sphere (~10 s). */
+const DRIFT_SMOOTHING = 0.01;
+/** Sustained relative deviation beyond which the calibration is considered stale. */
+const DRIFT_LIMIT = 0.2;
+/** Declination changes slowly; only re-evaluate the model after moving this far (m). */
+const DECLINATION_REFRESH_DISTANCE = 10000;
+/** Slowest speed (m/s) at which the GPS course is a usable heading. */
+const COURSE_MIN_SPEED = 0.8;
+/** A GPS course older than this (ms) no longer describes where the user is heading. */
+const COURSE_TIMEOUT = 3000;
+/** Confidence reported for a GPS course heading; it lags turns and ignores where the phone points. */
+const COURSE_CONFIDENCE = 0.6;
+/** Magnetometer confidence is scaled down as the field departs from the model. */
+const INTERFERENCE_CONFIDENCE: Record<InterferenceLevel, number> = {
+  none: 1,
+  distorted: 0.5,
+  interference: 0.1,
+};
+
+/** CoreMotion reports gravity pointing down; the filter expects it pointing up like Android. */
+const ACCELEROMETER_SIGN = Platform.OS === 'ios' ? -1 : 1;
+
+const INITIAL_STATE: HeadingState = {
+  heading: 0,
+  confidence: 0,
+  source: 'none',
+  pitch: 0,
+  roll: 0,
+  upright: false,
+  reference: 'magnetic',
+  magneticHeading: 0,
+  declination: null,
+  calibrationQuality: null,
+  needsCalibration: true,
+  interference: NO_INTERFERENCE,
+  magnetometer: { x: 0, y: 0, z: 0 },
+  rawMagnetometer: { x: 0, y: 0, z: 0 },
+  accelerometer: { x: 0, y: 0, z: 0 },
+};
+
+let state = INITIAL_STATE;
+let declination: number | null = null;
+let declinationPosition: Coordinates | null = null;
+/** Smoothed |calibrated field| / calibrated strength - 1. */
+let calibrationDrift = 0;
+/** Latest GPS course over ground while moving, degrees true. */
+let course: { heading: number; time: number } | null = null;
+const interferenceMonitor = createInterferenceMonitor();
+let subscriptions: { remove: () => void }[] = [];
+/** Bumped on every stop so that a start still awaiting sensor checks can bail out. */
+let generation = 0;
+const listeners = new Set<() => void>();
+const sampleListeners = new Set<(sample: Vector3) => void>();
+const streamListeners = new Set<(sample: SensorSample) => void>();
+
+const emit = () => listeners.forEach((listener) => listener());
+
+const setState = (changes: Partial<HeadingState>) => {
+  state = { ...state, ...changes };
+  emit();
+};
+
+/** Publishes a magnetic heading, converted to true north when the declination is known. */
+const setMagneticHeading = (magneticHeading: number, changes: Partial<HeadingState>) => {
+  setState({
+    ...changes,
+    magneticHeading,
+    heading: declination === null ? magneticHeading : normalizeBearing(magneticHeading + declination),
+    reference: declination === null ? 'magnetic' : 'true',
+    declination,
+  });
+};
+
+/** Publishes a GPS course, which is already relative to true north. */
+const setCourseHeading = (heading: number, changes: Partial<HeadingState>) => {
+  setState({
+    ...changes,
+    heading,
+    magneticHeading: declination === null ? heading : normalizeBearing(heading - declination),
+    reference: 'true',
+    declination,
+  });
+};
+
+const currentCourse = () => (course && Date.now() - course.time < COURSE_TIMEOUT ? course.heading : null);
+
+/**
+ * Tells the heading service where the device is so it can apply the local declination
+ * and check the field against the model. Fixes with speed and course also provide the
+ * fallback heading under interference. Cheap to call on every fix.
+ */
+export function setHeadingPosition(position: Coordinates & { speed?: number | null; heading?: number | null }) {
+  const { speed, heading } = position;
+  // Platforms report -1 (iOS) or 0 with no speed (Android) when there is no course
+  course =
+    speed != null && speed >= COURSE_MIN_SPEED && heading != null && heading >= 0
+      ? { heading, time: Date.now() }
+      : null;
+
+  if (declinationPosition && haversineDistance(declinationPosition, position) < DECLINATION_REFRESH_DISTANCE) {
+    return;
+  }
+  declinationPosition = { latitude: position.latitude, longitude: position.longitude };
+  declination = magneticDeclination(declinationPosition);
+  interferenceMonitor.setExpected(expectedField(declinationPosition));
+  if (state.source !== 'none' && state.source !== 'system') {
+    setMagneticHeading(state.magneticHeading, {});
+  }
+}
+
+/** Simulated readings are already clean; this device's calibration would distort them. */
+const activeCalibration = () => (getSensorProvider().simulated ? null : getDeviceCalibration());
+
+const updateCalibrationStatus = () => {
+  const calibration = activeCalibration();
+  setState({
+    calibrationQuality: calibration?.quality ?? null,
+    needsCalibration:
+      !getSensorProvider().simulated &&
+      (needsRecalibration(calibration) || Math.abs(calibrationDrift) > DRIFT_LIMIT),
+  });
+};
+
+/** Falls back to the operating system's own compass when we cannot read the magnetometer. */
+async function startSystemHeading(provider: SensorProvider, startedGeneration: number) {
+  try {
+    const subscription = await provider.watchHeadingAsync((heading) => {
+      // iOS accuracy is in degrees (-1 invalid), Android is a 0-3 calibration level
+      const confidence =
+        Platform.OS === 'ios'
+          ? heading.accuracy < 0 ? 0 : Math.max(0, 1 - heading.accuracy / 45)
+          : heading.accuracy / 3;
+      if (heading.trueHeading !== -1) {
+        setState({
+          heading: heading.trueHeading,
+          magneticHeading: heading.magHeading,
+          reference: 'true',
+          declination: normalizeBearing(heading.trueHeading - heading.magHeading + 180) - 180,
+          confidence,
+          source: 'system',
+        });
+      } else {
+        setMagneticHeading(heading.magHeading, { confidence, source: 'system' });
+      }
+    });
+    if (startedGeneration !== generation) {
+      subscription.remove();
+    } else {
+      subscriptions.push(subscription);
+    }
+  } catch (error) {
+    console.warn('No heading source available:', error);
+  }
+}
+
+/** Seeds the declination from the last known fix so the compass is true-north corrected right away. */
+async function seedDeclination(provider: SensorProvider) {
+  try {
+    const position = await provider.getLastKnownPositionAsync();
+    if (position) setHeadingPosition(position.coords);
+  } catch {
+    // No permission or no fix yet; callers will provide positions as they arrive
+  }
+}
+
+async function start() {
+  const startedGeneration = generation;
+  const provider = getSensorProvider();
+  seedDeclination(provider);
+  const [hasMagnetometer, hasAccelerometer, hasGyroscope] = await Promise.all([
+    provider.magnetometer.isAvailableAsync(),
+    provider.accelerometer.isAvailableAsync(),
+    provider.gyroscope.isAvailableAsync(),
+  ]);
+  if (startedGeneration !== generation) return;
+
+  if (!hasMagnetometer) {
+    await startSystemHeading(provider, startedGeneration);
+    return;
+  }
+
+  const activeFilter = createHeadingFilter();
+  let up: Vector3 = { x: 0, y: 0, z: 1 };
+  interferenceMonitor.reset();
+
+  // Headings follow the displayed content as the screen rotates; simulated sessions are recorded in portrait
+  if (!provider.simulated) {
+    subscriptions.push(watchDisplayOrientation(activeFilter.setDisplayOrientation));
+  }
+
+  calibrationDrift = 0;
+  const unsubscribeCalibration = calibrationStore.subscribe(() => {
+    calibrationDrift = 0;
+    updateCalibrationStatus();
+  });
+  subscriptions.push({ remove: unsubscribeCalibration });
+  updateCalibrationStatus();
+
+  // Sampling follows the sensor rate setting, including changes while running
+  let sensorInterval = 0;
+  const applySensorInterval = () => {
+    const interval = settingsStore.getState().sensorInterval;
+    if (interval === sensorInterval) return;
+    sensorInterval = interval;
+    provider.magnetometer.setUpdateInterval(interval);
+    if (hasAccelerometer) provider.accelerometer.setUpdateInterval(interval);
+    if (hasGyroscope) provider.gyroscope.setUpdateInterval(interval / 2);
+  };
+  applySensorInterval();
+  subscriptions.push({ remove: settingsStore.subscribe(applySensorInterval) });
+
+  if (hasAccelerometer) {
+    subscriptions.push(
+      provider.accelerometer.addListener(({ x, y, z, timestamp }) => {
+        up = { x: x * ACCELEROMETER_SIGN, y: y * ACCELEROMETER_SIGN, z: z * ACCELEROMETER_SIGN };
+        streamListeners.forEach((listener) => listener({ sensor: 'accelerometer', ...up, timestamp }));
+        activeFilter.addAccelerometer(up, timestamp);
+        state = { ...state, accelerometer: { x, y, z } };
+      })
+    );
+  }
+
+  if (hasGyroscope) {
+    subscriptions.push(
+      provider.gyroscope.addListener(({ x, y, z, timestamp }) => {
+        streamListeners.forEach((listener) => listener({ sensor: 'gyroscope', x, y, z, timestamp }));
+        activeFilter.addGyroscope({ x, y, z }, timestamp);
+      })
+    );
+  }
+
+  subscriptions.push(
+    provider.magnetometer.addListener(({ x, y, z, timestamp }) => {
+      const raw = { x, y, z };
+      sampleListeners.forEach((listener) => listener(raw));
+      streamListeners.forEach((listener) => listener({ sensor: 'magnetometer', ...raw, timestamp }));
+
+      const calibration = activeCalibration();
+      const magnetometer = applyCalibration(raw, calibration);
+      activeFilter.addMagnetometer(magnetometer, timestamp);
+
+      let { needsCalibration } = state;
+      if (calibration) {
+        const deviation = vectorLength(magnetometer) / calibration.fieldStrength - 1;
+        calibrationDrift += DRIFT_SMOOTHING * (deviation - calibrationDrift);
+        needsCalibration = needsRecalibration(calibration) || Math.abs(calibrationDrift) > DRIFT_LIMIT;
+      }
+
+      interferenceMonitor.addSample(magnetometer, up);
+      const interference = interferenceMonitor.getStatus();
+      const { heading, confidence, ...estimate } = activeFilter.getEstimate();
+      const changes = { ...estimate, needsCalibration, interference, magnetometer, rawMagnetometer: raw };
+
+      // Stay on the GPS course until the field is clean again, so the source does not flap
+      const disturbed =
+        interference.level === 'interference' || (state.source === 'gps' && interference.level !== 'none');
+      const courseHeading = disturbed ? currentCourse() : null;
+      if (courseHeading !== null) {
+        setCourseHeading(courseHeading, { ...changes, confidence: COURSE_CONFIDENCE, source: 'gps' });
+      } else {
+        setMagneticHeading(heading, { ...changes, confidence: confidence * INTERFERENCE_CONFIDENCE[interference.level] });
+      }
+    })
+  );
+}
+
+function stop() {
+  subscriptions.forEach((subscription) => subscription.remove());
+  subscriptions = [];
+  state = INITIAL_STATE;
+  generation++;
+}
+
+// Switching between the device and a simulation restarts the sensors on the new provider
+subscribeSensorProvider(() => {
+  if (listeners.size === 0) return;
+  stop();
+  emit();
+  start().catch((error) => console.warn('Failed to start heading sensors:', error));
+});
+
+export function subscribeHeading(listener: () => void): () => void {
+  listeners.add(listener);
+  if (listeners.size === 1) {
+    start().catch((error) => console.warn('Failed to start heading sensors:', error));
+  }
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) stop();
+  };
+}
+
+export function getHeadingState(): HeadingState {
+  return state;
+}
+
+/**
+ * Streams uncalibrated magnetometer samples (µT), e.g. to collect a calibration run.
+ * Keeps the sensors running while subscribed.
+ */
+export function subscribeMagnetometerSamples(listener: (sample: Vector3) => void): () => void {
+  sampleListeners.add(listener);
+  const unsubscribe = subscribeHeading(() => {});
+  return () => {
+    sampleListeners.delete(listener);
+    unsubscribe();
+  };
+}
+
+/**
+ * Streams every sensor sample as it arrives, for diagnostics and recording. Accelerometer
+ * samples point up on every platform; magnetometer samples are uncalibrated (µT).
+ * Keeps the sensors running while subscribed.
+ */
+export function subscribeSensorSamples(listener: (sample: SensorSample) => void): () => void {
+  streamListeners.add(listener);
+  const unsubscribe = subscribeHeading(() => {});
+  return () => {
+    streamListeners.delete(listener);
+    unsubscribe();
+  };
+}
@@ -0,0 +1,2 @@
+/** Short, time-ordered id for locally created records; unique enough for one device. */
+export const generateId = () => `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
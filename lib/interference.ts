@@ -0,0 +1,140 @@
+/**
+ * Magnetic interference checks: how far the measured field strength and inclination are
+ * from what the World Magnetic Model predicts here. Cars, rebar and electronics add their
+ * own field, so a field well off the model means compass headings should not be trusted.
+ */
+
+import { toDegrees, type Coordinates } from '@/lib/geo';
+import { EARTH_FIELD_MAX, EARTH_FIELD_MIN, vectorLength, type Vector3 } from '@/lib/headingFilter';
+import { magneticField } from '@/lib/magneticModel';
+
+export type InterferenceLevel = 'none' | 'distorted' | 'interference';
+
+export const INTERFERENCE_LABELS: Record<InterferenceLevel, string> = {
+  none: 'FIELD OK',
+  distorted: 'FIELD DISTORTED',
+  interference: 'MAGNETIC INTERFERENCE',
+};
+
+/** Relative strength deviations at which the field counts as distorted, then unusable. */
+const DISTORTED_DEVIATION = 0.15;
+const INTERFERENCE_DEVIATION = 0.3;
+/** Inclination errors (°) at which the field counts as distorted, then unusable. */
+const DISTORTED_INCLINATION = 8;
+const INTERFERENCE_INCLINATION = 15;
+
+const SEVERITY: InterferenceLevel[] = ['none', 'distorted', 'interference'];
+
+export type ExpectedField = {
+  /** Total field strength, µT. */
+  strength: number;
+  /** Degrees below the horizontal, negative where the field points up. */
+  inclination: number;
+};
+
+/** The model's field at a position. */
+export function expectedField(position: Coordinates, date: Date = new Date()): ExpectedField {
+  const { totalIntensity, inclination } = magneticField(position, date);
+  return { strength: totalIntensity / 1000, inclination };
+}
+
+/** The model's total field strength at a position, in µT. */
+export function expectedFieldStrength(position: Coordinates, date: Date = new Date()): number {
+  return expectedField(position, date).strength;
+}
+
+/**
+ * Inclination of a field vector in degrees below the horizontal, given an up vector in
+ * the same frame. Returns null when either vector is degenerate.
+ */
+export function fieldInclination(magnetic: Vector3, up: Vector3): number | null {
+  const strength = vectorLength(magnetic);
+  const upLength = vectorLength(up);
+  if (strength < 1e-6 || upLength < 1e-6) return null;
+  const down = -(magnetic.x * up.x + magnetic.y * up.y + magnetic.z * up.z) / upLength;
+  return toDegrees(Math.asin(Math.min(1, Math.max(-1, down / strength))));
+}
+
+/**
+ * Relative deviation of a measured strength (µT) from the expected one. Without an
+ * expectation, only strengths outside the Earth's range count as deviating.
+ */
+export function fieldDeviation(strength: number, expected: number | null): number {
+  if (expected !== null) return strength / expected - 1;
+  if (strength < EARTH_FIELD_MIN) return strength / EARTH_FIELD_MIN - 1;
+  if (strength > EARTH_FIELD_MAX) return strength / EARTH_FIELD_MAX - 1;
+  return 0;
+}
+
+export function interferenceLevel(deviation: number): InterferenceLevel {
+  const size = Math.abs(deviation);
+  if (size >= INTERFERENCE_DEVIATION) return 'interference';
+  if (size >= DISTORTED_DEVIATION) return 'distorted';
+  return 'none';
+}
+
+export function inclinationLevel(error: number): InterferenceLevel {
+  const size = Math.abs(error);
+  if (size >= INTERFERENCE_INCLINATION) return 'interference';
+  if (size >= DISTORTED_INCLINATION) return 'distorted';
+  return 'none';
+}
+
+export type InterferenceStatus = {
+  level: InterferenceLevel;
+  /** Smoothed relative deviation of the field strength from the expected one. */
+  strengthDeviation: number;
+  /** Smoothed measured minus expected inclination (°), or null without a position. */
+  inclinationError: number | null;
+};
+
+export const NO_INTERFERENCE: InterferenceStatus = { level: 'none', strengthDeviation: 0, inclinationError: null };
+
+/**
+ * Tracks calibrated magnetometer samples against the expected field. Both checks are
+ * smoothed per sample (`smoothing` is the weight of the newest one) so that a single
+ * jolt of the accelerometer does not flag interference.
+ */
+export function createInterferenceMonitor({ smoothing = 0.2 }: { smoothing?: number } = {}) {
+  let expected: ExpectedField | null = null;
+  let strengthDeviation: number | null = null;
+  let inclinationError: number | null = null;
+
+  const smooth = (previous: number | null, value: number) =>
+    previous === null ? value : previous + smoothing * (value - previous);
+
+  /** Forgets the smoothed history, e.g. when the sensors restart. */
+  function reset() {
+    strengthDeviation = null;
+    inclinationError = null;
+  }
+
+  function setExpected(field: ExpectedField | null) {
+    expected = field;
+    reset();
+  }
+
+  function addSample(magnetic: Vector3, up: Vector3) {
+    strengthDeviation = smooth(strengthDeviation, fieldDeviation(vectorLength(magnetic), expected?.strength ?? null));
+    const inclination = expected ? fieldInclination(magnetic, up) : null;
+    if (expected && inclination !== null) {
+      inclinationError = smooth(inclinationError, inclination - expected.inclination);
+    }
+  }
+
+  function getStatus(): InterferenceStatus {
+    const levels = [
+      interferenceLevel(strengthDeviation ?? 0),
+      inclinationError === null ? 'none' : inclinationLevel(inclinationError),
+    ];
+    return {
+      level: SEVERITY[Math.max(...levels.map((level) => SEVERITY.indexOf(level)))],
+      strengthDeviation: strengthDeviation ?? 0,
+      inclinationError,
+    };
+  }
+
+  return { reset, setExpected, addSample, getStatus };
+}
+
+export type InterferenceMonitor = ReturnType<typeof createInterferenceMonitor>;
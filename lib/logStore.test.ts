@@ -0,0 +1,90 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import type { Cache } from '@/lib/cacheStore';
+import { addLog, difficultyBreakdown, findsPerDay, logStore, type CacheLog } from '@/lib/logStore';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const log = (id: string, cacheId: string, loggedAt: Date, type: CacheLog['type'] = 'found'): CacheLog => ({
+  id,
+  cacheId,
+  type,
+  loggedAt: loggedAt.toISOString(),
+  position: null,
+  notes: '',
+});
+
+describe('addLog', () => {
+  it('keeps earlier logs when saving before the store has loaded', async () => {
+    const earlier = [log('a', 'c1', new Date(2026, 0, 1, 10)), log('b', 'c2', new Date(2026, 0, 2, 10))];
+    await AsyncStorage.setItem('geocash.logs', JSON.stringify({ logs: earlier }));
+
+    // As from the log screen reached straight from the caches tab: nothing has read the logs yet
+    const added = addLog({ cacheId: 'c3', type: 'dnf', position: null, notes: 'Muggles' });
+    await logStore.hydrate();
+
+    expect(logStore.getState().logs).toEqual([...earlier, added]);
+    expect(JSON.parse((await AsyncStorage.getItem('geocash.logs'))!).logs).toEqual([...earlier, added]);
+  });
+});
+
+describe('findsPerDay', () => {
+  it('counts distinct caches found on each local day, oldest first', () => {
+    const logs = [
+      log('a', 'c2', new Date(2026, 2, 3, 9)),
+      log('b', 'c1', new Date(2026, 2, 1, 23, 30)),
+      log('c', 'c2', new Date(2026, 2, 2, 0, 30)),
+      log('d', 'c3', new Date(2026, 2, 2, 14)),
+      // A repeat find of the same cache on the same day
+      log('e', 'c3', new Date(2026, 2, 2, 16)),
+    ];
+    expect(findsPerDay(logs)).toEqual([
+      { day: '2026-03-01', finds: 1 },
+      { day: '2026-03-02', finds: 2 },
+      { day: '2026-03-03', finds: 1 },
+    ]);
+  });
+
+  it('ignores logs other than finds', () => {
+    const logs = [
+      log('a', 'c1', new Date(2026, 2, 1, 10), 'dnf'),
+      log('b', 'c2', new Date(2026, 2, 1, 11), 'maintenance'),
+      log('c', 'c3', new Date(2026, 2, 2, 10)),
+    ];
+    expect(findsPerDay(logs)).toEqual([{ day: '2026-03-02', finds: 1 }]);
+    expect(findsPerDay([])).toEqual([]);
+  });
+});
+
+describe('difficultyBreakdown', () => {
+  const cache = (id: string, difficulty: number): Cache => ({
+    id,
+    name: id,
+    coordinates: { latitude: 0, longitude: 0 },
+    difficulty,
+    hint: '',
+    createdAt: '2026-01-01T00:00:00.000Z',
+  });
+
+  it('counts each found cache once by its difficulty', () => {
+    const caches = [cache('c1', 1.5), cache('c2', 3), cache('c3', 1.5), cache('c4', 5)];
+    const logs = [
+      log('a', 'c1', new Date(2026, 2, 1)),
+      log('b', 'c1', new Date(2026, 2, 5)),
+      log('c', 'c2', new Date(2026, 2, 1)),
+      log('d', 'c3', new Date(2026, 2, 1)),
+      log('e', 'c4', new Date(2026, 2, 1), 'dnf'),
+    ];
+    expect([...difficultyBreakdown(logs, caches)]).toEqual([
+      [1.5, 2],
+      [3, 1],
+    ]);
+  });
+
+  it('leaves out caches deleted since they were found', () => {
+    const logs = [log('a', 'gone', new Date(2026, 2, 1)), log('b', 'c1', new Date(2026, 2, 1))];
+    expect([...difficultyBreakdown(logs, [cache('c1', 2)])]).toEqual([[2, 1]]);
+  });
+});
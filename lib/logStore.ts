@@ -0,0 +1,74 @@
+import type { Cache } from '@/lib/cacheStore';
+import type { Coordinates } from '@/lib/geo';
+import { generateId } from '@/lib/id';
+import { createPersistedStore } from '@/lib/persistedStore';
+
+export type LogType = 'found' | 'dnf' | 'maintenance';
+
+export const LOG_TYPES: { value: LogType; label: string }[] = [
+  { value: 'found', label: 'FOUND IT' },
+  { value: 'dnf', label: "DIDN'T FIND IT" },
+  { value: 'maintenance', label: 'NEEDS MAINTENANCE' },
+];
+
+export type CacheLog = {
+  id: string;
+  cacheId: string;
+  type: LogType;
+  /** ISO-8601 timestamp. */
+  loggedAt: string;
+  /** Where the user stood when logging, if a fix was available. */
+  position: (Coordinates & { accuracy: number | null }) | null;
+  notes: string;
+  /** file:// URI of a photo kept in the app's documents. */
+  photoUri?: string;
+};
+
+export type LogDraft = Omit<CacheLog, 'id' | 'loggedAt'>;
+
+export const logStore = createPersistedStore<{ logs: CacheLog[] }>('geocash.logs', { logs: [] });
+
+export function addLog(draft: LogDraft, loggedAt = new Date()): CacheLog {
+  const log: CacheLog = { ...draft, id: generateId(), loggedAt: loggedAt.toISOString() };
+  logStore.setState((prev) => ({ logs: [...prev.logs, log] }));
+  return log;
+}
+
+export function deleteLog(id: string) {
+  logStore.setState((prev) => ({ logs: prev.logs.filter((log) => log.id !== id) }));
+}
+
+/** A cache's logs, newest first. */
+export const logsForCache = (logs: CacheLog[], cacheId: string) =>
+  logs.filter((log) => log.cacheId === cacheId).sort((a, b) => b.loggedAt.localeCompare(a.loggedAt));
+
+/** Local calendar day of a log as `YYYY-MM-DD`. */
+export function logDay(log: CacheLog): string {
+  const date = new Date(log.loggedAt);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/** Distinct caches found per local day, oldest day first. Repeat finds of a cache count once a day. */
+export function findsPerDay(logs: CacheLog[]): { day: string; finds: number }[] {
+  const days = new Map<string, Set<string>>();
+  for (const log of logs) {
+    if (log.type !== 'found') continue;
+    const day = logDay(log);
+    days.set(day, (days.get(day) ?? new Set()).add(log.cacheId));
+  }
+  return [...days.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([day, caches]) => ({ day, finds: caches.size }));
+}
+
+/** Found caches counted by difficulty rating. Caches deleted since are left out. */
+export function difficultyBreakdown(logs: CacheLog[], caches: Cache[]): Map<number, number> {
+  const found = new Set(logs.filter((log) => log.type === 'found').map((log) => log.cacheId));
+  const breakdown = new Map<number, number>();
+  for (const cache of caches) {
+    if (found.has(cache.id)) breakdown.set(cache.difficulty, (breakdown.get(cache.difficulty) ?? 0) + 1);
+  }
+  return breakdown;
+}
@@ -0,0 +1,76 @@
+import { decimalYear, isModelValid, magneticDeclination, magneticField } from '@/lib/magneticModel';
+
+/** Date for a fractional year, the way the WMM test values give them. */
+const fromDecimalYear = (value: number) => {
+  const year = Math.floor(value);
+  const start = Date.UTC(year, 0, 1);
+  return new Date(start + (value - year) * (Date.UTC(year + 1, 0, 1) - start));
+};
+
+// Rows from NOAA's WMM2025 test values: decimal year, altitude (km), latitude, longitude,
+// north, east and down (nT), inclination and declination (degrees, rounded to 0.01)
+const TEST_VALUES = [
+  [2025.0, 28, 89, -121, -255.388723, -1482.460628, 56194.288771, 88.47, -99.77],
+  [2025.0, 18, 0, 21, 29274.811882, 659.800118, -14316.72254, -26.06, 1.29],
+  [2025.5, 6, -36, -137, 23781.930678, 8786.698927, -32577.518648, -52.11, 20.28],
+  [2025.5, 44, 33, -118, 23235.83585, 4558.379362, 37727.715752, 57.89, 11.1],
+  [2026.0, 82, -64, 87, 2007.07487, -13829.362571, -53663.514288, -75.4, -81.74],
+  [2026.5, 12, -79, 115, -9613.650418, -8785.714482, -58104.306533, -77.37, -137.58],
+  [2027.0, 67, 72, -115, 4883.287833, 1192.857435, 55689.615237, 84.84, 13.73],
+  [2028.5, 11, 34, 0, 29078.234597, 798.434048, 30945.577813, 46.77, 1.57],
+  [2029.5, 63, 88, 26, 2041.140972, 1511.567287, 55286.620082, 87.37, 36.52],
+  [2029.5, 77, -18, 138, 31751.49758, 2472.257962, -34817.395113, -47.55, 4.45],
+] as const;
+
+describe('magneticField', () => {
+  it.each(TEST_VALUES)(
+    'matches the WMM2025 test value for %d at %d km, %d°, %d°',
+    (year, altitude, latitude, longitude, north, east, down, inclination, declination) => {
+      const field = magneticField({ latitude, longitude }, fromDecimalYear(year), altitude * 1000);
+      expect(Math.abs(field.north - north)).toBeLessThan(1);
+      expect(Math.abs(field.east - east)).toBeLessThan(1);
+      expect(Math.abs(field.down - down)).toBeLessThan(1);
+      expect(Math.abs(field.inclination - inclination)).toBeLessThanOrEqual(0.005);
+      expect(Math.abs(field.declination - declination)).toBeLessThanOrEqual(0.005);
+    }
+  );
+
+  it('derives the intensities from the components', () => {
+    const field = magneticField({ latitude: 33, longitude: -118 }, fromDecimalYear(2025.5), 44000);
+    expect(field.horizontalIntensity).toBeCloseTo(Math.hypot(field.north, field.east), 6);
+    expect(field.totalIntensity).toBeCloseTo(Math.hypot(field.north, field.east, field.down), 6);
+  });
+
+  it('holds the field at the model bounds outside its validity', () => {
+    const position = { latitude: 33, longitude: -118 };
+    expect(magneticField(position, new Date(Date.UTC(2020, 0, 1)))).toEqual(
+      magneticField(position, new Date(Date.UTC(2025, 0, 1)))
+    );
+    expect(magneticField(position, new Date(Date.UTC(2035, 0, 1)))).toEqual(
+      magneticField(position, new Date(Date.UTC(2030, 0, 1)))
+    );
+  });
+});
+
+describe('magneticDeclination', () => {
+  it('is the declination of the field at sea level', () => {
+    const position = { latitude: 34, longitude: 0 };
+    const date = fromDecimalYear(2028.5);
+    expect(magneticDeclination(position, date)).toBe(magneticField(position, date).declination);
+  });
+});
+
+describe('decimalYear and isModelValid', () => {
+  it('counts the fraction of the UTC year', () => {
+    expect(decimalYear(new Date(Date.UTC(2026, 0, 1)))).toBe(2026);
+    expect(decimalYear(new Date(Date.UTC(2026, 6, 2, 12)))).toBeCloseTo(2026.5, 9);
+    expect(decimalYear(new Date(Date.UTC(2028, 6, 2)))).toBeCloseTo(2028.5, 9);
+  });
+
+  it('covers 2025.0 up to but not including 2030.0', () => {
+    expect(isModelValid(new Date(Date.UTC(2024, 11, 31, 23, 59)))).toBe(false);
+    expect(isModelValid(new Date(Date.UTC(2025, 0, 1)))).toBe(true);
+    expect(isModelValid(new Date(Date.UTC(2029, 11, 31, 23, 59)))).toBe(true);
+    expect(isModelValid(new Date(Date.UTC(2030, 0, 1)))).toBe(false);
+  });
+});
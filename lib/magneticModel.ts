@@ -0,0 +1,151 @@
+/**
+ * Offline evaluator for the World Magnetic Model: the expected geomagnetic field
+ * (and so the magnetic declination) for any position and date.
+ */
+
+import { toDegrees, toRadians, type Coordinates } from '@/lib/geo';
+import { WMM_COEFFICIENTS, WMM_EPOCH, WMM_VALID_UNTIL } from '@/lib/wmm2025';
+
+export type MagneticField = {
+  /** Angle of magnetic north east of true north, in degrees. */
+  declination: number;
+  /** Dip below the horizontal, in degrees (positive downward). */
+  inclination: number;
+  /** Field components in nT: north, east and down. */
+  north: number;
+  east: number;
+  down: number;
+  horizontalIntensity: number;
+  totalIntensity: number;
+};
+
+const MAX_DEGREE = 12;
+/** Geomagnetic reference radius, km. */
+const REFERENCE_RADIUS = 6371.2;
+/** WGS-84 semi-major axis, km, and first eccentricity squared. */
+const WGS84_A = 6378.137;
+const WGS84_E2 = 0.0066943799901413165;
+
+const triangle = () => Array.from({ length: MAX_DEGREE + 1 }, () => new Array<number>(MAX_DEGREE + 1).fill(0));
+
+/**
+ * Coefficients converted from Schmidt semi-normalized to Gauss-normalized form once,
+ * so the Legendre recursion below can stay unnormalized.
+ */
+const { g, h, gDot, hDot } = (() => {
+  const schmidt = triangle();
+  schmidt[0][0] = 1;
+  for (let n = 1; n <= MAX_DEGREE; n++) {
+    schmidt[n][0] = (schmidt[n - 1][0] * (2 * n - 1)) / n;
+    for (let m = 1; m <= n; m++) {
+      schmidt[n][m] = schmidt[n][m - 1] * Math.sqrt(((n - m + 1) * (m === 1 ? 2 : 1)) / (n + m));
+    }
+  }
+
+  const tables = { g: triangle(), h: triangle(), gDot: triangle(), hDot: triangle() };
+  for (const [n, m, gnm, hnm, gnmDot, hnmDot] of WMM_COEFFICIENTS) {
+    tables.g[n][m] = gnm * schmidt[n][m];
+    tables.h[n][m] = hnm * schmidt[n][m];
+    tables.gDot[n][m] = gnmDot * schmidt[n][m];
+    tables.hDot[n][m] = hnmDot * schmidt[n][m];
+  }
+  return tables;
+})();
+
+/** Date as a fractional year, e.g. 2026.5 for early July 2026. */
+export function decimalYear(date: Date): number {
+  const year = date.getUTCFullYear();
+  const start = Date.UTC(year, 0, 1);
+  const end = Date.UTC(year + 1, 0, 1);
+  return year + (date.getTime() - start) / (end - start);
+}
+
+export function isModelValid(date: Date): boolean {
+  const year = decimalYear(date);
+  return year >= WMM_EPOCH && year < WMM_VALID_UNTIL;
+}
+
+/**
+ * Evaluates the model at a position (altitude in meters above the ellipsoid) and date.
+ * Dates outside the model's validity are clamped to its bounds.
+ */
+export function magneticField(
+  coordinates: Coordinates,
+  date: Date = new Date(),
+  altitude = 0
+): MagneticField {
+  const dt = Math.min(Math.max(decimalYear(date), WMM_EPOCH), WMM_VALID_UNTIL) - WMM_EPOCH;
+
+  // Geodetic to geocentric spherical coordinates
+  const φ = toRadians(coordinates.latitude);
+  const λ = toRadians(coordinates.longitude);
+  const altitudeKm = altitude / 1000;
+  const primeVertical = WGS84_A / Math.sqrt(1 - WGS84_E2 * Math.sin(φ) ** 2);
+  const p = (primeVertical + altitudeKm) * Math.cos(φ);
+  const z = (primeVertical * (1 - WGS84_E2) + altitudeKm) * Math.sin(φ);
+  const r = Math.sqrt(p * p + z * z);
+  const φc = Math.asin(z / r);
+
+  const cosθ = Math.sin(φc);
+  // Keep the east component finite exactly at the poles
+  const sinθ = Math.max(Math.cos(φc), 1e-10);
+
+  // Gauss-normalized associated Legendre functions and their θ derivatives
+  const P = triangle();
+  const dP = triangle();
+  P[0][0] = 1;
+  for (let n = 1; n <= MAX_DEGREE; n++) {
+    for (let m = 0; m <= n; m++) {
+      if (n === m) {
+        P[n][m] = sinθ * P[n - 1][m - 1];
+        dP[n][m] = sinθ * dP[n - 1][m - 1] + cosθ * P[n - 1][m - 1];
+      } else if (n === 1) {
+        P[n][m] = cosθ * P[n - 1][m];
+        dP[n][m] = cosθ * dP[n - 1][m] - sinθ * P[n - 1][m];
+      } else {
+        const K = ((n - 1) ** 2 - m ** 2) / ((2 * n - 1) * (2 * n - 3));
+        P[n][m] = cosθ * P[n - 1][m] - K * P[n - 2][m];
+        dP[n][m] = cosθ * dP[n - 1][m] - sinθ * P[n - 1][m] - K * dP[n - 2][m];
+      }
+    }
+  }
+
+  let northGeocentric = 0;
+  let east = 0;
+  let downGeocentric = 0;
+  for (let n = 1; n <= MAX_DEGREE; n++) {
+    const radial = (REFERENCE_RADIUS / r) ** (n + 2);
+    for (let m = 0; m <= n; m++) {
+      const gnm = g[n][m] + dt * gDot[n][m];
+      const hnm = h[n][m] + dt * hDot[n][m];
+      const cosmλ = Math.cos(m * λ);
+      const sinmλ = Math.sin(m * λ);
+      const potential = gnm * cosmλ + hnm * sinmλ;
+
+      northGeocentric += radial * potential * dP[n][m];
+      east += (radial * m * (gnm * sinmλ - hnm * cosmλ) * P[n][m]) / sinθ;
+      downGeocentric -= radial * (n + 1) * potential * P[n][m];
+    }
+  }
+
+  // Rotate from geocentric back to the geodetic horizon
+  const ψ = φc - φ;
+  const north = northGeocentric * Math.cos(ψ) - downGeocentric * Math.sin(ψ);
+  const down = northGeocentric * Math.sin(ψ) + downGeocentric * Math.cos(ψ);
+  const horizontalIntensity = Math.sqrt(north * north + east * east);
+
+  return {
+    declination: toDegrees(Math.atan2(east, north)),
+    inclination: toDegrees(Math.atan2(down, horizontalIntensity)),
+    north,
+    east,
+    down,
+    horizontalIntensity,
+    totalIntensity: Math.sqrt(horizontalIntensity ** 2 + down ** 2),
+  };
+}
+
+/** Magnetic declination in degrees (east positive). Add it to a magnetic bearing to get true. */
+export function magneticDeclination(coordinates: Coordinates, date: Date = new Date()): number {
+  return magneticField(coordinates, date).declination;
+}
@@ -0,0 +1,122 @@
+import type { Vector3 } from '@/lib/headingFilter';
+import {
+  applyCalibration,
+  CalibrationError,
+  CALIBRATION_MIN_SAMPLES,
+  calibrationCoverage,
+  fitCalibration,
+  needsRecalibration,
+  type MagnetometerCalibration,
+} from '@/lib/magnetometerCalibration';
+
+const OFFSET: Vector3 = { x: 23.5, y: -41.2, z: 12.8 };
+const FIELD_STRENGTH = 48;
+const NOW = new Date('2026-03-01T12:00:00Z');
+
+const length = ({ x, y, z }: Vector3) => Math.hypot(x, y, z);
+
+/** Evenly spread unit directions (a Fibonacci sphere), optionally limited to z ≥ minZ. */
+function directions(count: number, minZ = -1): Vector3[] {
+  const golden = Math.PI * (3 - Math.sqrt(5));
+  return Array.from({ length: count }, (_, index) => {
+    const z = 1 - ((index + 0.5) / count) * (1 - minZ);
+    const radius = Math.sqrt(1 - z * z);
+    return { x: radius * Math.cos(golden * index), y: radius * Math.sin(golden * index), z };
+  });
+}
+
+/** Synthetic raw readings: a field sphere stretched per axis and shifted by a hard-iron offset. */
+const readings = (units: Vector3[], scale: Vector3 = { x: 1, y: 1, z: 1 }, offset = OFFSET) =>
+  units.map(({ x, y, z }) => ({
+    x: x * FIELD_STRENGTH * scale.x + offset.x,
+    y: y * FIELD_STRENGTH * scale.y + offset.y,
+    z: z * FIELD_STRENGTH * scale.z + offset.z,
+  }));
+
+const fitError = (samples: Vector3[]) => {
+  try {
+    fitCalibration(samples, NOW);
+  } catch (error) {
+    expect(error).toBeInstanceOf(CalibrationError);
+    return (error as Error).message;
+  }
+  throw new Error('The fit succeeded');
+};
+
+describe('fitCalibration', () => {
+  it('recovers the offset and field strength of an offset sphere', () => {
+    const calibration = fitCalibration(readings(directions(300)), NOW);
+    expect(calibration.offset.x).toBeCloseTo(OFFSET.x, 6);
+    expect(calibration.offset.y).toBeCloseTo(OFFSET.y, 6);
+    expect(calibration.offset.z).toBeCloseTo(OFFSET.z, 6);
+    expect(calibration.fieldStrength).toBeCloseTo(FIELD_STRENGTH, 6);
+    expect(calibration.quality).toBeGreaterThan(0.99);
+    expect(calibration).toMatchObject({ sampleCount: 300, calibratedAt: NOW.toISOString() });
+  });
+
+  it('maps a scaled ellipsoid back onto a sphere of the mean strength', () => {
+    // Volume-preserving stretch, so the geometric-mean radius is the field strength
+    const scale = { x: 1.25, y: 0.9, z: 1 / (1.25 * 0.9) };
+    const samples = readings(directions(300), scale);
+    const calibration = fitCalibration(samples, NOW);
+
+    expect(calibration.offset.x).toBeCloseTo(OFFSET.x, 6);
+    expect(calibration.offset.y).toBeCloseTo(OFFSET.y, 6);
+    expect(calibration.offset.z).toBeCloseTo(OFFSET.z, 6);
+    expect(calibration.fieldStrength).toBeCloseTo(FIELD_STRENGTH, 6);
+    for (const sample of samples) {
+      expect(length(applyCalibration(sample, calibration))).toBeCloseTo(FIELD_STRENGTH, 6);
+    }
+  });
+
+  it('fits only the offset when the samples cover too few directions', () => {
+    const calibration = fitCalibration(readings(directions(200, 0.6)), NOW);
+    expect(calibration.softIron).toEqual([
+      [1, 0, 0],
+      [0, 1, 0],
+      [0, 0, 1],
+    ]);
+    expect(calibration.offset.z).toBeCloseTo(OFFSET.z, 6);
+    expect(calibration.fieldStrength).toBeCloseTo(FIELD_STRENGTH, 6);
+    expect(calibration.coverage).toBeLessThan(0.5);
+  });
+
+  it('rejects too few samples', () => {
+    expect(fitError(readings(directions(CALIBRATION_MIN_SAMPLES - 1)))).toBe(
+      `Need at least ${CALIBRATION_MIN_SAMPLES} samples, got ${CALIBRATION_MIN_SAMPLES - 1}`
+    );
+  });
+
+  it('rejects readings that never change', () => {
+    expect(fitError(Array.from({ length: CALIBRATION_MIN_SAMPLES }, () => ({ ...OFFSET })))).toBe(
+      'The readings did not change; rotate the device while calibrating'
+    );
+  });
+
+  it('rejects coplanar samples from turning the device flat on a table', () => {
+    const circle = Array.from({ length: CALIBRATION_MIN_SAMPLES }, (_, index) => {
+      const angle = (2 * Math.PI * index) / CALIBRATION_MIN_SAMPLES;
+      return { x: Math.cos(angle), y: Math.sin(angle), z: 0 };
+    });
+    expect(fitError(readings(circle))).toBe('Could not fit the readings; rotate the device through more directions');
+  });
+});
+
+describe('calibrationCoverage', () => {
+  it('is the share of direction bins with a sample', () => {
+    expect(calibrationCoverage(readings(directions(300)), OFFSET)).toBe(1);
+    expect(calibrationCoverage(readings(directions(300, 0)), OFFSET)).toBe(0.5);
+    expect(calibrationCoverage([], OFFSET)).toBe(0);
+  });
+});
+
+describe('needsRecalibration', () => {
+  const calibration = { quality: 0.9, calibratedAt: '2026-02-20T12:00:00Z' } as MagnetometerCalibration;
+
+  it('asks for a calibration when there is none, it is poor or it is old', () => {
+    expect(needsRecalibration(null, NOW)).toBe(true);
+    expect(needsRecalibration(calibration, NOW)).toBe(false);
+    expect(needsRecalibration({ ...calibration, quality: 0.3 }, NOW)).toBe(true);
+    expect(needsRecalibration({ ...calibration, calibratedAt: '2026-01-01T12:00:00Z' }, NOW)).toBe(true);
+  });
+});
@@ -0,0 +1,304 @@
+/**
+ * Magnetometer calibration: fits hard-iron offsets and a soft-iron correction to
+ * samples collected while the device is waved through a figure-eight, so that
+ * corrected readings lie on a sphere centred on the origin.
+ */
+
+import { clamp01, fieldStrengthScore, vectorLength, type Vector3 } from '@/lib/headingFilter';
+
+/** Row-major 3×3 matrix. */
+export type Matrix3 = number[][];
+
+export type MagnetometerCalibration = {
+  /** Hard-iron offset in µT, subtracted from raw readings. */
+  offset: Vector3;
+  /** Soft-iron correction applied after the offset; volume-preserving. */
+  softIron: Matrix3;
+  /** Radius of the corrected field sphere in µT. */
+  fieldStrength: number;
+  /** 0 (useless) to 1 (excellent). */
+  quality: number;
+  /** Fraction of directions covered by the samples, 0 to 1. */
+  coverage: number;
+  sampleCount: number;
+  /** ISO timestamp. */
+  calibratedAt: string;
+};
+
+export class CalibrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CalibrationError';
+  }
+}
+
+export const CALIBRATION_MIN_SAMPLES = 150;
+/** Coverage at which a calibration run has seen enough orientations to finish. */
+export const CALIBRATION_TARGET_COVERAGE = 0.7;
+/** Below this quality the user is asked to recalibrate. */
+export const CALIBRATION_MIN_QUALITY = 0.5;
+/** Sensor offsets drift with temperature and nearby magnetised parts; refresh monthly. */
+const CALIBRATION_MAX_AGE = 30 * 24 * 60 * 60 * 1000;
+/** Below this coverage the full ellipsoid is poorly constrained, so only the offset is fitted. */
+const ELLIPSOID_MIN_COVERAGE = 0.5;
+
+/** Equal-area direction bins: 8 longitude sectors in each of 4 bands of equal height. */
+const AZIMUTH_BINS = 8;
+const HEIGHT_BINS = 4;
+
+const IDENTITY: Matrix3 = [
+  [1, 0, 0],
+  [0, 1, 0],
+  [0, 0, 1],
+];
+
+const subtract = (a: Vector3, b: Vector3): Vector3 => ({ x: a.x - b.x, y: a.y - b.y, z: a.z - b.z });
+
+const multiply = (matrix: Matrix3, { x, y, z }: Vector3): Vector3 => ({
+  x: matrix[0][0] * x + matrix[0][1] * y + matrix[0][2] * z,
+  y: matrix[1][0] * x + matrix[1][1] * y + matrix[1][2] * z,
+  z: matrix[2][0] * x + matrix[2][1] * y + matrix[2][2] * z,
+});
+
+/** Solves `A x = b` by Gaussian elimination with partial pivoting; null if singular. */
+function solve(A: number[][], b: number[]): number[] | null {
+  const n = b.length;
+  const rows = A.map((row, i) => [...row, b[i]]);
+  for (let column = 0; column < n; column++) {
+    let pivot = column;
+    for (let row = column + 1; row < n; row++) {
+      if (Math.abs(rows[row][column]) > Math.abs(rows[pivot][column])) pivot = row;
+    }
+    if (Math.abs(rows[pivot][column]) < 1e-12) return null;
+    [rows[column], rows[pivot]] = [rows[pivot], rows[column]];
+
+    for (let row = column + 1; row < n; row++) {
+      const factor = rows[row][column] / rows[column][column];
+      for (let k = column; k <= n; k++) rows[row][k] -= factor * rows[column][k];
+    }
+  }
+
+  const x = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = rows[row][n];
+    for (let k = row + 1; k < n; k++) sum -= rows[row][k] * x[k];
+    x[row] = sum / rows[row][row];
+  }
+  return x;
+}
+
+/** Least-squares solution of an overdetermined system given row by row. */
+function leastSquares(rows: number[][], targets: number[]): number[] | null {
+  const n = rows[0].length;
+  const normal = Array.from({ length: n }, () => new Array<number>(n).fill(0));
+  const rhs = new Array<number>(n).fill(0);
+  rows.forEach((row, index) => {
+    for (let i = 0; i < n; i++) {
+      rhs[i] += row[i] * targets[index];
+      for (let j = 0; j < n; j++) normal[i][j] += row[i] * row[j];
+    }
+  });
+  return solve(normal, rhs);
+}
+
+/** Eigen-decomposition of a symmetric 3×3 matrix by Jacobi rotations. */
+function symmetricEigen(matrix: Matrix3): { values: number[]; vectors: Matrix3 } {
+  const a = matrix.map((row) => [...row]);
+  const v = IDENTITY.map((row) => [...row]);
+
+  for (let sweep = 0; sweep < 50; sweep++) {
+    const offDiagonal = a[0][1] ** 2 + a[0][2] ** 2 + a[1][2] ** 2;
+    if (offDiagonal < 1e-20) break;
+
+    for (const [p, q] of [[0, 1], [0, 2], [1, 2]]) {
+      if (Math.abs(a[p][q]) < 1e-15) continue;
+      const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+      const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+      const c = 1 / Math.sqrt(t * t + 1);
+      const s = t * c;
+
+      for (let k = 0; k < 3; k++) {
+        const akp = a[k][p];
+        const akq = a[k][q];
+        a[k][p] = c * akp - s * akq;
+        a[k][q] = s * akp + c * akq;
+      }
+      for (let k = 0; k < 3; k++) {
+        const apk = a[p][k];
+        const aqk = a[q][k];
+        a[p][k] = c * apk - s * aqk;
+        a[q][k] = s * apk + c * aqk;
+      }
+      for (let k = 0; k < 3; k++) {
+        const vkp = v[k][p];
+        const vkq = v[k][q];
+        v[k][p] = c * vkp - s * vkq;
+        v[k][q] = s * vkp + c * vkq;
+      }
+    }
+  }
+
+  return { values: [a[0][0], a[1][1], a[2][2]], vectors: v };
+}
+
+/** Fits `|p - c|² = r²`. */
+function fitSphere(points: Vector3[]): { center: Vector3; radius: number } | null {
+  const solution = leastSquares(
+    points.map(({ x, y, z }) => [2 * x, 2 * y, 2 * z, 1]),
+    points.map(({ x, y, z }) => x * x + y * y + z * z)
+  );
+  if (!solution) return null;
+
+  const [cx, cy, cz, k] = solution;
+  const radiusSquared = k + cx * cx + cy * cy + cz * cz;
+  if (radiusSquared <= 0) return null;
+  return { center: { x: cx, y: cy, z: cz }, radius: Math.sqrt(radiusSquared) };
+}
+
+/**
+ * Fits a general ellipsoid `(p - c)ᵀ M (p - c) = 1` and returns its centre with the
+ * volume-preserving matrix that maps it onto a sphere. Null if the fit is not an ellipsoid.
+ */
+function fitEllipsoid(points: Vector3[]): { center: Vector3; softIron: Matrix3; radius: number } | null {
+  const solution = leastSquares(
+    points.map(({ x, y, z }) => [x * x, y * y, z * z, 2 * x * y, 2 * x * z, 2 * y * z, 2 * x, 2 * y, 2 * z]),
+    points.map(() => 1)
+  );
+  if (!solution) return null;
+
+  const [a, b, c, d, e, f, g, h, i] = solution;
+  const A: Matrix3 = [
+    [a, d, e],
+    [d, b, f],
+    [e, f, c],
+  ];
+  const centerArray = solve(A, [-g, -h, -i]);
+  if (!centerArray) return null;
+  const center = { x: centerArray[0], y: centerArray[1], z: centerArray[2] };
+
+  const { x: cx, y: cy, z: cz } = multiply(A, center);
+  const scale = 1 + center.x * cx + center.y * cy + center.z * cz;
+  const { values, vectors } = symmetricEigen(A.map((row) => row.map((value) => value / scale)));
+  if (values.some((value) => !(value > 0))) return null;
+
+  // Geometric-mean radius keeps the corrected field at the sensor's overall strength
+  const radius = Math.pow(values[0] * values[1] * values[2], -1 / 6);
+  const roots = values.map((value) => Math.sqrt(value) * radius);
+  const softIron = [0, 1, 2].map((row) =>
+    [0, 1, 2].map((column) => roots.reduce((sum, root, k) => sum + vectors[row][k] * root * vectors[column][k], 0))
+  );
+  return { center, softIron, radius };
+}
+
+/** Hard-iron estimate from the midpoint of each axis' range; cheap enough for live progress. */
+export function estimateOffset(samples: Vector3[]): Vector3 {
+  if (samples.length === 0) return { x: 0, y: 0, z: 0 };
+  const axis = (key: keyof Vector3) => {
+    const values = samples.map((sample) => sample[key]);
+    return (Math.min(...values) + Math.max(...values)) / 2;
+  };
+  return { x: axis('x'), y: axis('y'), z: axis('z') };
+}
+
+/** Fraction of equal-area direction bins, seen from `offset`, that contain a sample. */
+export function calibrationCoverage(samples: Vector3[], offset: Vector3 = estimateOffset(samples)): number {
+  const bins = new Set<number>();
+  for (const sample of samples) {
+    const direction = subtract(sample, offset);
+    const length = vectorLength(direction);
+    if (length < 1e-6) continue;
+
+    const height = Math.min(HEIGHT_BINS - 1, Math.floor(((direction.z / length + 1) / 2) * HEIGHT_BINS));
+    const azimuth = Math.floor(((Math.atan2(direction.y, direction.x) + Math.PI) / (2 * Math.PI)) * AZIMUTH_BINS);
+    bins.add(height * AZIMUTH_BINS + Math.min(AZIMUTH_BINS - 1, azimuth));
+  }
+  return bins.size / (AZIMUTH_BINS * HEIGHT_BINS);
+}
+
+/** Corrects a raw magnetometer reading. */
+export function applyCalibration(
+  sample: Vector3,
+  calibration: Pick<MagnetometerCalibration, 'offset' | 'softIron'> | null
+): Vector3 {
+  if (!calibration) return sample;
+  return multiply(calibration.softIron, subtract(sample, calibration.offset));
+}
+
+/**
+ * Fits a calibration to raw samples (µT). Uses the full ellipsoid when the samples cover
+ * enough directions, otherwise only the hard-iron offset.
+ */
+export function fitCalibration(samples: Vector3[], now: Date = new Date()): MagnetometerCalibration {
+  if (samples.length < CALIBRATION_MIN_SAMPLES) {
+    throw new CalibrationError(`Need at least ${CALIBRATION_MIN_SAMPLES} samples, got ${samples.length}`);
+  }
+
+  // Centre and scale the samples so the normal equations stay well conditioned
+  const mean = {
+    x: samples.reduce((sum, { x }) => sum + x, 0) / samples.length,
+    y: samples.reduce((sum, { y }) => sum + y, 0) / samples.length,
+    z: samples.reduce((sum, { z }) => sum + z, 0) / samples.length,
+  };
+  const spread = Math.sqrt(
+    samples.reduce((sum, sample) => sum + vectorLength(subtract(sample, mean)) ** 2, 0) / samples.length
+  );
+  if (spread < 1e-6) {
+    throw new CalibrationError('The readings did not change; rotate the device while calibrating');
+  }
+  const normalized = samples.map((sample) => {
+    const { x, y, z } = subtract(sample, mean);
+    return { x: x / spread, y: y / spread, z: z / spread };
+  });
+
+  const sphere = fitSphere(normalized);
+  if (!sphere) {
+    throw new CalibrationError('Could not fit the readings; rotate the device through more directions');
+  }
+  const toRaw = (center: Vector3): Vector3 => ({
+    x: mean.x + center.x * spread,
+    y: mean.y + center.y * spread,
+    z: mean.z + center.z * spread,
+  });
+
+  let offset = toRaw(sphere.center);
+  let softIron = IDENTITY;
+  let fieldStrength = sphere.radius * spread;
+
+  if (calibrationCoverage(samples, offset) >= ELLIPSOID_MIN_COVERAGE) {
+    const ellipsoid = fitEllipsoid(normalized);
+    if (ellipsoid) {
+      offset = toRaw(ellipsoid.center);
+      softIron = ellipsoid.softIron;
+      fieldStrength = ellipsoid.radius * spread;
+    }
+  }
+
+  const corrected = samples.map((sample) => applyCalibration(sample, { offset, softIron }));
+  const residual = Math.sqrt(
+    corrected.reduce((sum, sample) => sum + (vectorLength(sample) - fieldStrength) ** 2, 0) / corrected.length
+  );
+  const coverage = calibrationCoverage(corrected, { x: 0, y: 0, z: 0 });
+
+  const fitScore = clamp01(1 - residual / fieldStrength / 0.1);
+  const coverageScore = clamp01(coverage / CALIBRATION_TARGET_COVERAGE);
+  const strengthScore = fieldStrengthScore(fieldStrength);
+
+  return {
+    offset,
+    softIron,
+    fieldStrength,
+    quality: fitScore * coverageScore * strengthScore,
+    coverage,
+    sampleCount: samples.length,
+    calibratedAt: now.toISOString(),
+  };
+}
+
+/** Whether a stored calibration is missing, poor or too old to trust. */
+export function needsRecalibration(calibration: MagnetometerCalibration | null, now: Date = new Date()): boolean {
+  if (!calibration) return true;
+  return (
+    calibration.quality < CALIBRATION_MIN_QUALITY ||
+    now.getTime() - new Date(calibration.calibratedAt).getTime() > CALIBRATION_MAX_AGE
+  );
+}
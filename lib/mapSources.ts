@@ -0,0 +1,217 @@
+/**
+ * Offline raster tile sources for the map: an imported MBTiles file, or a
+ * pre-downloaded `{z}/{x}/{y}` tile directory in the app's documents.
+ */
+
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import * as SQLite from 'expo-sqlite';
+
+import { bytesToBase64 } from '@/lib/base64';
+import { createPersistedStore } from '@/lib/persistedStore';
+
+type TileRange = {
+  name: string;
+  minZoom: number;
+  maxZoom: number;
+};
+
+export type MapSource =
+  | (TileRange & { kind: 'mbtiles'; fileName: string; format: string })
+  | (TileRange & { kind: 'directory'; uri: string; extension: string });
+
+export class MapSourceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MapSourceError';
+  }
+}
+
+/** Where a pre-downloaded tile tree is expected, or null where there is no file system (web). */
+export const TILE_DIRECTORY = FileSystem.documentDirectory ? `${FileSystem.documentDirectory}tiles/` : null;
+const MBTILES_DIRECTORY = FileSystem.documentDirectory ? `${FileSystem.documentDirectory}maps/` : null;
+
+const RASTER_FORMATS = ['png', 'jpg', 'jpeg', 'webp'];
+/** Decoded MBTiles tiles kept in memory as data URIs. */
+const TILE_CACHE_SIZE = 200;
+
+export const mapStore = createPersistedStore<{ source: MapSource | null }>('geocash.map', { source: null });
+
+const databases = new Map<string, Promise<SQLite.SQLiteDatabase>>();
+const tileCache = new Map<string, string | null>();
+
+/** expo-sqlite wants a plain path rather than a file:// URI. */
+const toPath = (uri: string) => decodeURI(uri.replace(/^file:\/\//, ''));
+
+function openMbtiles(fileName: string): Promise<SQLite.SQLiteDatabase> {
+  let database = databases.get(fileName);
+  if (!database) {
+    database = SQLite.openDatabaseAsync(fileName, undefined, toPath(MBTILES_DIRECTORY ?? ''));
+    databases.set(fileName, database);
+    database.catch(() => databases.delete(fileName));
+  }
+  return database;
+}
+
+async function closeMbtiles(fileName: string) {
+  const database = databases.get(fileName);
+  databases.delete(fileName);
+  await database?.then((db) => db.closeAsync()).catch(() => {});
+}
+
+async function readMbtilesMetadata(fileName: string, fallbackName: string): Promise<MapSource> {
+  let metadata: Record<string, string>;
+  let zoomRange: { minZoom: number | null; maxZoom: number | null } | null;
+  try {
+    const database = await openMbtiles(fileName);
+    const rows = await database.getAllAsync<{ name: string; value: string }>('SELECT name, value FROM metadata');
+    metadata = Object.fromEntries(rows.map(({ name, value }) => [name, value]));
+    zoomRange = await database.getFirstAsync<{ minZoom: number | null; maxZoom: number | null }>(
+      'SELECT MIN(zoom_level) AS minZoom, MAX(zoom_level) AS maxZoom FROM tiles'
+    );
+  } catch (error) {
+    throw new MapSourceError(`Not a valid MBTiles file: ${(error as Error).message}`);
+  }
+
+  const format = (metadata.format ?? 'png').toLowerCase();
+  if (!RASTER_FORMATS.includes(format)) {
+    throw new MapSourceError(`Only raster MBTiles are supported, this file contains ${format} tiles`);
+  }
+  if (zoomRange?.minZoom == null || zoomRange.maxZoom == null) {
+    throw new MapSourceError('The MBTiles file contains no tiles');
+  }
+
+  return {
+    kind: 'mbtiles',
+    name: metadata.name || fallbackName,
+    fileName,
+    format,
+    minZoom: zoomRange.minZoom,
+    maxZoom: zoomRange.maxZoom,
+  };
+}
+
+/**
+ * Lets the user pick an .mbtiles file, moves it into the app's documents and makes it
+ * the active map. Resolves to null when the picker is cancelled.
+ */
+export async function importMbtilesAsync(): Promise<MapSource | null> {
+  if (!MBTILES_DIRECTORY) {
+    throw new MapSourceError('Offline maps are not available on this platform');
+  }
+
+  const result = await DocumentPicker.getDocumentAsync({ type: '*/*', copyToCacheDirectory: true });
+  if (result.canceled) return null;
+
+  const [asset] = result.assets;
+  if (!/\.mbtiles$/i.test(asset.name)) {
+    throw new MapSourceError(`${asset.name} is not an MBTiles file`);
+  }
+
+  const fileName = asset.name.replace(/[^\w.-]/g, '_');
+  const uri = `${MBTILES_DIRECTORY}${fileName}`;
+  await FileSystem.makeDirectoryAsync(MBTILES_DIRECTORY, { intermediates: true });
+  await closeMbtiles(fileName);
+  await FileSystem.deleteAsync(uri, { idempotent: true });
+  await FileSystem.moveAsync({ from: asset.uri, to: uri });
+
+  try {
+    const source = await readMbtilesMetadata(fileName, asset.name.replace(/\.mbtiles$/i, ''));
+    await setMapSource(source);
+    return source;
+  } catch (error) {
+    await closeMbtiles(fileName);
+    await FileSystem.deleteAsync(uri, { idempotent: true });
+    throw error;
+  }
+}
+
+const numericEntries = async (uri: string) =>
+  (await FileSystem.readDirectoryAsync(uri)).filter((entry) => /^\d+$/.test(entry)).map(Number);
+
+/** Scans TILE_DIRECTORY for a `{z}/{x}/{y}.{ext}` tree and makes it the active map. */
+export async function loadTileDirectoryAsync(): Promise<MapSource> {
+  if (!TILE_DIRECTORY) {
+    throw new MapSourceError('Offline maps are not available on this platform');
+  }
+
+  const missing = new MapSourceError(`No tiles found. Copy a {z}/{x}/{y}.png tile tree to ${TILE_DIRECTORY}`);
+  const info = await FileSystem.getInfoAsync(TILE_DIRECTORY);
+  if (!info.exists || !info.isDirectory) throw missing;
+
+  const zooms = await numericEntries(TILE_DIRECTORY);
+  if (zooms.length === 0) throw missing;
+  const minZoom = Math.min(...zooms);
+
+  // Sample one column of the shallowest level to learn the image format
+  const [column] = await numericEntries(`${TILE_DIRECTORY}${minZoom}/`);
+  const tiles =
+    column === undefined ? [] : await FileSystem.readDirectoryAsync(`${TILE_DIRECTORY}${minZoom}/${column}/`);
+  const extension = tiles
+    .map((tile) => tile.split('.').pop()?.toLowerCase() ?? '')
+    .find((candidate) => RASTER_FORMATS.includes(candidate));
+  if (!extension) throw missing;
+
+  const source: MapSource = {
+    kind: 'directory',
+    name: 'Tile folder',
+    uri: TILE_DIRECTORY,
+    extension,
+    minZoom,
+    maxZoom: Math.max(...zooms),
+  };
+  await setMapSource(source);
+  return source;
+}
+
+async function setMapSource(source: MapSource | null) {
+  const previous = mapStore.getState().source;
+  mapStore.setState({ source });
+  tileCache.clear();
+
+  // An imported file is owned by the app, so drop it once it is replaced
+  if (previous?.kind === 'mbtiles' && !(source?.kind === 'mbtiles' && source.fileName === previous.fileName)) {
+    await closeMbtiles(previous.fileName);
+    await FileSystem.deleteAsync(`${MBTILES_DIRECTORY}${previous.fileName}`, { idempotent: true });
+  }
+}
+
+export function clearMapSource(): Promise<void> {
+  return setMapSource(null);
+}
+
+/**
+ * Image URI for a tile in XYZ addressing, or null if the source does not have it.
+ * Directory tiles are not checked for existence; a missing file simply fails to load.
+ */
+export async function getTileUriAsync(source: MapSource, z: number, x: number, y: number): Promise<string | null> {
+  if (source.kind === 'directory') {
+    return `${source.uri}${z}/${x}/${y}.${source.extension}`;
+  }
+
+  const key = `${source.fileName}/${z}/${x}/${y}`;
+  if (tileCache.has(key)) {
+    const cached = tileCache.get(key) ?? null;
+    // Re-insert to keep the Map in least-recently-used order
+    tileCache.delete(key);
+    tileCache.set(key, cached);
+    return cached;
+  }
+
+  const database = await openMbtiles(source.fileName);
+  // MBTiles rows count from the south (TMS), XYZ from the north
+  const row = await database.getFirstAsync<{ tile_data: Uint8Array }>(
+    'SELECT tile_data FROM tiles WHERE zoom_level = ? AND tile_column = ? AND tile_row = ?',
+    z,
+    x,
+    Math.pow(2, z) - 1 - y
+  );
+  const mime = source.format === 'jpg' ? 'jpeg' : source.format;
+  const uri = row ? `data:image/${mime};base64,${bytesToBase64(row.tile_data)}` : null;
+
+  tileCache.set(key, uri);
+  if (tileCache.size > TILE_CACHE_SIZE) {
+    tileCache.delete(tileCache.keys().next().value as string);
+  }
+  return uri;
+}
@@ -0,0 +1,99 @@
+import type { Cache, CacheStage, MultiCache } from '@/lib/cacheStore';
+import { cacheDestination, currentStageIndex, isMultiCache, resolveStage } from '@/lib/multiCache';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const stage = (name: string, coordinates: string, found = false): CacheStage => ({
+  id: name,
+  name,
+  coordinates,
+  hint: '',
+  found,
+});
+
+const cache = (changes: Partial<Cache> = {}): Cache => ({
+  id: 'c1',
+  name: 'Bridge Multi',
+  coordinates: { latitude: 37.8, longitude: -122.4 },
+  difficulty: 2,
+  hint: '',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  ...changes,
+});
+
+const multi = (stages: CacheStage[], variables?: Cache['variables']) =>
+  cache({ stages, variables }) as MultiCache;
+
+const STAGES = [
+  stage('Stage 1', "N 37° 46.494' W 122° 25.164'"),
+  stage('Stage 2', "N 37° 4A.B(C+2)' W 122° 25.164'"),
+  stage('Final', "N 37° 4A.(B*C)00' W 122° 2D.000'"),
+];
+
+describe('isMultiCache', () => {
+  it('needs at least one stage', () => {
+    expect(isMultiCache(cache())).toBe(false);
+    expect(isMultiCache(cache({ stages: [] }))).toBe(false);
+    expect(isMultiCache(multi(STAGES))).toBe(true);
+    expect(isMultiCache(null)).toBe(false);
+  });
+});
+
+describe('currentStageIndex', () => {
+  it('is the first stage not yet found', () => {
+    expect(currentStageIndex(multi(STAGES))).toBe(0);
+    expect(currentStageIndex(multi([{ ...STAGES[0], found: true }, STAGES[1], STAGES[2]]))).toBe(1);
+  });
+
+  it('skips over stages found out of order', () => {
+    expect(currentStageIndex(multi([STAGES[0], { ...STAGES[1], found: true }, STAGES[2]]))).toBe(0);
+  });
+
+  it('is null once every stage is found', () => {
+    expect(currentStageIndex(multi(STAGES.map((item) => ({ ...item, found: true }))))).toBeNull();
+  });
+});
+
+describe('resolveStage', () => {
+  it('reports the error and the missing variables of an unresolved formula', () => {
+    expect(resolveStage(STAGES[1], { A: 5 })).toEqual({
+      error: 'Enter a value for B, C',
+      missing: ['B', 'C'],
+    });
+  });
+
+  it('resolves once every variable is known', () => {
+    expect(resolveStage(STAGES[1], { A: 5, B: 3, C: 1 }).coordinates?.latitude).toBeCloseTo(37 + 45.33 / 60, 9);
+  });
+});
+
+describe('cacheDestination', () => {
+  it('is the listed coordinates for a single cache', () => {
+    expect(cacheDestination(cache())).toEqual({ coordinates: cache().coordinates, name: 'Bridge Multi' });
+  });
+
+  it('is the first unfound stage of a multi-cache', () => {
+    const destination = cacheDestination(multi(STAGES));
+    expect(destination?.name).toBe('Bridge Multi · Stage 1');
+    expect(destination?.coordinates.latitude).toBeCloseTo(37.7749, 6);
+  });
+
+  it('is null while the current stage needs variables', () => {
+    const stages = [{ ...STAGES[0], found: true }, STAGES[1], STAGES[2]];
+    expect(cacheDestination(multi(stages, { A: 5 }))).toBeNull();
+
+    const destination = cacheDestination(multi(stages, { A: 5, B: 3, C: 1 }));
+    expect(destination?.name).toBe('Bridge Multi · Stage 2');
+    expect(destination?.coordinates.latitude).toBeCloseTo(37 + 45.33 / 60, 9);
+  });
+
+  it('stays on the final once every stage is found', () => {
+    const stages = STAGES.map((item) => ({ ...item, found: true }));
+    const destination = cacheDestination(multi(stages, { A: 5, B: 3, C: 2, D: 4 }));
+    expect(destination?.name).toBe('Bridge Multi · Final');
+    expect(destination?.coordinates.latitude).toBeCloseTo(37 + 45.6 / 60, 9);
+    expect(destination?.coordinates.longitude).toBeCloseTo(-(122 + 24 / 60), 9);
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Multi-stage caches: an ordered list of stages, each found in turn, where later
+ * stages may only be known as formulas until the variables found at earlier ones are
+ * entered.
+ */
+
+import { getCache, updateCache, type Cache, type CacheStage, type MultiCache } from '@/lib/cacheStore';
+import { CoordinateParseError } from '@/lib/coordinates';
+import { missingVariables, resolveFormula, type FormulaVariables } from '@/lib/formulaCoordinates';
+import type { Coordinates } from '@/lib/geo';
+import { generateId } from '@/lib/id';
+
+/** Within this distance (m) of a stage the app offers to move on to the next one. */
+export const STAGE_ARRIVAL_RADIUS = 20;
+
+export type StageResolution =
+  | { coordinates: Coordinates; error?: undefined; missing?: undefined }
+  | { coordinates?: undefined; error: string; missing: string[] };
+
+export const isMultiCache = (cache: Cache | null | undefined): cache is MultiCache =>
+  !!cache?.stages && cache.stages.length > 0;
+
+/** Index of the first stage not yet found, or null once every stage is found. */
+export function currentStageIndex(cache: MultiCache): number | null {
+  const index = cache.stages.findIndex((stage) => !stage.found);
+  return index >= 0 ? index : null;
+}
+
+/** Where a stage is with the variables entered so far, or why that is not known yet. */
+export function resolveStage(stage: CacheStage, variables: FormulaVariables = {}): StageResolution {
+  const missing = missingVariables(stage.coordinates, variables);
+  try {
+    return { coordinates: resolveFormula(stage.coordinates, variables) };
+  } catch (error) {
+    if (error instanceof CoordinateParseError) return { error: error.message, missing };
+    throw error;
+  }
+}
+
+/**
+ * Where to go for a cache: its coordinates, or for a multi-cache the first stage not
+ * yet found (the final once all are). Null while that stage's formula is unresolved.
+ */
+export function cacheDestination(cache: Cache): { coordinates: Coordinates; name: string } | null {
+  if (!isMultiCache(cache)) return { coordinates: cache.coordinates, name: cache.name };
+
+  const stage = cache.stages[currentStageIndex(cache) ?? cache.stages.length - 1];
+  const { coordinates } = resolveStage(stage, cache.variables);
+  return coordinates ? { coordinates, name: `${cache.name} · ${stage.name}` } : null;
+}
+
+function updateStages(cacheId: string, update: (stages: CacheStage[]) => CacheStage[]) {
+  const cache = getCache(cacheId);
+  if (!cache) return;
+  updateCache(cacheId, { stages: update(cache.stages ?? []) });
+}
+
+export function addStage(cacheId: string): CacheStage {
+  const count = getCache(cacheId)?.stages?.length ?? 0;
+  const stage: CacheStage = {
+    id: generateId(),
+    name: `Stage ${count + 1}`,
+    coordinates: '',
+    hint: '',
+    found: false,
+  };
+  updateStages(cacheId, (stages) => [...stages, stage]);
+  return stage;
+}
+
+export function updateStage(cacheId: string, stageId: string, changes: Partial<Omit<CacheStage, 'id'>>) {
+  updateStages(cacheId, (stages) => stages.map((stage) => (stage.id === stageId ? { ...stage, ...changes } : stage)));
+}
+
+export function deleteStage(cacheId: string, stageId: string) {
+  updateStages(cacheId, (stages) => stages.filter((stage) => stage.id !== stageId));
+}
+
+export function moveStage(cacheId: string, stageId: string, offset: -1 | 1) {
+  updateStages(cacheId, (stages) => {
+    const index = stages.findIndex((stage) => stage.id === stageId);
+    const target = index + offset;
+    if (index < 0 || target < 0 || target >= stages.length) return stages;
+    const reordered = [...stages];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    return reordered;
+  });
+}
+
+/** Marks the current stage found, which makes the next one the target. */
+export function advanceStage(cacheId: string) {
+  const cache = getCache(cacheId);
+  if (!isMultiCache(cache)) return;
+  const index = currentStageIndex(cache);
+  if (index === null) return;
+  updateStage(cacheId, cache.stages[index].id, { found: true });
+}
+
+/** Clears every stage's found state to hunt the multi again. */
+export function resetStages(cacheId: string) {
+  updateStages(cacheId, (stages) => stages.map((stage) => ({ ...stage, found: false })));
+}
+
+/** Sets or, with null, clears a formula variable. */
+export function setCacheVariable(cacheId: string, name: string, value: number | null) {
+  const cache = getCache(cacheId);
+  if (!cache) return;
+  const variables = { ...cache.variables };
+  if (value === null) delete variables[name];
+  else variables[name] = value;
+  updateCache(cacheId, { variables });
+}
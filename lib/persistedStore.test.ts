@@ -0,0 +1,64 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { createPersistedStore } from '@/lib/persistedStore';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+type State = { items: string[]; flag: boolean };
+const INITIAL: State = { items: [], flag: false };
+
+const stored = async (key: string) => JSON.parse((await AsyncStorage.getItem(key)) ?? 'null');
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  jest.mocked(AsyncStorage.setItem).mockClear();
+});
+
+describe('createPersistedStore', () => {
+  it('loads the stored state, filling in new fields from the initial state', async () => {
+    await AsyncStorage.setItem('test.load', JSON.stringify({ items: ['a'] }));
+    const store = createPersistedStore('test.load', INITIAL);
+    const listener = jest.fn();
+    store.subscribe(listener);
+    await store.hydrate();
+    expect(store.getState()).toEqual({ items: ['a'], flag: false });
+    expect(listener).toHaveBeenCalled();
+  });
+
+  it('replays updates made before hydration onto the stored state', async () => {
+    await AsyncStorage.setItem('test.early', JSON.stringify({ items: ['a', 'b'], flag: false }));
+    jest.mocked(AsyncStorage.setItem).mockClear();
+    const store = createPersistedStore('test.early', INITIAL);
+
+    store.setState((prev) => ({ ...prev, items: [...prev.items, 'c'] }));
+    store.setState((prev) => ({ ...prev, flag: true }));
+    // Shown right away, but not written over the stored value
+    expect(store.getState()).toEqual({ items: ['c'], flag: true });
+    expect(AsyncStorage.setItem).not.toHaveBeenCalled();
+
+    await store.hydrate();
+    expect(store.getState()).toEqual({ items: ['a', 'b', 'c'], flag: true });
+    expect(await stored('test.early')).toEqual({ items: ['a', 'b', 'c'], flag: true });
+  });
+
+  it('lets a whole-state update made before hydration win', async () => {
+    await AsyncStorage.setItem('test.replace', JSON.stringify({ items: ['a'], flag: false }));
+    const store = createPersistedStore('test.replace', INITIAL);
+    store.setState({ items: ['z'], flag: true });
+    await store.hydrate();
+    expect(store.getState()).toEqual({ items: ['z'], flag: true });
+    expect(await stored('test.replace')).toEqual({ items: ['z'], flag: true });
+  });
+
+  it('writes straight away once hydrated', async () => {
+    const store = createPersistedStore('test.after', INITIAL);
+    await store.hydrate();
+    expect(AsyncStorage.setItem).not.toHaveBeenCalled();
+
+    store.setState((prev) => ({ ...prev, items: ['x'] }));
+    expect(AsyncStorage.setItem).toHaveBeenCalledTimes(1);
+    expect(await stored('test.after')).toEqual({ items: ['x'], flag: false });
+  });
+});
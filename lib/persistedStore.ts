@@ -0,0 +1,78 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+export type PersistedStore<T> = {
+  getState: () => T;
+  setState: (update: T | ((prev: T) => T)) => void;
+  subscribe: (listener: () => void) => () => void;
+  /** Resolves once the persisted value (if any) has been loaded. */
+  hydrate: () => Promise<void>;
+};
+
+/**
+ * A tiny observable store whose state is mirrored to AsyncStorage as JSON.
+ * Hydration is lazy (first subscriber, first write or explicit `hydrate()`) so that
+ * static web rendering never touches storage. Updates made before hydration finishes
+ * are replayed onto the stored state once it loads, and nothing is written until then,
+ * so an early write can never replace what was stored.
+ */
+export function createPersistedStore<T extends object>(key: string, initialState: T): PersistedStore<T> {
+  let state = initialState;
+  let hydrated = false;
+  let hydration: Promise<void> | null = null;
+  /** Updates made before hydration finished, oldest first. */
+  let pending: ((prev: T) => T)[] = [];
+  const listeners = new Set<() => void>();
+
+  const emit = () => listeners.forEach((listener) => listener());
+
+  const save = () => {
+    AsyncStorage.setItem(key, JSON.stringify(state)).catch((error) => {
+      console.warn(`Failed to save ${key}:`, error);
+    });
+  };
+
+  const hydrate = () => {
+    if (!hydration) {
+      hydration = AsyncStorage.getItem(key)
+        .then((raw) => {
+          if (raw != null) {
+            const stored = { ...initialState, ...JSON.parse(raw) } as T;
+            state = pending.reduce((current, update) => update(current), stored);
+          }
+        })
+        .catch((error) => {
+          console.warn(`Failed to load ${key}:`, error);
+        })
+        .finally(() => {
+          hydrated = true;
+          const changed = pending.length > 0;
+          pending = [];
+          if (changed) save();
+          emit();
+        });
+    }
+    return hydration;
+  };
+
+  const setState = (update: T | ((prev: T) => T)) => {
+    const apply = typeof update === 'function' ? (update as (prev: T) => T) : () => update;
+    state = apply(state);
+    emit();
+    if (hydrated) {
+      save();
+    } else {
+      pending.push(apply);
+      hydrate();
+    }
+  };
+
+  const subscribe = (listener: () => void) => {
+    listeners.add(listener);
+    hydrate();
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return { getState: () => state, setState, subscribe, hydrate };
+}
@@ -0,0 +1,77 @@
+import { destinationPoint, haversineDistance } from '@/lib/geo';
+import { gpsProfileMaxAccuracy } from '@/lib/gpsProfiles';
+import { createPositionFilter, replayPositions, type PositionFix } from '@/lib/positionFilter';
+
+const START = { latitude: 47.3769, longitude: 8.5417 };
+
+/** A walk north at 1.4 m/s, one fix a second, with the given reported accuracies. */
+const walk = (accuracies: (number | null)[]): PositionFix[] =>
+  accuracies.map((accuracy, index) => ({
+    ...destinationPoint(START, 0, 1.4 * index),
+    accuracy,
+    speed: 1.4,
+    timestamp: 1000 + index,
+  }));
+
+describe('createPositionFilter', () => {
+  it('follows precise fixes', () => {
+    const fixes = walk(Array(10).fill(5));
+    const { filtered, rejection, rejectedCount } = replayPositions(fixes);
+    expect(rejection).toBeNull();
+    expect(rejectedCount).toBe(0);
+    expect(haversineDistance(filtered!, fixes[fixes.length - 1])).toBeLessThan(2);
+    expect(filtered!.stationary).toBe(false);
+  });
+
+  it('ignores an imprecise fix among precise ones', () => {
+    const fixes = walk([5, 5, 5, 80, 5]);
+    const filter = createPositionFilter();
+    const estimates = fixes.map(filter.addFix);
+    expect(estimates[3]).toMatchObject({ rejection: 'accuracy', rejectedCount: 1 });
+    expect(estimates[3].filtered).toEqual(estimates[2].filtered);
+    expect(estimates[4].rejection).toBeNull();
+  });
+
+  it('falls back to the best of several imprecise fixes instead of freezing', () => {
+    // Canopy: nothing better than 35–50 m for a while
+    const fixes = walk([45, 38, 50, 47, 41, 49]);
+    const filter = createPositionFilter();
+    const estimates = fixes.map(filter.addFix);
+    expect(estimates.map(({ rejection }) => rejection)).toEqual(['accuracy', 'accuracy', null, 'accuracy', 'accuracy', null]);
+    expect(estimates[1].filtered).toBeNull();
+    // The best fix was the second, and its accuracy is kept
+    expect(haversineDistance(estimates[2].filtered!, fixes[1])).toBeLessThan(0.01);
+    expect(estimates[2].filtered!.accuracy).toBeCloseTo(38, 0);
+    expect(estimates[5].filtered!.accuracy).toBeLessThan(38);
+  });
+
+  it('accepts the battery saver profile’s coarse fixes straight away', () => {
+    const fixes = walk([100, 90, 110]);
+    const estimate = replayPositions(fixes, { maxAccuracy: gpsProfileMaxAccuracy('saver') });
+    expect(estimate.rejectedCount).toBe(0);
+    expect(estimate.filtered).not.toBeNull();
+  });
+
+  it('averages fixes while standing still', () => {
+    const fixes = [3, -3, 2, -2, 0].map((offset, index) => ({
+      ...destinationPoint(START, 90, offset),
+      accuracy: 10,
+      speed: 0,
+      timestamp: 1000 + index,
+    }));
+    const { filtered } = replayPositions(fixes);
+    expect(filtered!.stationary).toBe(true);
+    expect(filtered!.speed).toBe(0);
+    expect(haversineDistance(filtered!, START)).toBeLessThan(1);
+  });
+
+  it('rejects a jump until several fixes agree on it', () => {
+    const fixes = walk(Array(5).fill(5));
+    const jumped = [5, 6, 7].map((index) => ({ ...destinationPoint(START, 90, 500), accuracy: 5, timestamp: 1000 + index }));
+    const filter = createPositionFilter();
+    fixes.forEach(filter.addFix);
+    const estimates = jumped.map(filter.addFix);
+    expect(estimates.map(({ rejection }) => rejection)).toEqual(['outlier', 'outlier', null]);
+    expect(haversineDistance(estimates[2].filtered!, jumped[2])).toBeLessThan(1);
+  });
+});
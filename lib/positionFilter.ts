@@ -0,0 +1,274 @@
+/**
+ * Smooths GPS fixes before they drive bearing and distance. A constant-velocity Kalman
+ * filter runs on a local east/north plane; imprecise fixes and fixes that disagree
+ * wildly with the prediction are rejected, and while standing still the position is an
+ * accuracy-weighted average of recent fixes instead. When every fix is imprecise, as
+ * under canopy, the best of the last few is used with its real accuracy so the position
+ * never freezes. Like the heading filter it has no sensor dependencies, so recorded
+ * fixes can be replayed through it.
+ *
+ * Timestamps are in seconds.
+ */
+
+import { EARTH_RADIUS, toDegrees, toRadians, type Coordinates } from '@/lib/geo';
+
+export type PositionFix = Coordinates & {
+  /** Horizontal accuracy (1σ) in meters, or null when the platform did not report one. */
+  accuracy: number | null;
+  /** GPS speed in m/s, or null when unknown. */
+  speed?: number | null;
+  timestamp: number;
+};
+
+export type FixRejection = 'accuracy' | 'outlier';
+
+export type FilteredPosition = Coordinates & {
+  /** Estimated horizontal uncertainty (1σ) in meters. */
+  accuracy: number;
+  /** Estimated ground speed in m/s. */
+  speed: number;
+  /** True while the position is averaged because the user is standing still. */
+  stationary: boolean;
+  /** Fixes in the stationary average; 0 while moving. */
+  averagedFixes: number;
+};
+
+export type PositionEstimate = {
+  /** The latest fix as reported, accepted or not. */
+  raw: PositionFix | null;
+  /** Null until the first acceptable fix arrives. */
+  filtered: FilteredPosition | null;
+  /** Why the latest fix was ignored, or null if it was used. */
+  rejection: FixRejection | null;
+  rejectedCount: number;
+};
+
+export type PositionFilterOptions = {
+  /** Fixes reporting a worse accuracy (m) than this are ignored while better ones keep coming. */
+  maxAccuracy?: number;
+  /** Expected acceleration (m/s²) of someone on foot; larger values follow turns faster. */
+  accelerationNoise?: number;
+  /** Estimated speed (m/s) below which the user counts as standing still. */
+  stationarySpeed?: number;
+  /** Fixes kept for the stationary average. */
+  stationaryWindow?: number;
+};
+
+/** Accuracy (m) assumed for fixes that do not report one. */
+export const DEFAULT_ACCURACY = 20;
+/** Squared Mahalanobis distance beyond which a fix is an outlier (χ² with 2 dof, 99.9%). */
+const OUTLIER_GATE = 13.8;
+/** After this many imprecise fixes in a row the most accurate of them is used anyway. */
+const MAX_CONSECUTIVE_IMPRECISE = 3;
+/** After this many outliers in a row the filter assumes it is the one that is wrong. */
+const MAX_CONSECUTIVE_OUTLIERS = 3;
+/** Gap (s) after which the previous estimate is too stale to predict from. */
+const MAX_GAP = 30;
+/** Distance (m) from the plane's origin at which it is moved, to keep the flat-earth error small. */
+const MAX_PLANE_EXTENT = 10000;
+/** Leaving the stationary state needs this multiple of `stationarySpeed`, to avoid flicker. */
+const STATIONARY_HYSTERESIS = 2.5;
+
+/** Position and velocity along one axis of the local plane. */
+type AxisState = {
+  position: number;
+  velocity: number;
+  /** Covariance [[p00, p01], [p01, p11]]. */
+  p00: number;
+  p01: number;
+  p11: number;
+};
+
+const accuracyOf = (fix: PositionFix) => fix.accuracy ?? DEFAULT_ACCURACY;
+
+const initialAxis = (position: number, variance: number): AxisState => ({
+  position,
+  velocity: 0,
+  p00: variance,
+  p01: 0,
+  // Nothing is known about speed yet; a brisk walk is a reasonable spread
+  p11: 4,
+});
+
+function predictAxis(axis: AxisState, dt: number, accelerationVariance: number): AxisState {
+  const dt2 = dt * dt;
+  return {
+    position: axis.position + axis.velocity * dt,
+    velocity: axis.velocity,
+    p00: axis.p00 + 2 * dt * axis.p01 + dt2 * axis.p11 + (dt2 * dt2 * accelerationVariance) / 4,
+    p01: axis.p01 + dt * axis.p11 + (dt2 * dt * accelerationVariance) / 2,
+    p11: axis.p11 + dt2 * accelerationVariance,
+  };
+}
+
+function updateAxis(axis: AxisState, measurement: number, variance: number): AxisState {
+  const innovation = measurement - axis.position;
+  const s = axis.p00 + variance;
+  const k0 = axis.p00 / s;
+  const k1 = axis.p01 / s;
+  return {
+    position: axis.position + k0 * innovation,
+    velocity: axis.velocity + k1 * innovation,
+    p00: (1 - k0) * axis.p00,
+    p01: (1 - k0) * axis.p01,
+    p11: axis.p11 - k1 * axis.p01,
+  };
+}
+
+export function createPositionFilter({
+  maxAccuracy = 30,
+  accelerationNoise = 1,
+  stationarySpeed = 0.4,
+  stationaryWindow = 20,
+}: PositionFilterOptions = {}) {
+  const accelerationVariance = accelerationNoise * accelerationNoise;
+
+  let origin: Coordinates | null = null;
+  let east: AxisState | null = null;
+  let north: AxisState | null = null;
+  let time: number | null = null;
+  let stationary = false;
+  let window: { east: number; north: number; weight: number }[] = [];
+  let consecutiveOutliers = 0;
+  let imprecise: PositionFix[] = [];
+  let estimate: PositionEstimate = { raw: null, filtered: null, rejection: null, rejectedCount: 0 };
+
+  const toPlane = ({ latitude, longitude }: Coordinates, from: Coordinates) => ({
+    east: toRadians(longitude - from.longitude) * Math.cos(toRadians(from.latitude)) * EARTH_RADIUS,
+    north: toRadians(latitude - from.latitude) * EARTH_RADIUS,
+  });
+
+  const fromPlane = (e: number, n: number, from: Coordinates): Coordinates => ({
+    latitude: from.latitude + toDegrees(n / EARTH_RADIUS),
+    longitude: from.longitude + toDegrees(e / (EARTH_RADIUS * Math.cos(toRadians(from.latitude)))),
+  });
+
+  function reset(fix: PositionFix, variance: number) {
+    origin = { latitude: fix.latitude, longitude: fix.longitude };
+    east = initialAxis(0, variance);
+    north = initialAxis(0, variance);
+    stationary = false;
+    window = [];
+    consecutiveOutliers = 0;
+  }
+
+  /** Moves the plane's origin to the current estimate once it has drifted far away. */
+  function recenter() {
+    if (!origin || !east || !north) return;
+    if (Math.hypot(east.position, north.position) < MAX_PLANE_EXTENT) return;
+    const center = fromPlane(east.position, north.position, origin);
+    const shift = toPlane(center, origin);
+    origin = center;
+    east = { ...east, position: east.position - shift.east };
+    north = { ...north, position: north.position - shift.north };
+    window = window.map((entry) => ({ ...entry, east: entry.east - shift.east, north: entry.north - shift.north }));
+  }
+
+  function publish(raw: PositionFix, rejection: FixRejection | null): PositionEstimate {
+    if (!origin || !east || !north) {
+      estimate = { raw, filtered: null, rejection, rejectedCount: estimate.rejectedCount + (rejection ? 1 : 0) };
+      return estimate;
+    }
+
+    let e = east.position;
+    let n = north.position;
+    let accuracy = Math.sqrt((east.p00 + north.p00) / 2);
+    if (stationary && window.length > 0) {
+      const total = window.reduce((sum, entry) => sum + entry.weight, 0);
+      e = window.reduce((sum, entry) => sum + entry.east * entry.weight, 0) / total;
+      n = window.reduce((sum, entry) => sum + entry.north * entry.weight, 0) / total;
+      // Treats the fixes as independent, so this is optimistic: consecutive GPS errors are correlated
+      accuracy = Math.min(accuracy, Math.sqrt(1 / total));
+    }
+
+    estimate = {
+      raw,
+      filtered: {
+        ...fromPlane(e, n, origin),
+        accuracy,
+        speed: stationary ? 0 : Math.hypot(east.velocity, north.velocity),
+        stationary,
+        averagedFixes: stationary ? window.length : 0,
+      },
+      rejection,
+      rejectedCount: estimate.rejectedCount + (rejection ? 1 : 0),
+    };
+    return estimate;
+  }
+
+  /** Runs a fix through the filter; returns why it was ignored, or null if it was used. */
+  function update(fix: PositionFix): FixRejection | null {
+    const variance = accuracyOf(fix) ** 2;
+    const dt = time === null ? Infinity : fix.timestamp - time;
+    if (dt < 0) return null;
+    if (!origin || !east || !north || dt > MAX_GAP) {
+      reset(fix, variance);
+      time = fix.timestamp;
+      return null;
+    }
+
+    const predictedEast = predictAxis(east, dt, accelerationVariance);
+    const predictedNorth = predictAxis(north, dt, accelerationVariance);
+    const measured = toPlane(fix, origin);
+
+    const eastInnovation = measured.east - predictedEast.position;
+    const northInnovation = measured.north - predictedNorth.position;
+    const distanceSquared =
+      (eastInnovation * eastInnovation) / (predictedEast.p00 + variance) +
+      (northInnovation * northInnovation) / (predictedNorth.p00 + variance);
+    if (distanceSquared > OUTLIER_GATE) {
+      consecutiveOutliers += 1;
+      if (consecutiveOutliers < MAX_CONSECUTIVE_OUTLIERS) return 'outlier';
+      // Several "outliers" agreeing with each other mean we really moved
+      reset(fix, variance);
+      time = fix.timestamp;
+      return null;
+    }
+    consecutiveOutliers = 0;
+
+    east = updateAxis(predictedEast, measured.east, variance);
+    north = updateAxis(predictedNorth, measured.north, variance);
+    time = fix.timestamp;
+
+    // Doppler speed from the receiver is far less noisy than the filter's own velocity
+    const speed = fix.speed != null && fix.speed >= 0 ? fix.speed : Math.hypot(east.velocity, north.velocity);
+    if (stationary && speed > stationarySpeed * STATIONARY_HYSTERESIS) {
+      stationary = false;
+      window = [];
+    } else if (!stationary && speed < stationarySpeed) {
+      stationary = true;
+    }
+    if (stationary) {
+      window = [...window, { east: measured.east, north: measured.north, weight: 1 / variance }].slice(
+        -stationaryWindow
+      );
+    }
+
+    recenter();
+    return null;
+  }
+
+  function addFix(fix: PositionFix): PositionEstimate {
+    if (accuracyOf(fix) <= maxAccuracy) {
+      imprecise = [];
+      return publish(fix, update(fix));
+    }
+    imprecise = [...imprecise, fix];
+    if (imprecise.length < MAX_CONSECUTIVE_IMPRECISE) return publish(fix, 'accuracy');
+    // A rough position beats none at all; its accuracy keeps it from pulling the estimate far
+    const best = imprecise.reduce((a, b) => (accuracyOf(b) < accuracyOf(a) ? b : a));
+    imprecise = [];
+    return publish(fix, update(best));
+  }
+
+  return { addFix, getEstimate: () => estimate };
+}
+
+export type PositionFilter = ReturnType<typeof createPositionFilter>;
+
+/** Runs recorded fixes through a fresh filter and returns the final estimate. */
+export function replayPositions(fixes: PositionFix[], options?: PositionFilterOptions): PositionEstimate {
+  const filter = createPositionFilter(options);
+  fixes.forEach(filter.addFix);
+  return filter.getEstimate();
+}
@@ -0,0 +1,76 @@
+import { destinationPoint, haversineDistance } from '@/lib/geo';
+import { getPositionState, subscribePosition } from '@/lib/positionService';
+import { deviceProvider, setSensorProvider } from '@/lib/sensorProvider';
+import { scriptedWalk } from '@/lib/sensorSession';
+import { updateSettings } from '@/lib/settingsStore';
+import { createSimulatedProvider } from '@/lib/simulatedProvider';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const START = { latitude: 51.5007, longitude: -0.1246 };
+const TARGET = destinationPoint(START, 60, 100);
+
+/** Lets the service's permission checks resolve, then plays `ms` of the session. */
+async function play(ms: number) {
+  await jest.advanceTimersByTimeAsync(0);
+  await jest.advanceTimersByTimeAsync(ms);
+}
+
+beforeEach(() => {
+  jest.useFakeTimers({ now: new Date('2026-06-01T12:00:00Z') });
+});
+
+afterEach(() => {
+  setSensorProvider(deviceProvider);
+  jest.useRealTimers();
+});
+
+describe('positionService', () => {
+  it('shares one filtered position between subscribers', async () => {
+    setSensorProvider(createSimulatedProvider(scriptedWalk(START, TARGET, { accuracy: 8, dwell: 10 })));
+    const first = jest.fn();
+    const second = jest.fn();
+    const unsubscribeFirst = subscribePosition(first);
+    const unsubscribeSecond = subscribePosition(second);
+
+    await play(30000);
+    const { filtered, raw, error } = getPositionState();
+    expect(error).toBeNull();
+    expect(raw).toMatchObject({ accuracy: 8 });
+    expect(haversineDistance(filtered!, raw!)).toBeLessThan(10);
+    expect(first).toHaveBeenCalledTimes(second.mock.calls.length);
+
+    unsubscribeFirst();
+    await play(5000);
+    expect(getPositionState().filtered).not.toBeNull();
+    unsubscribeSecond();
+    expect(getPositionState().filtered).toBeNull();
+  });
+
+  it('accepts coarse fixes under the battery saver profile', async () => {
+    updateSettings({ gpsProfile: 'saver' });
+    setSensorProvider(createSimulatedProvider(scriptedWalk(START, TARGET, { accuracy: 100 })));
+    const unsubscribe = subscribePosition(() => {});
+
+    await play(6000);
+    expect(getPositionState()).toMatchObject({ rejectedCount: 0, error: null });
+    expect(getPositionState().filtered).not.toBeNull();
+    unsubscribe();
+    updateSettings({ gpsProfile: 'balanced' });
+  });
+
+  it('starts over when the provider changes', async () => {
+    const unsubscribe = subscribePosition(() => {});
+    setSensorProvider(createSimulatedProvider(scriptedWalk(START, TARGET)));
+    await play(3000);
+    expect(haversineDistance(getPositionState().filtered!, START)).toBeLessThan(10);
+
+    setSensorProvider(createSimulatedProvider(scriptedWalk(TARGET, START)));
+    expect(getPositionState().filtered).toBeNull();
+    await play(3000);
+    expect(haversineDistance(getPositionState().filtered!, TARGET)).toBeLessThan(10);
+    unsubscribe();
+  });
+});
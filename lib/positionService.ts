@@ -0,0 +1,106 @@
+/**
+ * Single shared position source for the navigation screens. GPS starts with the first
+ * subscriber and stops with the last, and every fix runs through one position filter,
+ * so both transponders navigate from the same smoothed position. Fixes also keep the
+ * heading service's declination and GPS course current. Watching restarts on the new
+ * options when the GPS profile or the sensor provider changes.
+ */
+
+import { gpsProfileMaxAccuracy, gpsProfileOptions } from '@/lib/gpsProfiles';
+import { setHeadingPosition } from '@/lib/headingService';
+import { createPositionFilter, type PositionEstimate } from '@/lib/positionFilter';
+import { getSensorProvider, subscribeSensorProvider } from '@/lib/sensorProvider';
+import { settingsStore } from '@/lib/settingsStore';
+
+export type PositionState = PositionEstimate & {
+  /** Why there is no position, e.g. location services are off; null while all is well. */
+  error: string | null;
+};
+
+const INITIAL_STATE: PositionState = { raw: null, filtered: null, rejection: null, rejectedCount: 0, error: null };
+
+let state = INITIAL_STATE;
+let subscriptions: { remove: () => void }[] = [];
+/** Bumped on every stop so that a start still awaiting permissions can bail out. */
+let generation = 0;
+const listeners = new Set<() => void>();
+
+const emit = () => listeners.forEach((listener) => listener());
+
+async function start() {
+  const startedGeneration = generation;
+  const provider = getSensorProvider();
+  const { gpsProfile } = settingsStore.getState();
+  subscriptions.push({
+    remove: settingsStore.subscribe(() => {
+      if (settingsStore.getState().gpsProfile !== gpsProfile) restart();
+    }),
+  });
+
+  if (!(await provider.hasServicesEnabledAsync())) throw new Error('Location services are disabled');
+  if (!(await provider.requestPermissionsAsync())) throw new Error('Location permission denied');
+  if (startedGeneration !== generation) return;
+
+  // A new provider or profile starts a new track of fixes; coarser profiles report worse accuracy
+  const filter = createPositionFilter({ maxAccuracy: gpsProfileMaxAccuracy(gpsProfile) });
+  let watcher: { remove: () => void };
+  try {
+    watcher = await provider.watchPositionAsync(gpsProfileOptions(gpsProfile), ({ coords, timestamp }) => {
+      setHeadingPosition(coords);
+      const estimate = filter.addFix({
+        latitude: coords.latitude,
+        longitude: coords.longitude,
+        accuracy: coords.accuracy,
+        speed: coords.speed,
+        timestamp: timestamp / 1000,
+      });
+      state = { ...estimate, error: null };
+      emit();
+    });
+  } catch (error) {
+    throw new Error(`Failed to start location tracking: ${(error as Error).message}`);
+  }
+  if (startedGeneration !== generation) watcher.remove();
+  else subscriptions.push(watcher);
+}
+
+function run() {
+  const startedGeneration = generation;
+  start().catch((error) => {
+    if (startedGeneration !== generation) return;
+    console.warn('No position available:', error);
+    state = { ...state, error: (error as Error).message };
+    emit();
+  });
+}
+
+function stop() {
+  subscriptions.forEach((subscription) => subscription.remove());
+  subscriptions = [];
+  state = INITIAL_STATE;
+  generation++;
+}
+
+function restart() {
+  stop();
+  emit();
+  run();
+}
+
+// Switching between the device and a simulation restarts GPS on the new provider
+subscribeSensorProvider(() => {
+  if (listeners.size > 0) restart();
+});
+
+export function subscribePosition(listener: () => void): () => void {
+  listeners.add(listener);
+  if (listeners.size === 1) run();
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) stop();
+  };
+}
+
+export function getPositionState(): PositionState {
+  return state;
+}
@@ -0,0 +1,58 @@
+/**
+ * Waypoint projection: "walk 120 m at bearing 247° from here". Bearings may be magnetic,
+ * as read off a hand compass, and are corrected with the World Magnetic Model.
+ */
+
+import { destinationPoint, normalizeBearing, type Coordinates } from '@/lib/geo';
+import { magneticDeclination } from '@/lib/magneticModel';
+
+export type ProjectionUnit = 'm' | 'ft' | 'paces';
+export type BearingReference = 'true' | 'magnetic';
+
+export const PROJECTION_UNITS: { value: ProjectionUnit; label: string }[] = [
+  { value: 'm', label: 'METERS' },
+  { value: 'ft', label: 'FEET' },
+  { value: 'paces', label: 'PACES' },
+];
+
+export const METERS_PER_FOOT = 0.3048;
+/** A walking step; what a puzzle calls a pace varies, so the length is a setting. */
+export const DEFAULT_PACE_LENGTH = 0.75;
+
+export type Projection = {
+  coordinates: Coordinates;
+  /** Bearing actually travelled, degrees clockwise from true north. */
+  trueBearing: number;
+  /** Declination used to correct a magnetic bearing, or null for a true one. */
+  declination: number | null;
+  distance: number;
+};
+
+export function toMeters(value: number, unit: ProjectionUnit, paceLength = DEFAULT_PACE_LENGTH): number {
+  switch (unit) {
+    case 'ft':
+      return value * METERS_PER_FOOT;
+    case 'paces':
+      return value * paceLength;
+    default:
+      return value;
+  }
+}
+
+/** Projects `distance` meters from `start` along `bearing`, taken as true or magnetic. */
+export function projectWaypoint(
+  start: Coordinates,
+  bearing: number,
+  reference: BearingReference,
+  distance: number,
+  date: Date = new Date()
+): Projection {
+  const declination = reference === 'magnetic' ? magneticDeclination(start, date) : null;
+  const trueBearing = normalizeBearing(bearing + (declination ?? 0));
+  return {
+    coordinates: destinationPoint(start, trueBearing, distance),
+    trueBearing,
+    declination,
+    distance,
+  };
+}
@@ -0,0 +1,67 @@
+/**
+ * Hot/cold "transponder ping" feedback: how often to ping, how hard to buzz and
+ * which tone to play for a given distance and facing, plus proximity ring alerts.
+ */
+
+import { toRadians } from '@/lib/geo';
+
+export const DEFAULT_PROXIMITY_RINGS = [100, 25, 5];
+
+/** Distances (m) between which the ping rate scales, logarithmically. */
+const FAR_DISTANCE = 500;
+const NEAR_DISTANCE = 2;
+/** Ping period (ms) at or beyond FAR_DISTANCE and at or within NEAR_DISTANCE. */
+const SLOWEST_PING = 2500;
+const FASTEST_PING = 150;
+/** A fired ring re-arms only after moving this much further out, so GPS jitter cannot retrigger it. */
+const RING_REARM_FACTOR = 1.2;
+
+export type PingStrength = 'light' | 'medium' | 'heavy';
+
+/** Milliseconds between pings; shorter as the target gets closer. */
+export function pingInterval(distance: number): number {
+  const clamped = Math.min(Math.max(distance, NEAR_DISTANCE), FAR_DISTANCE);
+  const t = Math.log(clamped / NEAR_DISTANCE) / Math.log(FAR_DISTANCE / NEAR_DISTANCE);
+  return FASTEST_PING + t * (SLOWEST_PING - FASTEST_PING);
+}
+
+export function pingStrength(distance: number): PingStrength {
+  if (distance < 10) return 'heavy';
+  if (distance < 50) return 'medium';
+  return 'light';
+}
+
+/** 1 when facing the target, 0 when facing directly away; `relativeBearing` in degrees. */
+export function bearingAlignment(relativeBearing: number): number {
+  return (1 + Math.cos(toRadians(relativeBearing))) / 2;
+}
+
+/**
+ * Tracks which rings have fired. Returns the updated set and the closest ring newly
+ * crossed on the way in, if any.
+ */
+export function updateProximityRings(
+  rings: number[],
+  fired: number[],
+  distance: number
+): { fired: number[]; crossed: number | null } {
+  const nextFired = rings.filter((ring) =>
+    fired.includes(ring) ? distance <= ring * RING_REARM_FACTOR : distance <= ring
+  );
+  const crossed = nextFired.filter((ring) => !fired.includes(ring));
+  return { fired: nextFired, crossed: crossed.length > 0 ? Math.min(...crossed) : null };
+}
+
+/** The next ring still ahead, or null when inside them all. */
+export function nextProximityRing(rings: number[], distance: number): number | null {
+  const ahead = rings.filter((ring) => ring < distance);
+  return ahead.length > 0 ? Math.max(...ahead) : null;
+}
+
+/** Parses a list like "100, 25, 5" into distinct positive distances, largest first. */
+export function parseProximityRings(input: string): number[] | null {
+  const parts = input.split(/[\s,;]+/).filter(Boolean);
+  const rings = parts.map(Number);
+  if (rings.length === 0 || rings.some((ring) => !Number.isFinite(ring) || ring <= 0)) return null;
+  return [...new Set(rings)].sort((a, b) => b - a);
+}
@@ -0,0 +1,123 @@
+/**
+ * Synthesised ping tones for proximity mode. The tones are generated as small WAV
+ * files on first use, so the app ships no audio assets.
+ */
+
+import { createAudioPlayer, setAudioModeAsync, type AudioPlayer } from 'expo-audio';
+import * as FileSystem from 'expo-file-system';
+
+import { bytesToBase64 } from '@/lib/base64';
+
+/** Number of pitch steps between facing away from and facing the target. */
+export const PING_TONE_COUNT = 8;
+/** Pitch (Hz) when facing directly away and directly at the target. */
+const LOWEST_TONE = 330;
+const HIGHEST_TONE = 1320;
+const PING_DURATION = 0.08;
+const RING_ALERT_TONE = 1760;
+const SAMPLE_RATE = 22050;
+
+let tonePlayers: AudioPlayer[] = [];
+let ringPlayer: AudioPlayer | null = null;
+let loading: Promise<void> | null = null;
+/** Bumped on unload so tones still being generated are discarded. */
+let generation = 0;
+
+/** Sine bursts with short fades so they do not click; `count` beeps separated by equal gaps. */
+function synthesize(frequency: number, duration: number, count = 1): Float32Array {
+  const beepLength = Math.round(duration * SAMPLE_RATE);
+  const fadeLength = Math.round(beepLength / 8);
+  const samples = new Float32Array(beepLength * (2 * count - 1));
+  for (let beep = 0; beep < count; beep++) {
+    const start = beep * 2 * beepLength;
+    for (let i = 0; i < beepLength; i++) {
+      const envelope = Math.min(1, i / fadeLength, (beepLength - i) / fadeLength);
+      samples[start + i] = 0.8 * envelope * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE);
+    }
+  }
+  return samples;
+}
+
+/** 16-bit mono PCM WAV, base64 encoded. */
+function encodeWav(samples: Float32Array): string {
+  const dataLength = samples.length * 2;
+  const view = new DataView(new ArrayBuffer(44 + dataLength));
+  const writeString = (offset: number, value: string) =>
+    [...value].forEach((char, i) => view.setUint8(offset + i, char.charCodeAt(0)));
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataLength, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, SAMPLE_RATE, true);
+  view.setUint32(28, SAMPLE_RATE * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, dataLength, true);
+  samples.forEach((sample, i) => view.setInt16(44 + i * 2, Math.round(sample * 0x7fff), true));
+
+  return bytesToBase64(new Uint8Array(view.buffer));
+}
+
+/** Writes the tone to the cache directory, or falls back to a data URI where there is none (web). */
+async function toneUri(name: string, samples: Float32Array): Promise<string> {
+  const base64 = encodeWav(samples);
+  if (!FileSystem.cacheDirectory) return `data:audio/wav;base64,${base64}`;
+
+  const uri = `${FileSystem.cacheDirectory}${name}.wav`;
+  await FileSystem.writeAsStringAsync(uri, base64, { encoding: FileSystem.EncodingType.Base64 });
+  return uri;
+}
+
+/** Generates and preloads the ping tones. Safe to call repeatedly. */
+export function loadProximityTones(): Promise<void> {
+  if (!loading) {
+    const startedGeneration = generation;
+    loading = (async () => {
+      await setAudioModeAsync({ playsInSilentMode: true, interruptionMode: 'mixWithOthers' });
+      const uris = await Promise.all(
+        Array.from({ length: PING_TONE_COUNT }, (_, step) => {
+          const frequency = LOWEST_TONE * Math.pow(HIGHEST_TONE / LOWEST_TONE, step / (PING_TONE_COUNT - 1));
+          return toneUri(`ping-${step}`, synthesize(frequency, PING_DURATION));
+        })
+      );
+      const ringUri = await toneUri('ring', synthesize(RING_ALERT_TONE, 0.12, 3));
+      if (startedGeneration !== generation) return;
+
+      tonePlayers = uris.map((uri) => createAudioPlayer({ uri }));
+      ringPlayer = createAudioPlayer({ uri: ringUri });
+    })().catch((error) => {
+      loading = null;
+      console.warn('Failed to prepare proximity tones:', error);
+    });
+  }
+  return loading;
+}
+
+export function unloadProximityTones() {
+  tonePlayers.forEach((player) => player.remove());
+  ringPlayer?.remove();
+  tonePlayers = [];
+  ringPlayer = null;
+  loading = null;
+  generation++;
+}
+
+const replay = (player: AudioPlayer | null | undefined) => {
+  if (!player) return;
+  player.seekTo(0).catch(() => {});
+  player.play();
+};
+
+/** Plays a ping whose pitch rises with `alignment` (0 facing away, 1 facing the target). */
+export function playPingTone(alignment: number) {
+  replay(tonePlayers[Math.round(Math.min(Math.max(alignment, 0), 1) * (PING_TONE_COUNT - 1))]);
+}
+
+export function playRingAlert() {
+  replay(ringPlayer);
+}
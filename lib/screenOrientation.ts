@@ -0,0 +1,59 @@
+/**
+ * Screen orientation for the navigation screens: which orientations each may take, and
+ * the current display orientation for the heading filter. The rest of the app stays
+ * in portrait.
+ */
+
+import * as ScreenOrientation from 'expo-screen-orientation';
+
+import type { DisplayOrientation } from '@/lib/headingFilter';
+
+export type OrientationMode = 'auto' | 'portrait' | 'landscape';
+
+export const ORIENTATION_MODES: { value: OrientationMode; label: string }[] = [
+  { value: 'auto', label: 'AUTO' },
+  { value: 'portrait', label: 'PORTRAIT' },
+  { value: 'landscape', label: 'LANDSCAPE' },
+];
+
+const ORIENTATION_LOCKS: Record<OrientationMode, ScreenOrientation.OrientationLock> = {
+  // Rotates with the device, except upside down on iOS
+  auto: ScreenOrientation.OrientationLock.DEFAULT,
+  portrait: ScreenOrientation.OrientationLock.PORTRAIT_UP,
+  landscape: ScreenOrientation.OrientationLock.LANDSCAPE,
+};
+
+const DISPLAY_ORIENTATIONS: Partial<Record<ScreenOrientation.Orientation, DisplayOrientation>> = {
+  [ScreenOrientation.Orientation.PORTRAIT_UP]: 'portrait',
+  [ScreenOrientation.Orientation.PORTRAIT_DOWN]: 'portrait-down',
+  [ScreenOrientation.Orientation.LANDSCAPE_LEFT]: 'landscape-left',
+  [ScreenOrientation.Orientation.LANDSCAPE_RIGHT]: 'landscape-right',
+};
+
+/** Restricts the screen to the orientations a mode allows. */
+export async function lockOrientationAsync(mode: OrientationMode): Promise<void> {
+  await ScreenOrientation.lockAsync(ORIENTATION_LOCKS[mode]);
+}
+
+/**
+ * Calls `listener` with the display orientation now and on every rotation. Unknown
+ * orientations count as portrait.
+ */
+export function watchDisplayOrientation(listener: (orientation: DisplayOrientation) => void): { remove: () => void } {
+  const emit = (orientation: ScreenOrientation.Orientation) => listener(DISPLAY_ORIENTATIONS[orientation] ?? 'portrait');
+  let removed = false;
+  ScreenOrientation.getOrientationAsync()
+    .then((orientation) => {
+      if (!removed) emit(orientation);
+    })
+    .catch((error) => console.warn('Screen orientation unavailable:', error));
+  const subscription = ScreenOrientation.addOrientationChangeListener(({ orientationInfo }) =>
+    emit(orientationInfo.orientation)
+  );
+  return {
+    remove: () => {
+      removed = true;
+      subscription.remove();
+    },
+  };
+}
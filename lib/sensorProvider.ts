@@ -0,0 +1,91 @@
+/**
+ * Where positions and motion sensor readings come from. Screens and services read
+ * them through the active provider instead of calling expo-location and expo-sensors
+ * directly, so a simulated provider can stand in for the hardware on the web build,
+ * in tests, or at a desk. Background tracking runs in a native task and always uses
+ * the device.
+ */
+
+import * as Location from 'expo-location';
+import { Accelerometer, Gyroscope, Magnetometer } from 'expo-sensors';
+
+import type { Vector3 } from '@/lib/headingFilter';
+
+export type SensorReading = Vector3 & {
+  /** Seconds, on a clock shared by all of a provider's sensors. */
+  timestamp: number;
+};
+
+export type SensorStream = {
+  isAvailableAsync(): Promise<boolean>;
+  requestPermissionsAsync(): Promise<boolean>;
+  /** Sampling interval in milliseconds. */
+  setUpdateInterval(interval: number): void;
+  addListener(listener: (reading: SensorReading) => void): { remove: () => void };
+};
+
+export type SensorProvider = {
+  /** Shown wherever readings are displayed, e.g. the replayed file's name. */
+  name: string;
+  simulated: boolean;
+  hasServicesEnabledAsync(): Promise<boolean>;
+  /** Asks for foreground location permission; resolves to whether it was granted. */
+  requestPermissionsAsync(): Promise<boolean>;
+  getCurrentPositionAsync(options: Location.LocationOptions): Promise<Location.LocationObject>;
+  getLastKnownPositionAsync(): Promise<Location.LocationObject | null>;
+  watchPositionAsync(
+    options: Location.LocationOptions,
+    callback: Location.LocationCallback
+  ): Promise<Location.LocationSubscription>;
+  /** The operating system's own compass, used when there is no magnetometer. */
+  watchHeadingAsync(callback: Location.LocationHeadingCallback): Promise<Location.LocationSubscription>;
+  magnetometer: SensorStream;
+  /** Readings as the hardware reports them; CoreMotion's point down, Android's up. */
+  accelerometer: SensorStream;
+  /** Rotation rates in rad/s. */
+  gyroscope: SensorStream;
+};
+
+type ExpoSensor = typeof Magnetometer | typeof Accelerometer | typeof Gyroscope;
+
+const sensorStream = (sensor: ExpoSensor): SensorStream => ({
+  isAvailableAsync: () => sensor.isAvailableAsync(),
+  requestPermissionsAsync: async () => (await sensor.requestPermissionsAsync()).granted,
+  setUpdateInterval: (interval) => sensor.setUpdateInterval(interval),
+  addListener: (listener) => sensor.addListener(listener),
+});
+
+export const deviceProvider: SensorProvider = {
+  name: 'Device',
+  simulated: false,
+  hasServicesEnabledAsync: () => Location.hasServicesEnabledAsync(),
+  requestPermissionsAsync: async () => (await Location.requestForegroundPermissionsAsync()).status === 'granted',
+  getCurrentPositionAsync: (options) => Location.getCurrentPositionAsync(options),
+  getLastKnownPositionAsync: () => Location.getLastKnownPositionAsync(),
+  watchPositionAsync: (options, callback) => Location.watchPositionAsync(options, callback),
+  watchHeadingAsync: (callback) => Location.watchHeadingAsync(callback),
+  magnetometer: sensorStream(Magnetometer),
+  accelerometer: sensorStream(Accelerometer),
+  gyroscope: sensorStream(Gyroscope),
+};
+
+let provider: SensorProvider = deviceProvider;
+const listeners = new Set<() => void>();
+
+export function getSensorProvider(): SensorProvider {
+  return provider;
+}
+
+/** Switches every reader to another provider; subscriptions on the old one are restarted. */
+export function setSensorProvider(next: SensorProvider) {
+  if (next === provider) return;
+  provider = next;
+  listeners.forEach((listener) => listener());
+}
+
+export function subscribeSensorProvider(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
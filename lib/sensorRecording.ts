@@ -0,0 +1,125 @@
+/**
+ * Diagnostics recordings of raw sensor streams, heading estimates and GPS fixes, and
+ * their export as CSV for analysis or as a JSON session the simulator can replay.
+ */
+
+import type { HeadingSource, SensorSample } from '@/lib/headingFilter';
+import { applyCalibration, type MagnetometerCalibration } from '@/lib/magnetometerCalibration';
+
+/** Everything is timed in milliseconds since the recording started. */
+export type RecordedSample = SensorSample & { t: number };
+
+export type RecordedFix = {
+  t: number;
+  latitude: number;
+  longitude: number;
+  accuracy: number | null;
+  altitude: number | null;
+  speed: number | null;
+  heading: number | null;
+};
+
+export type RecordedHeading = {
+  t: number;
+  heading: number;
+  magneticHeading: number;
+  confidence: number;
+  source: HeadingSource;
+};
+
+export type SensorRecording = {
+  /** Milliseconds since the epoch. */
+  startedAt: number;
+  samples: RecordedSample[];
+  fixes: RecordedFix[];
+  headings: RecordedHeading[];
+};
+
+/** Recording stops on its own past this many entries (roughly half an hour at normal rates). */
+export const MAX_RECORDING_ENTRIES = 100000;
+
+export const createSensorRecording = (startedAt: number = Date.now()): SensorRecording => ({
+  startedAt,
+  samples: [],
+  fixes: [],
+  headings: [],
+});
+
+export const recordingSize = ({ samples, fixes, headings }: SensorRecording) =>
+  samples.length + fixes.length + headings.length;
+
+export type UpdateRate = {
+  /** Samples per second. */
+  rate: number;
+  /** Standard deviation of the sample interval, ms. */
+  jitter: number;
+  /** Longest interval between samples, ms. */
+  maxGap: number;
+};
+
+/** Rate statistics of a run of sample timestamps in seconds, or null with fewer than two. */
+export function updateRate(timestamps: number[]): UpdateRate | null {
+  if (timestamps.length < 2) return null;
+  const intervals = timestamps.slice(1).map((timestamp, index) => (timestamp - timestamps[index]) * 1000);
+  const mean = intervals.reduce((sum, interval) => sum + interval, 0) / intervals.length;
+  if (mean <= 0) return null;
+  const variance = intervals.reduce((sum, interval) => sum + (interval - mean) ** 2, 0) / intervals.length;
+  return { rate: 1000 / mean, jitter: Math.sqrt(variance), maxGap: Math.max(...intervals) };
+}
+
+const CSV_HEADER = 't_ms,stream,x,y,z,latitude,longitude,accuracy,heading,confidence,source';
+
+const csvNumber = (value: number | null, decimals: number) => (value === null ? '' : value.toFixed(decimals));
+
+/** One row per entry, ordered by time; columns that do not apply to an entry stay empty. */
+export function recordingToCsv({ samples, fixes, headings }: SensorRecording): string {
+  const rows: { t: number; row: string }[] = [
+    ...samples.map(({ t, sensor, x, y, z }) => ({
+      t,
+      row: `${t},${sensor},${x.toFixed(4)},${y.toFixed(4)},${z.toFixed(4)},,,,,,`,
+    })),
+    ...fixes.map(({ t, latitude, longitude, accuracy, heading }) => ({
+      t,
+      row: `${t},gps,,,,${latitude.toFixed(7)},${longitude.toFixed(7)},${csvNumber(accuracy, 1)},${csvNumber(heading, 1)},,`,
+    })),
+    ...headings.map(({ t, heading, confidence, source }) => ({
+      t,
+      row: `${t},heading,,,,,,,${heading.toFixed(1)},${confidence.toFixed(2)},${source}`,
+    })),
+  ];
+  rows.sort((a, b) => a.t - b.t);
+  return [CSV_HEADER, ...rows.map(({ row }) => row), ''].join('\n');
+}
+
+/**
+ * A JSON session in the format the simulator replays. Its magnetometer stream has the
+ * given calibration applied, as the heading filter saw it; the raw stream is kept
+ * alongside for analysis.
+ */
+export function recordingToSessionJson(
+  { startedAt, samples, fixes, headings }: SensorRecording,
+  name: string,
+  calibration: MagnetometerCalibration | null
+): string {
+  const stream = (sensor: SensorSample['sensor']) =>
+    samples.filter((sample) => sample.sensor === sensor).map(({ t, x, y, z }) => ({ t, x, y, z }));
+  const rawMagnetometer = stream('magnetometer');
+  return JSON.stringify({
+    name,
+    startedAt: new Date(startedAt).toISOString(),
+    fixes: fixes.map(({ t, latitude, longitude, accuracy, altitude, speed, heading }) => ({
+      t,
+      latitude,
+      longitude,
+      accuracy: accuracy ?? undefined,
+      altitude,
+      speed,
+      heading,
+    })),
+    magnetometer: rawMagnetometer.map(({ t, ...raw }) => ({ t, ...applyCalibration(raw, calibration) })),
+    accelerometer: stream('accelerometer'),
+    gyroscope: stream('gyroscope'),
+    rawMagnetometer,
+    headings,
+  });
+}
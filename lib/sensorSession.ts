@@ -0,0 +1,282 @@
+/**
+ * Recorded or scripted sensor sessions for the simulated provider: a timeline of
+ * GPS fixes plus magnetometer, accelerometer and gyroscope streams. Sessions load
+ * from JSON recordings or GPX tracks, or are generated as a walk toward a target.
+ * Where a session has no orientation streams, they are synthesized for a phone held
+ * flat and pointing along the direction of travel.
+ */
+
+import {
+  destinationPoint,
+  haversineDistance,
+  initialBearing,
+  relativeBearing,
+  toRadians,
+  type Coordinates,
+} from '@/lib/geo';
+import { parseGpxTracks } from '@/lib/gpx';
+import type { Vector3 } from '@/lib/headingFilter';
+import { magneticField } from '@/lib/magneticModel';
+
+export type SessionFix = Coordinates & {
+  /** Milliseconds since the start of the session. */
+  t: number;
+  /** Meters. */
+  accuracy: number;
+  altitude?: number | null;
+  /** Meters per second. */
+  speed?: number | null;
+  /** Course over ground, degrees from true north. */
+  heading?: number | null;
+};
+
+export type SessionSample = Vector3 & {
+  /** Milliseconds since the start of the session. */
+  t: number;
+};
+
+export type SensorSession = {
+  name: string;
+  fixes: SessionFix[];
+  /** µT. */
+  magnetometer: SessionSample[];
+  /** In g, pointing up (away from the ground) as Android reports it. */
+  accelerometer: SessionSample[];
+  /** rad/s. */
+  gyroscope: SessionSample[];
+};
+
+export class SensorSessionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SensorSessionError';
+  }
+}
+
+export type WalkOptions = {
+  /** Walking speed in m/s. */
+  speed?: number;
+  /** Reported fix accuracy in meters. */
+  accuracy?: number;
+  /** Side-to-side sway of the phone while walking, in degrees. */
+  sway?: number;
+  /** How long to stand at the target once there, in seconds. */
+  dwell?: number;
+};
+
+/** Interval of synthesized orientation samples (ms). */
+const SYNTHESIZED_SAMPLE_INTERVAL = 100;
+/** One sway cycle per this many milliseconds, about two steps. */
+const SWAY_PERIOD = 1200;
+/** Fix interval of GPX track points that have no time (ms). */
+const UNTIMED_FIX_INTERVAL = 1000;
+const DEFAULT_GPX_ACCURACY = 5;
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * The field a phone lying flat with its top toward `heading` (degrees from true north)
+ * measures at `position`, in µT in the device frame.
+ */
+export function flatDeviceField(position: Coordinates, heading: number, date: Date): Vector3 {
+  const { north, east, down } = magneticField(position, date);
+  const h = toRadians(heading);
+  return {
+    x: (east * Math.cos(h) - north * Math.sin(h)) / 1000,
+    y: (north * Math.cos(h) + east * Math.sin(h)) / 1000,
+    z: -down / 1000,
+  };
+}
+
+/** Course from each fix to the next; the last fix keeps the previous course. */
+function fixCourses(fixes: SessionFix[]): number[] {
+  const courses = fixes.map((fix, index) => {
+    if (isFiniteNumber(fix.heading) && fix.heading >= 0) return fix.heading;
+    const next = fixes.slice(index + 1).find((other) => haversineDistance(fix, other) > 0.5);
+    return next ? initialBearing(fix, next) : null;
+  });
+  let previous = courses.find((course) => course !== null) ?? 0;
+  return courses.map((course) => (previous = course ?? previous));
+}
+
+/**
+ * Generates orientation streams for a phone held flat and pointed along the course
+ * between fixes, turning smoothly from one course to the next.
+ */
+export function synthesizeOrientation(
+  fixes: SessionFix[],
+  sway = 0
+): Pick<SensorSession, 'magnetometer' | 'accelerometer' | 'gyroscope'> {
+  if (fixes.length === 0) return { magnetometer: [], accelerometer: [], gyroscope: [] };
+
+  const courses = fixCourses(fixes);
+  const headingAt = (t: number) => {
+    const after = fixes.findIndex((fix) => fix.t > t);
+    const index = after === -1 ? fixes.length - 1 : Math.max(0, after - 1);
+    const next = Math.min(index + 1, fixes.length - 1);
+    const span = fixes[next].t - fixes[index].t;
+    const progress = span > 0 ? Math.min(1, Math.max(0, (t - fixes[index].t) / span)) : 0;
+    const turn = relativeBearing(courses[next], courses[index]);
+    return courses[index] + turn * progress + sway * Math.sin((2 * Math.PI * t) / SWAY_PERIOD);
+  };
+
+  // Field strength changes imperceptibly over a walk; sample the model once
+  const date = new Date();
+  const magnetometer: SessionSample[] = [];
+  const accelerometer: SessionSample[] = [];
+  const gyroscope: SessionSample[] = [];
+  const end = fixes[fixes.length - 1].t;
+  let fixIndex = 0;
+  for (let t = fixes[0].t; t <= end; t += SYNTHESIZED_SAMPLE_INTERVAL) {
+    while (fixIndex < fixes.length - 1 && fixes[fixIndex + 1].t <= t) fixIndex++;
+    const heading = headingAt(t);
+    // Degrees per second over the interval ending now, which is how gyro samples are integrated.
+    // Turning clockwise seen from above is a negative rotation about +Z.
+    const turnRate =
+      (relativeBearing(heading, headingAt(t - SYNTHESIZED_SAMPLE_INTERVAL)) * 1000) / SYNTHESIZED_SAMPLE_INTERVAL;
+    magnetometer.push({ t, ...flatDeviceField(fixes[fixIndex], heading, date) });
+    accelerometer.push({ t, x: 0, y: 0, z: 1 });
+    gyroscope.push({ t, x: 0, y: 0, z: -toRadians(turnRate) });
+  }
+  return { magnetometer, accelerometer, gyroscope };
+}
+
+/** A walk in a straight line from `start` to `target` that then stands at the target. */
+export function scriptedWalk(
+  start: Coordinates,
+  target: Coordinates,
+  { speed = 1.4, accuracy = 5, sway = 8, dwell = 30 }: WalkOptions = {}
+): SensorSession {
+  const fixes: SessionFix[] = [];
+  let position = { latitude: start.latitude, longitude: start.longitude };
+  let t = 0;
+  for (;;) {
+    const remaining = haversineDistance(position, target);
+    const heading = initialBearing(position, target);
+    if (remaining <= speed) break;
+    fixes.push({ ...position, t, accuracy, speed, heading });
+    position = destinationPoint(position, heading, speed);
+    t += 1000;
+  }
+  const arrival = fixes.length > 0 ? fixes[fixes.length - 1].heading : initialBearing(start, target);
+  for (let second = 0; second <= dwell; second++) {
+    fixes.push({ latitude: target.latitude, longitude: target.longitude, t, accuracy, speed: 0, heading: arrival });
+    t += 1000;
+  }
+  return { name: 'Scripted walk', fixes, ...synthesizeOrientation(fixes, sway) };
+}
+
+function parseSamples(value: unknown, stream: string): SessionSample[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) throw new SensorSessionError(`"${stream}" must be a list of samples`);
+  return value.map((sample, index) => {
+    const { t, x, y, z } = (sample ?? {}) as Record<string, unknown>;
+    if (![t, x, y, z].every(isFiniteNumber)) {
+      throw new SensorSessionError(`${stream} sample ${index + 1} needs numeric t, x, y and z`);
+    }
+    return { t, x, y, z } as SessionSample;
+  });
+}
+
+function parseFixes(value: unknown): SessionFix[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new SensorSessionError('The session has no "fixes"');
+  }
+  return value.map((fix, index) => {
+    const { t, latitude, longitude, accuracy, altitude, speed, heading } = (fix ?? {}) as Record<string, unknown>;
+    if (
+      ![t, latitude, longitude].every(isFiniteNumber) ||
+      Math.abs(latitude as number) > 90 ||
+      Math.abs(longitude as number) > 180
+    ) {
+      throw new SensorSessionError(`Fix ${index + 1} needs numeric t, latitude and longitude`);
+    }
+    return {
+      t: t as number,
+      latitude: latitude as number,
+      longitude: longitude as number,
+      accuracy: isFiniteNumber(accuracy) ? accuracy : DEFAULT_GPX_ACCURACY,
+      altitude: isFiniteNumber(altitude) ? altitude : null,
+      speed: isFiniteNumber(speed) ? speed : null,
+      heading: isFiniteNumber(heading) ? heading : null,
+    };
+  });
+}
+
+const byTime = <T extends { t: number }>(samples: T[]) => [...samples].sort((a, b) => a.t - b.t);
+
+/**
+ * Parses a JSON recording:
+ * `{ name, fixes: [{ t, latitude, longitude, accuracy? }], magnetometer: [{ t, x, y, z }], … }`
+ * with `t` in milliseconds from the start. Missing orientation streams are synthesized.
+ */
+export function parseSessionJson(json: string, fallbackName = 'Recorded session'): SensorSession {
+  let document: unknown;
+  try {
+    document = JSON.parse(json);
+  } catch (error) {
+    throw new SensorSessionError(`Not a valid JSON file: ${(error as Error).message}`);
+  }
+  if (typeof document !== 'object' || document === null || Array.isArray(document)) {
+    throw new SensorSessionError('Expected a session object');
+  }
+
+  const { name, fixes, magnetometer, accelerometer, gyroscope } = document as Record<string, unknown>;
+  const session: SensorSession = {
+    name: typeof name === 'string' && name.trim() ? name.trim() : fallbackName,
+    fixes: byTime(parseFixes(fixes)),
+    magnetometer: byTime(parseSamples(magnetometer, 'magnetometer')),
+    accelerometer: byTime(parseSamples(accelerometer, 'accelerometer')),
+    gyroscope: byTime(parseSamples(gyroscope, 'gyroscope')),
+  };
+  if (session.magnetometer.length === 0) {
+    const synthesized = synthesizeOrientation(session.fixes);
+    return {
+      ...session,
+      magnetometer: synthesized.magnetometer,
+      // Keep recorded tilt if there is any; a recorded gyroscope would disagree with a synthetic field
+      accelerometer: session.accelerometer.length > 0 ? session.accelerometer : synthesized.accelerometer,
+      gyroscope: synthesized.gyroscope,
+    };
+  }
+  return session;
+}
+
+/** Turns the first track of a GPX document into a session, synthesizing orientation from its course. */
+export function parseSessionGpx(xml: string): SensorSession {
+  const [track] = parseGpxTracks(xml);
+  if (!track || track.points.length < 2) {
+    throw new SensorSessionError('The GPX file has no track to replay');
+  }
+
+  const [first] = track.points;
+  const fixes = track.points.map((point, index): SessionFix => {
+    const t =
+      point.timestamp !== undefined && first.timestamp !== undefined
+        ? point.timestamp - first.timestamp
+        : index * UNTIMED_FIX_INTERVAL;
+    return {
+      latitude: point.latitude,
+      longitude: point.longitude,
+      altitude: point.elevation,
+      t,
+      accuracy: DEFAULT_GPX_ACCURACY,
+    };
+  });
+  const sorted = byTime(fixes);
+  // Derive speed from consecutive fixes; the course comes from synthesizeOrientation
+  const withSpeed = sorted.map((fix, index) => {
+    const previous = sorted[index - 1];
+    const seconds = previous ? (fix.t - previous.t) / 1000 : 0;
+    return { ...fix, speed: seconds > 0 ? haversineDistance(previous, fix) / seconds : null };
+  });
+  return { name: track.name, fixes: withSpeed, ...synthesizeOrientation(withSpeed) };
+}
+
+/** Parses a session file by its name: JSON recordings or GPX tracks. */
+export function parseSessionFile(fileName: string, contents: string): SensorSession {
+  const baseName = fileName.replace(/\.[^.]+$/, '');
+  if (/\.json$/i.test(fileName)) return parseSessionJson(contents, baseName);
+  if (/\.(gpx|xml)$/i.test(fileName)) return parseSessionGpx(contents);
+  throw new SensorSessionError(`${fileName} is not a JSON or GPX session`);
+}
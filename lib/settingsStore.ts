@@ -0,0 +1,76 @@
+import type { CoordinateFormat } from '@/lib/coordinates';
+import type { UnitSystem } from '@/lib/format';
+import type { GpsProfile } from '@/lib/gpsProfiles';
+import { createPersistedStore } from '@/lib/persistedStore';
+import { DEFAULT_PACE_LENGTH } from '@/lib/projection';
+import { DEFAULT_PROXIMITY_RINGS } from '@/lib/proximity';
+import type { OrientationMode } from '@/lib/screenOrientation';
+import type { ThemeName } from '@/lib/theme';
+
+export type Settings = {
+  coordinateFormat: CoordinateFormat;
+  units: UnitSystem;
+  /** Accuracy and update rate of GPS on the navigation screens. */
+  gpsProfile: GpsProfile;
+  /** Compass sensor sampling interval in milliseconds. */
+  sensorInterval: number;
+  /** Duration in milliseconds of the arrow's turn to each new bearing; 0 snaps. */
+  arrowSmoothing: number;
+  /** Half-width in degrees of the compass's on-course cone around the target bearing. */
+  toleranceCone: number;
+  theme: ThemeName;
+  /** Orientations the compass and waypoint screens may rotate to; the rest of the app is portrait. */
+  compassOrientation: OrientationMode;
+  waypointOrientation: OrientationMode;
+  /** Distances in meters, largest first, at which proximity mode sounds an alert. */
+  proximityRings: number[];
+  /** Play ping tones in proximity mode; haptics are always on. */
+  proximityAudio: boolean;
+  /** Keep following the active target with the app in the background or the screen locked. */
+  backgroundTracking: boolean;
+  /** Distance in meters at which background tracking raises a proximity alert. */
+  alertRadius: number;
+  /** Length of one pace in meters, for projections given in paces. */
+  paceLength: number;
+};
+
+export const SENSOR_RATES: { value: number; label: string }[] = [
+  { value: 50, label: 'FAST' },
+  { value: 100, label: 'NORMAL' },
+  { value: 200, label: 'SAVER' },
+];
+
+export const ARROW_SMOOTHING_LEVELS: { value: number; label: string }[] = [
+  { value: 0, label: 'OFF' },
+  { value: 300, label: 'NORMAL' },
+  { value: 800, label: 'HEAVY' },
+];
+
+export const TOLERANCE_CONES: { value: number; label: string }[] = [
+  { value: 5, label: '±5°' },
+  { value: 15, label: '±15°' },
+  { value: 30, label: '±30°' },
+];
+
+export const DEFAULT_SETTINGS: Settings = {
+  coordinateFormat: 'ddm',
+  units: 'metric',
+  gpsProfile: 'balanced',
+  sensorInterval: 100,
+  arrowSmoothing: 300,
+  toleranceCone: 15,
+  theme: 'green',
+  compassOrientation: 'auto',
+  waypointOrientation: 'auto',
+  proximityRings: DEFAULT_PROXIMITY_RINGS,
+  proximityAudio: true,
+  backgroundTracking: false,
+  alertRadius: 50,
+  paceLength: DEFAULT_PACE_LENGTH,
+};
+
+export const settingsStore = createPersistedStore<Settings>('geocash.settings', DEFAULT_SETTINGS);
+
+export function updateSettings(changes: Partial<Settings>) {
+  settingsStore.setState((prev) => ({ ...prev, ...changes }));
+}
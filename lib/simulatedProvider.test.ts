@@ -0,0 +1,100 @@
+import type * as Location from 'expo-location';
+import { Platform } from 'react-native';
+
+import { destinationPoint, haversineDistance, normalizeBearing, relativeBearing, toDegrees } from '@/lib/geo';
+import { tiltCompensatedHeading } from '@/lib/headingFilter';
+import { magneticDeclination } from '@/lib/magneticModel';
+import type { SensorReading } from '@/lib/sensorProvider';
+import { scriptedWalk } from '@/lib/sensorSession';
+import { createSimulatedProvider } from '@/lib/simulatedProvider';
+
+const START = { latitude: 51.5007, longitude: -0.1246 };
+const COURSE = 60;
+const TARGET = destinationPoint(START, COURSE, 100);
+
+/** The simulated accelerometer follows the platform's sign, like the hardware. */
+const ACCELEROMETER_SIGN = Platform.OS === 'ios' ? -1 : 1;
+
+beforeEach(() => {
+  jest.useFakeTimers({ now: new Date('2026-06-01T12:00:00Z') });
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('createSimulatedProvider', () => {
+  it('delivers each fix of a scripted walk once, in real time', async () => {
+    const session = scriptedWalk(START, TARGET, { speed: 1.4, accuracy: 6, dwell: 5 });
+    const provider = createSimulatedProvider(session);
+    const fixes: Location.LocationObject[] = [];
+    const subscription = await provider.watchPositionAsync({ timeInterval: 1000 }, (fix) => fixes.push(fix));
+
+    jest.advanceTimersByTime(0);
+    expect(fixes).toHaveLength(1);
+    expect(fixes[0].coords).toMatchObject({ ...START, accuracy: 6, speed: 1.4 });
+    expect(fixes[0].coords.heading).toBeCloseTo(COURSE, 0);
+
+    jest.advanceTimersByTime(session.fixes[session.fixes.length - 1].t + 5000);
+    subscription.remove();
+    expect(fixes).toHaveLength(session.fixes.length);
+    expect(fixes.every(({ mocked }) => mocked)).toBe(true);
+
+    const walking = fixes.filter(({ coords }) => coords.speed === 1.4);
+    expect(walking.length).toBe(Math.floor(100 / 1.4));
+    walking.slice(1).forEach(({ coords }, index) => {
+      expect(haversineDistance(walking[index].coords, coords)).toBeCloseTo(1.4, 1);
+    });
+
+    const last = fixes[fixes.length - 1];
+    expect(last.coords).toMatchObject({ ...TARGET, speed: 0 });
+    expect(last.timestamp - fixes[0].timestamp).toBe(session.fixes[session.fixes.length - 1].t);
+  });
+
+  it('streams orientation samples that point along the walk', async () => {
+    const sway = 8;
+    const provider = createSimulatedProvider(scriptedWalk(START, TARGET, { sway }));
+    const declination = magneticDeclination(START, new Date());
+    const magnetometer: SensorReading[] = [];
+    const accelerometer: SensorReading[] = [];
+    const gyroscope: SensorReading[] = [];
+    const subscriptions = [
+      provider.magnetometer.addListener((reading) => magnetometer.push(reading)),
+      provider.accelerometer.addListener((reading) => accelerometer.push(reading)),
+      provider.gyroscope.addListener((reading) => gyroscope.push(reading)),
+    ];
+    await expect(provider.magnetometer.isAvailableAsync()).resolves.toBe(true);
+
+    jest.advanceTimersByTime(10000);
+    subscriptions.forEach((subscription) => subscription.remove());
+    jest.advanceTimersByTime(1000);
+    [magnetometer, accelerometer, gyroscope].forEach((readings) => expect(readings).toHaveLength(100));
+    expect(magnetometer[1].timestamp - magnetometer[0].timestamp).toBeCloseTo(0.1, 6);
+
+    const headings = magnetometer.map((field, index) => {
+      const { x, y, z } = accelerometer[index];
+      const up = { x: x * ACCELEROMETER_SIGN, y: y * ACCELEROMETER_SIGN, z: z * ACCELEROMETER_SIGN };
+      expect(up).toEqual({ x: 0, y: 0, z: 1 });
+      return normalizeBearing((tiltCompensatedHeading(field, up) ?? NaN) + declination);
+    });
+    headings.forEach((heading) => expect(Math.abs(relativeBearing(heading, COURSE))).toBeLessThanOrEqual(sway + 0.1));
+    // The phone sways to both sides rather than holding still
+    expect(Math.max(...headings.map((heading) => relativeBearing(heading, COURSE)))).toBeGreaterThan(sway / 2);
+    expect(Math.min(...headings.map((heading) => relativeBearing(heading, COURSE)))).toBeLessThan(-sway / 2);
+
+    // Integrating the gyroscope tracks the sway the magnetometer sees; clockwise is -Z
+    const turned = gyroscope.slice(1).reduce((sum, { z }) => sum - toDegrees(z) * 0.1, 0);
+    expect(turned).toBeCloseTo(relativeBearing(headings[headings.length - 1], headings[0]), 1);
+  });
+
+  it('holds the last samples once the session ends unless looping', async () => {
+    const session = scriptedWalk(START, TARGET, { dwell: 2 });
+    const duration = session.fixes[session.fixes.length - 1].t;
+    const held = createSimulatedProvider(session);
+    const looped = createSimulatedProvider(session, { loop: true });
+
+    jest.advanceTimersByTime(duration + 500);
+    await expect(held.getCurrentPositionAsync({})).resolves.toMatchObject({ coords: TARGET });
+    await expect(looped.getCurrentPositionAsync({})).resolves.toMatchObject({ coords: START });
+  });
+});
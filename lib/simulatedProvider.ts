@@ -0,0 +1,136 @@
+/**
+ * A sensor provider that plays back a recorded or scripted session in real time
+ * instead of reading the hardware. Every stream holds its latest sample and is
+ * re-emitted at the rate the reader asks for, on a clock that starts when the
+ * provider is created. Timers are plain `setInterval`s, so Jest's fake timers
+ * drive playback deterministically.
+ */
+
+import type * as Location from 'expo-location';
+import { Platform } from 'react-native';
+
+import type { SensorProvider, SensorReading, SensorStream } from '@/lib/sensorProvider';
+import type { SensorSession, SessionFix, SessionSample } from '@/lib/sensorSession';
+
+export type SimulationOptions = {
+  /** Start over once the session ends instead of holding its last samples. */
+  loop?: boolean;
+};
+
+const DEFAULT_SENSOR_INTERVAL = 100;
+const DEFAULT_FIX_INTERVAL = 1000;
+
+/** Sessions store gravity pointing up; CoreMotion reports it pointing down. */
+const ACCELEROMETER_SIGN = Platform.OS === 'ios' ? -1 : 1;
+
+/** Index of the last sample at or before `t`, or 0 before the first. */
+function sampleIndex(samples: { t: number }[], t: number): number {
+  let low = 0;
+  let high = samples.length - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (samples[middle].t <= t) low = middle;
+    else high = middle - 1;
+  }
+  return low;
+}
+
+const toLocation = (fix: SessionFix, timestamp: number): Location.LocationObject => ({
+  coords: {
+    latitude: fix.latitude,
+    longitude: fix.longitude,
+    altitude: fix.altitude ?? null,
+    accuracy: fix.accuracy,
+    altitudeAccuracy: null,
+    heading: fix.heading ?? null,
+    speed: fix.speed ?? null,
+  },
+  timestamp,
+  mocked: true,
+});
+
+export function createSimulatedProvider(
+  session: SensorSession,
+  { loop = false }: SimulationOptions = {}
+): SensorProvider {
+  const startedAt = Date.now();
+  const duration = Math.max(
+    ...[session.fixes, session.magnetometer, session.accelerometer, session.gyroscope].map((samples) =>
+      samples.length > 0 ? samples[samples.length - 1].t : 0
+    )
+  );
+  const sessionTime = () => {
+    const elapsed = Date.now() - startedAt;
+    return loop && duration > 0 ? elapsed % duration : elapsed;
+  };
+
+  const currentFix = () => toLocation(session.fixes[sampleIndex(session.fixes, sessionTime())], Date.now());
+
+  function stream(samples: SessionSample[], sign = 1): SensorStream {
+    const listeners = new Set<(reading: SensorReading) => void>();
+    let interval = DEFAULT_SENSOR_INTERVAL;
+    let timer: ReturnType<typeof setInterval> | null = null;
+
+    const tick = () => {
+      if (samples.length === 0) return;
+      const { x, y, z } = samples[sampleIndex(samples, sessionTime())];
+      const reading = { x: x * sign, y: y * sign, z: z * sign, timestamp: Date.now() / 1000 };
+      listeners.forEach((listener) => listener(reading));
+    };
+    const restart = () => {
+      if (timer !== null) clearInterval(timer);
+      timer = listeners.size > 0 ? setInterval(tick, interval) : null;
+    };
+
+    return {
+      isAvailableAsync: async () => samples.length > 0,
+      requestPermissionsAsync: async () => true,
+      setUpdateInterval: (next) => {
+        interval = next;
+        if (timer !== null) restart();
+      },
+      addListener: (listener) => {
+        listeners.add(listener);
+        if (listeners.size === 1) restart();
+        return {
+          remove: () => {
+            if (listeners.delete(listener) && listeners.size === 0) restart();
+          },
+        };
+      },
+    };
+  }
+
+  return {
+    name: session.name,
+    simulated: true,
+    hasServicesEnabledAsync: async () => true,
+    requestPermissionsAsync: async () => true,
+    getCurrentPositionAsync: async () => currentFix(),
+    getLastKnownPositionAsync: async () => currentFix(),
+    watchPositionAsync: async (options, callback) => {
+      // Each fix is delivered once, like a receiver that has nothing new to report
+      let lastIndex = -1;
+      const emit = () => {
+        const index = sampleIndex(session.fixes, sessionTime());
+        if (index === lastIndex) return;
+        lastIndex = index;
+        callback(toLocation(session.fixes[index], Date.now()));
+      };
+      const initial = setTimeout(emit, 0);
+      const timer = setInterval(emit, options.timeInterval ?? DEFAULT_FIX_INTERVAL);
+      return {
+        remove: () => {
+          clearTimeout(initial);
+          clearInterval(timer);
+        },
+      };
+    },
+    watchHeadingAsync: async () => {
+      throw new Error(`${session.name} has no system compass; replay its magnetometer instead`);
+    },
+    magnetometer: stream(session.magnetometer),
+    accelerometer: stream(session.accelerometer, ACCELEROMETER_SIGN),
+    gyroscope: stream(session.gyroscope),
+  };
+}
@@ -0,0 +1,147 @@
+import type { Cache } from '@/lib/cacheStore';
+import {
+  findSharedCache,
+  parseTargetLink,
+  TARGET_LINK_BASE,
+  targetLink,
+  TargetLinkError,
+  type TargetLinkParams,
+} from '@/lib/targetLink';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const cache = (changes: Partial<Cache> = {}): Cache => ({
+  id: 'c1',
+  name: 'Fountain',
+  coordinates: { latitude: 37.7749, longitude: -122.4194 },
+  difficulty: 2,
+  hint: '',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  ...changes,
+});
+
+/** Query parameters of a link, as the router hands them to the target screen. */
+function linkParams(link: string): TargetLinkParams {
+  expect(link.startsWith(`${TARGET_LINK_BASE}?`)).toBe(true);
+  const params: TargetLinkParams = {};
+  for (const pair of link.slice(TARGET_LINK_BASE.length + 1).split('&')) {
+    const [key, value] = pair.split('=');
+    params[key] = decodeURIComponent(value);
+  }
+  return params;
+}
+
+const linkError = (params: TargetLinkParams) => {
+  try {
+    parseTargetLink(params);
+  } catch (error) {
+    expect(error).toBeInstanceOf(TargetLinkError);
+    return (error as Error).message;
+  }
+  throw new Error('The link parsed without an error');
+};
+
+describe('targetLink', () => {
+  it('writes the position, name and difficulty', () => {
+    expect(targetLink(cache())).toBe(`${TARGET_LINK_BASE}?lat=37.774900&lon=-122.419400&name=Fountain&d=2`);
+  });
+
+  it('encodes the optional fields', () => {
+    const link = targetLink(cache({ name: 'Park & Ride', code: 'GC1A2B3', hint: 'Under the "bench"' }));
+    expect(link).toBe(
+      `${TARGET_LINK_BASE}?lat=37.774900&lon=-122.419400&name=Park%20%26%20Ride&code=GC1A2B3&d=2` +
+        '&hint=Under%20the%20%22bench%22'
+    );
+  });
+
+  it('shares stages but not what was found or the variable values', () => {
+    const stages = [
+      { id: 's1', name: 'Sign', coordinates: "N 37° 46.4AB' W 122° 25.1CD'", hint: 'Count the letters', found: true },
+    ];
+    const params = linkParams(targetLink(cache({ stages, variables: { A: 1 } })));
+    expect(JSON.parse(params.stages as string)).toEqual([["N 37° 46.4AB' W 122° 25.1CD'", 'Sign', 'Count the letters']]);
+    expect(Object.keys(params)).toEqual(['lat', 'lon', 'name', 'd', 'stages']);
+  });
+});
+
+describe('parseTargetLink', () => {
+  it('reads back a shared cache', () => {
+    const stages = [
+      { id: 's1', name: 'Sign', coordinates: "N 37° 46.4AB' W 122° 25.1CD'", hint: 'Count the letters', found: true },
+      { id: 's2', name: 'Final', coordinates: "N 37° 46.494' W 122° 25.164'", hint: '', found: false },
+    ];
+    const shared = cache({ code: 'GC1A2B3', hint: 'Magnetic', difficulty: 3.5, stages });
+    const draft = parseTargetLink(linkParams(targetLink(shared)));
+
+    expect(draft).toMatchObject({
+      name: 'Fountain',
+      code: 'GC1A2B3',
+      coordinates: shared.coordinates,
+      difficulty: 3.5,
+      hint: 'Magnetic',
+    });
+    expect(draft.stages?.map(({ name, coordinates, hint, found }) => ({ name, coordinates, hint, found }))).toEqual([
+      { name: 'Sign', coordinates: stages[0].coordinates, hint: 'Count the letters', found: false },
+      { name: 'Final', coordinates: stages[1].coordinates, hint: '', found: false },
+    ]);
+  });
+
+  it('fills in what a minimal link leaves out', () => {
+    expect(parseTargetLink({ lat: '-33.8568', lon: '151.2153' })).toEqual({
+      name: 'Shared target',
+      coordinates: { latitude: -33.8568, longitude: 151.2153 },
+      difficulty: 1.5,
+      hint: '',
+    });
+  });
+
+  it('names a cache after its upper-cased code and takes the first of repeated keys', () => {
+    const draft = parseTargetLink({ lat: ['10', '20'], lon: ' 20 ', code: 'gc1a2b3' });
+    expect(draft).toMatchObject({ name: 'GC1A2B3', code: 'GC1A2B3', coordinates: { latitude: 10, longitude: 20 } });
+  });
+
+  it('names stages without a name after their position', () => {
+    const draft = parseTargetLink({ lat: '10', lon: '20', stages: '[["N 10 E 20"]]' });
+    expect(draft.stages).toMatchObject([{ name: 'Stage 1', coordinates: 'N 10 E 20', hint: '' }]);
+  });
+
+  it.each<[TargetLinkParams, string]>([
+    [{ lon: '20' }, 'The link has no lat'],
+    [{ lat: '10', lon: ' ' }, 'The link has no lon'],
+    [{ lat: '10,5', lon: '20' }, 'lat "10,5" is not a decimal number of degrees'],
+    [{ lat: '10', lon: 'N 20' }, 'lon "N 20" is not a decimal number of degrees'],
+    [{ lat: '90.5', lon: '20' }, 'lat 90.5 is out of range (-90 to 90)'],
+    [{ lat: '10', lon: '-180.1' }, 'lon -180.1 is out of range (-180 to 180)'],
+    [{ lat: '10', lon: '20', d: '6' }, 'Difficulty "6" must be 1 to 5 in half steps'],
+    [{ lat: '10', lon: '20', d: '2.25' }, 'Difficulty "2.25" must be 1 to 5 in half steps'],
+    [{ lat: '10', lon: '20', stages: '[["N 10 E 20"' }, 'The stages in the link are not valid JSON'],
+    [{ lat: '10', lon: '20', stages: '[]' }, 'The stages in the link must be a non-empty list'],
+    [{ lat: '10', lon: '20', stages: '{"a":1}' }, 'The stages in the link must be a non-empty list'],
+    [{ lat: '10', lon: '20', stages: '[["N 10 E 20"],[3]]' }, 'Stage 2 must be a list of coordinates, name and hint'],
+    [{ lat: '10', lon: '20', stages: '[[" ", "Sign"]]' }, 'Stage 1 has no coordinates'],
+    [{ lat: '10', lon: '20', stages: '[["N 91 E 20"]]' }, 'Stage 1: Latitude must be between -90 and 90'],
+  ])('rejects %j', (params, message) => {
+    expect(linkError(params)).toBe(message);
+  });
+});
+
+describe('findSharedCache', () => {
+  const saved = [
+    cache({ id: 'c1', code: 'GC1A2B3' }),
+    cache({ id: 'c2', name: 'Oak', coordinates: { latitude: 10, longitude: 20 } }),
+  ];
+
+  it('matches by listing code regardless of case', () => {
+    const draft = parseTargetLink({ lat: '0', lon: '0', code: 'gc1a2b3' });
+    expect(findSharedCache(saved, draft)?.id).toBe('c1');
+    expect(findSharedCache(saved, parseTargetLink({ lat: '0', lon: '0', code: 'GC9' }))).toBeUndefined();
+  });
+
+  it('matches by name within a couple of meters', () => {
+    expect(findSharedCache(saved, parseTargetLink({ lat: '10.00001', lon: '20', name: 'Oak' }))?.id).toBe('c2');
+    expect(findSharedCache(saved, parseTargetLink({ lat: '10.001', lon: '20', name: 'Oak' }))).toBeUndefined();
+    expect(findSharedCache(saved, parseTargetLink({ lat: '10', lon: '20', name: 'Elm' }))).toBeUndefined();
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * `geocashv2://target` links that hand a target to a teammate, opened by tapping the link
+ * or scanning a cache's QR code:
+ *
+ *   geocashv2://target?lat=37.774900&lon=-122.419400&name=Fountain&d=2
+ *   geocashv2://target?lat=…&lon=…&name=Park%20walk&stages=[["N 37° 46.4AB' W 122° 25.1CD'","Sign","Count the letters"],…]  (URL-encoded)
+ *
+ * `lat`/`lon` are decimal degrees and always required. `name`, `code`, `d` (difficulty)
+ * and `hint` are optional. The multi-cache variant adds `stages`, a JSON array of
+ * `[coordinates, name, hint]` tuples in order, where coordinates may be formulas.
+ */
+
+import { DIFFICULTY_LEVELS, type Cache, type CacheDraft, type CacheStage } from '@/lib/cacheStore';
+import { CoordinateParseError, parseCoordinates } from '@/lib/coordinates';
+import { isFormula } from '@/lib/formulaCoordinates';
+import { haversineDistance } from '@/lib/geo';
+import { generateId } from '@/lib/id';
+
+export const TARGET_LINK_BASE = 'geocashv2://target';
+
+/** Roughly what a QR code still scans reliably from a phone screen. */
+export const MAX_QR_LINK_LENGTH = 1200;
+
+/** Shared caches within this many meters of a saved one with the same name are the same cache. */
+const SAME_CACHE_DISTANCE = 2;
+
+export class TargetLinkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TargetLinkError';
+  }
+}
+
+export type TargetLinkParams = Record<string, string | string[] | undefined>;
+
+/** The link for a saved cache. Found stages and formula variable values stay private. */
+export function targetLink(cache: Cache): string {
+  const params: [string, string][] = [
+    ['lat', cache.coordinates.latitude.toFixed(6)],
+    ['lon', cache.coordinates.longitude.toFixed(6)],
+    ['name', cache.name],
+  ];
+  if (cache.code) params.push(['code', cache.code]);
+  params.push(['d', String(cache.difficulty)]);
+  if (cache.hint) params.push(['hint', cache.hint]);
+  if (cache.stages?.length) {
+    params.push(['stages', JSON.stringify(cache.stages.map((stage) => [stage.coordinates, stage.name, stage.hint]))]);
+  }
+  return `${TARGET_LINK_BASE}?${params.map(([key, value]) => `${key}=${encodeURIComponent(value)}`).join('&')}`;
+}
+
+/** A repeated query key counts as its first value. */
+const single = (value: string | string[] | undefined) => (Array.isArray(value) ? value[0] : value)?.trim() ?? '';
+
+function parseDegrees(params: TargetLinkParams, key: 'lat' | 'lon', limit: number): number {
+  const text = single(params[key]);
+  if (!text) throw new TargetLinkError(`The link has no ${key}`);
+  if (!/^[-+]?(\d+\.?\d*|\.\d+)$/.test(text)) {
+    throw new TargetLinkError(`${key} "${text}" is not a decimal number of degrees`);
+  }
+  const value = Number(text);
+  if (Math.abs(value) > limit) {
+    throw new TargetLinkError(`${key} ${value} is out of range (-${limit} to ${limit})`);
+  }
+  return value;
+}
+
+function parseStages(text: string): CacheStage[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new TargetLinkError('The stages in the link are not valid JSON');
+  }
+  if (!Array.isArray(parsed) || parsed.length === 0) {
+    throw new TargetLinkError('The stages in the link must be a non-empty list');
+  }
+
+  return parsed.map((entry, index) => {
+    const label = `Stage ${index + 1}`;
+    if (!Array.isArray(entry) || entry.length < 1 || entry.some((field) => typeof field !== 'string')) {
+      throw new TargetLinkError(`${label} must be a list of coordinates, name and hint`);
+    }
+    const [coordinates, name = '', hint = ''] = (entry as string[]).map((field) => field.trim());
+    if (!coordinates) throw new TargetLinkError(`${label} has no coordinates`);
+    if (!isFormula(coordinates)) {
+      try {
+        parseCoordinates(coordinates);
+      } catch (error) {
+        if (error instanceof CoordinateParseError) throw new TargetLinkError(`${label}: ${error.message}`);
+        throw error;
+      }
+    }
+    return { id: generateId(), name: name || label, coordinates, hint, found: false };
+  });
+}
+
+/**
+ * Validates the query of a target link and turns it into a cache draft.
+ * Throws a `TargetLinkError` describing the first problem found.
+ */
+export function parseTargetLink(params: TargetLinkParams): CacheDraft {
+  const latitude = parseDegrees(params, 'lat', 90);
+  const longitude = parseDegrees(params, 'lon', 180);
+
+  const difficultyText = single(params.d);
+  const difficulty = difficultyText ? Number(difficultyText) : 1.5;
+  if (!DIFFICULTY_LEVELS.includes(difficulty)) {
+    throw new TargetLinkError(`Difficulty "${difficultyText}" must be 1 to 5 in half steps`);
+  }
+
+  const stagesText = single(params.stages);
+  const code = single(params.code).toUpperCase();
+  return {
+    name: single(params.name) || code || 'Shared target',
+    coordinates: { latitude, longitude },
+    difficulty,
+    hint: single(params.hint),
+    ...(code && { code }),
+    ...(stagesText && { stages: parseStages(stagesText) }),
+  };
+}
+
+/** A saved cache the shared one duplicates: same listing code, or same name and place. */
+export function findSharedCache(caches: Cache[], draft: CacheDraft): Cache | undefined {
+  if (draft.code) return caches.find((cache) => cache.code?.toUpperCase() === draft.code);
+  return caches.find(
+    (cache) =>
+      cache.name === draft.name && haversineDistance(cache.coordinates, draft.coordinates) <= SAME_CACHE_DISTANCE
+  );
+}
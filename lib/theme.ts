@@ -0,0 +1,33 @@
+/**
+ * Colour schemes for the navigation screens. Every theme stays light-on-black; amber and
+ * red are easier on night vision than the default green.
+ */
+
+export type ThemeName = 'green' | 'amber' | 'red';
+
+export type Palette = {
+  /** Text, outlines and the arrow. */
+  accent: string;
+  /** Placeholders and other de-emphasised text. */
+  muted: string;
+  /** The accent at the given opacity, for panel fills and faint borders. */
+  tint: (alpha: number) => string;
+};
+
+const palette = (accent: string, muted: string, rgb: string): Palette => ({
+  accent,
+  muted,
+  tint: (alpha) => `rgba(${rgb}, ${alpha})`,
+});
+
+export const PALETTES: Record<ThemeName, Palette> = {
+  green: palette('#00ff00', '#006600', '0, 255, 0'),
+  amber: palette('#ffb000', '#664400', '255, 176, 0'),
+  red: palette('#ff3030', '#661010', '255, 48, 48'),
+};
+
+export const THEMES: { value: ThemeName; label: string }[] = [
+  { value: 'green', label: 'GREEN' },
+  { value: 'amber', label: 'AMBER' },
+  { value: 'red', label: 'NIGHT RED' },
+];
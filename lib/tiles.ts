@@ -0,0 +1,90 @@
+/**
+ * Web Mercator ("slippy map") math shared by the map view and tile sources.
+ * World points are pixel coordinates at a zoom level, origin at the north-west corner.
+ */
+
+import { toDegrees, toRadians, type Coordinates } from '@/lib/geo';
+
+export const TILE_SIZE = 256;
+/** Sphere radius of the Web Mercator projection (the WGS-84 semi-major axis), m. */
+const MERCATOR_RADIUS = 6378137;
+/** Latitude at which the Mercator square ends. */
+const MAX_LATITUDE = 85.05112878;
+
+export type WorldPoint = {
+  x: number;
+  y: number;
+};
+
+export type VisibleTile = {
+  /** Tile address at the source zoom level. */
+  z: number;
+  x: number;
+  y: number;
+  /** Screen position and size in pixels. */
+  left: number;
+  top: number;
+  size: number;
+};
+
+const worldSize = (zoom: number) => TILE_SIZE * Math.pow(2, zoom);
+
+export function toWorldPoint({ latitude, longitude }: Coordinates, zoom: number): WorldPoint {
+  const φ = toRadians(Math.min(Math.max(latitude, -MAX_LATITUDE), MAX_LATITUDE));
+  const size = worldSize(zoom);
+  return {
+    x: ((longitude + 180) / 360) * size,
+    y: ((1 - Math.log(Math.tan(φ) + 1 / Math.cos(φ)) / Math.PI) / 2) * size,
+  };
+}
+
+export function fromWorldPoint({ x, y }: WorldPoint, zoom: number): Coordinates {
+  const size = worldSize(zoom);
+  const n = Math.PI * (1 - (2 * y) / size);
+  return {
+    latitude: toDegrees(Math.atan(Math.sinh(n))),
+    // Wrap points panned past the antimeridian back into [-180, 180)
+    longitude: ((((x / size) * 360) % 360) + 360) % 360 - 180,
+  };
+}
+
+/** Ground resolution at a latitude and zoom level. */
+export function metersPerPixel(latitude: number, zoom: number): number {
+  return (Math.cos(toRadians(latitude)) * 2 * Math.PI * MERCATOR_RADIUS) / worldSize(zoom);
+}
+
+/**
+ * Tiles covering a `width`×`height` viewport centred on `center` at `zoom`. Tiles are
+ * taken from `tileZoom`, which may be lower than `zoom` to over-zoom a source past its
+ * deepest level.
+ */
+export function visibleTiles(
+  center: WorldPoint,
+  zoom: number,
+  width: number,
+  height: number,
+  tileZoom: number = zoom
+): VisibleTile[] {
+  const size = TILE_SIZE * Math.pow(2, zoom - tileZoom);
+  const tileCount = Math.pow(2, tileZoom);
+  const originX = center.x - width / 2;
+  const originY = center.y - height / 2;
+
+  const tiles: VisibleTile[] = [];
+  const firstY = Math.max(0, Math.floor(originY / size));
+  const lastY = Math.min(tileCount - 1, Math.floor((originY + height) / size));
+  for (let y = firstY; y <= lastY; y++) {
+    for (let column = Math.floor(originX / size); column <= Math.floor((originX + width) / size); column++) {
+      tiles.push({
+        z: tileZoom,
+        // Wrap around the antimeridian
+        x: ((column % tileCount) + tileCount) % tileCount,
+        y,
+        left: column * size - originX,
+        top: y * size - originY,
+        size,
+      });
+    }
+  }
+  return tiles;
+}
@@ -0,0 +1,86 @@
+/**
+ * Feeds location fixes into the track being recorded. It watches the track store and
+ * holds a location subscription only while a track is actively recording.
+ */
+
+import * as Location from 'expo-location';
+import { AppState } from 'react-native';
+
+import { getSensorProvider, subscribeSensorProvider } from '@/lib/sensorProvider';
+import { appendTrackPoint, flushTracks, getRecordingStatus, trackStore } from '@/lib/trackStore';
+
+const RECORDING_OPTIONS: Location.LocationOptions = {
+  accuracy: Location.Accuracy.BestForNavigation,
+  timeInterval: 1000,
+  distanceInterval: 2,
+};
+
+/** Converts a fix into a track point. Exported for other location sources. */
+export function recordLocation({ coords, timestamp }: Location.LocationObject) {
+  appendTrackPoint({
+    latitude: coords.latitude,
+    longitude: coords.longitude,
+    elevation: coords.altitude,
+    timestamp,
+    accuracy: coords.accuracy,
+    heading: coords.heading !== null && coords.heading >= 0 ? coords.heading : null,
+  });
+}
+
+/** Starts following the track store; returns a function that stops it. */
+export function startTrackRecorder(): () => void {
+  let subscription: Location.LocationSubscription | null = null;
+  let starting = false;
+
+  const sync = async () => {
+    const recording = getRecordingStatus() === 'recording';
+    if (!recording) {
+      subscription?.remove();
+      subscription = null;
+      return;
+    }
+    if (subscription || starting) return;
+
+    starting = true;
+    const provider = getSensorProvider();
+    try {
+      if (!(await provider.requestPermissionsAsync())) {
+        console.warn('Track recording needs location permission');
+        return;
+      }
+      const watcher = await provider.watchPositionAsync(RECORDING_OPTIONS, recordLocation);
+      // Recording may have been paused, or the provider switched, while we were waiting
+      if (getRecordingStatus() === 'recording' && provider === getSensorProvider()) subscription = watcher;
+      else watcher.remove();
+    } catch (error) {
+      console.warn('Failed to start track recording:', error);
+    } finally {
+      starting = false;
+    }
+    // Follow a provider switch that happened while we were starting
+    if (provider !== getSensorProvider()) sync();
+  };
+
+  const unsubscribe = trackStore.subscribe(() => {
+    sync();
+  });
+  // Keep recording from whichever provider is active
+  const unsubscribeProvider = subscribeSensorProvider(() => {
+    subscription?.remove();
+    subscription = null;
+    sync();
+  });
+  // Batched points would be lost if the app were killed in the background
+  const appState = AppState.addEventListener('change', (state) => {
+    if (state !== 'active') flushTracks();
+  });
+  sync();
+
+  return () => {
+    unsubscribe();
+    unsubscribeProvider();
+    appState.remove();
+    subscription?.remove();
+    subscription = null;
+  };
+}
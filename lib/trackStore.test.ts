@@ -0,0 +1,171 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import {
+  appendTrackPoint,
+  deleteTrack,
+  flushTracks,
+  pauseTrack,
+  resumeTrack,
+  startTrack,
+  stopTrack,
+  trackPoints,
+  trackStore,
+  type RecordedPoint,
+  type RecordedTrack,
+} from '@/lib/trackStore';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const START = Date.UTC(2026, 5, 1, 8);
+
+const point = (index: number): RecordedPoint => ({
+  latitude: 47.3769 + index * 1e-5,
+  longitude: 8.5417,
+  elevation: 410,
+  timestamp: START + (index + 1) * 1000,
+  accuracy: 5,
+  heading: 0,
+});
+
+async function storedItems(): Promise<Record<string, string>> {
+  const entries = await AsyncStorage.multiGet(await AsyncStorage.getAllKeys());
+  return Object.fromEntries(entries.map(([key, value]) => [key, value ?? '']));
+}
+
+/** Records a track of `count` points with a pause half-way through. */
+function recordTrack(count: number): RecordedTrack {
+  const track = startTrack(START);
+  for (let index = 0; index < count; index++) {
+    if (index === Math.floor(count / 2)) {
+      pauseTrack(point(index).timestamp);
+      resumeTrack(point(index).timestamp);
+    }
+    appendTrackPoint(point(index));
+  }
+  stopTrack(point(count).timestamp);
+  return trackStore.getState().tracks.find(({ id }) => id === track.id)!;
+}
+
+beforeEach(async () => {
+  jest.useFakeTimers({ now: START });
+  await trackStore.hydrate();
+});
+
+afterEach(async () => {
+  trackStore.getState().tracks.forEach(({ id }) => deleteTrack(id));
+  await flushTracks();
+  await AsyncStorage.clear();
+  jest.useRealTimers();
+});
+
+describe('trackStore', () => {
+  it('stores points in chunks apart from the track list', async () => {
+    const track = recordTrack(2500);
+    await flushTracks();
+
+    const items = await storedItems();
+    const chunkKeys = Object.keys(items).filter((key) => key.startsWith(`geocash.track.${track.id}.`));
+    expect(chunkKeys.sort()).toEqual([0, 1, 2].map((chunk) => `geocash.track.${track.id}.${chunk}`));
+    expect(JSON.parse(items[chunkKeys[2]])).toHaveLength(500);
+    expect(Object.values(items).every((value) => value.length < 200000)).toBe(true);
+
+    const index = JSON.parse(items['geocash.tracks']);
+    expect(index.tracks).toEqual([expect.objectContaining({ id: track.id, segmentStarts: [0, 1250] })]);
+    expect(index.tracks[0]).not.toHaveProperty('segments');
+  });
+
+  it('batches appended points into one write', async () => {
+    startTrack(START);
+    await flushTracks();
+    const multiSet = jest.spyOn(AsyncStorage, 'multiSet');
+    multiSet.mockClear();
+
+    for (let index = 0; index < 20; index++) appendTrackPoint(point(index));
+    expect(multiSet).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(10000);
+    await flushTracks();
+    expect(multiSet).toHaveBeenCalledTimes(1);
+    // Only the chunk changed, not the track list
+    expect(multiSet.mock.calls[0][0].map(([key]) => key)).toEqual([
+      `geocash.track.${trackStore.getState().recordingTrackId}.0`,
+    ]);
+  });
+
+  it('loads recorded tracks back', async () => {
+    const track = recordTrack(1200);
+    await flushTracks();
+    const items = await storedItems();
+
+    await jest.isolateModulesAsync(async () => {
+      const storage: typeof AsyncStorage = require('@react-native-async-storage/async-storage');
+      await storage.multiSet(Object.entries(items));
+      const fresh: typeof import('@/lib/trackStore') = require('@/lib/trackStore');
+      await fresh.trackStore.hydrate();
+      expect(fresh.trackStore.getState().tracks).toEqual([track]);
+    });
+  });
+
+  it('moves tracks saved as a single value into chunks', async () => {
+    const legacy: RecordedTrack = {
+      id: 'legacy',
+      name: 'Old walk',
+      startedAt: new Date(START).toISOString(),
+      segments: [[point(0), point(1)], [point(2)]],
+      activeDuration: 3000,
+      resumedAt: null,
+    };
+    const items = {
+      'geocash.tracks': JSON.stringify({ tracks: [legacy], recordingTrackId: null, backtrack: null }),
+    };
+
+    await jest.isolateModulesAsync(async () => {
+      const storage: typeof AsyncStorage = require('@react-native-async-storage/async-storage');
+      await storage.multiSet(Object.entries(items));
+      const fresh: typeof import('@/lib/trackStore') = require('@/lib/trackStore');
+      await fresh.trackStore.hydrate();
+      await fresh.flushTracks();
+
+      expect(fresh.trackStore.getState().tracks).toEqual([legacy]);
+      expect(JSON.parse((await storage.getItem('geocash.tracks'))!).tracks).toEqual([
+        expect.objectContaining({ id: 'legacy', segmentStarts: [0, 2] }),
+      ]);
+      expect(JSON.parse((await storage.getItem('geocash.track.legacy.0'))!)).toEqual(trackPoints(legacy));
+    });
+  });
+
+  it('keeps stored tracks when recording starts before they load', async () => {
+    const track = recordTrack(10);
+    await flushTracks();
+    const items = await storedItems();
+
+    await jest.isolateModulesAsync(async () => {
+      const storage: typeof AsyncStorage = require('@react-native-async-storage/async-storage');
+      await storage.multiSet(Object.entries(items));
+      const fresh: typeof import('@/lib/trackStore') = require('@/lib/trackStore');
+      const started = fresh.startTrack(START + 60000);
+      fresh.appendTrackPoint({ ...point(0), timestamp: START + 61000 });
+      await fresh.trackStore.hydrate();
+      await fresh.flushTracks();
+
+      expect(fresh.trackStore.getState().tracks.map(({ id }) => id)).toEqual([track.id, started.id]);
+      expect(fresh.trackStore.getState().recordingTrackId).toBe(started.id);
+      const index = JSON.parse((await storage.getItem('geocash.tracks'))!);
+      expect(index.tracks.map(({ id }: { id: string }) => id)).toEqual([track.id, started.id]);
+      expect(JSON.parse((await storage.getItem(`geocash.track.${started.id}.0`))!)).toHaveLength(1);
+    });
+  });
+
+  it('removes the chunks of a deleted track', async () => {
+    const track = recordTrack(1500);
+    await flushTracks();
+    deleteTrack(track.id);
+    await flushTracks();
+
+    const items = await storedItems();
+    expect(Object.keys(items)).toEqual(['geocash.tracks']);
+    expect(JSON.parse(items['geocash.tracks']).tracks).toEqual([]);
+  });
+});
@@ -0,0 +1,366 @@
+/**
+ * Recorded tracks. The track list is persisted under one key and each track's points in
+ * fixed-size chunks of their own, so no stored value outgrows what AsyncStorage can read
+ * back (about 2 MB per value on Android). Appending a fix only rewrites the track's last
+ * chunk, and appends are batched; anything else is written straight away.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { haversineDistance, type Coordinates } from '@/lib/geo';
+import type { GpxTrack, TrackPoint } from '@/lib/gpx';
+import { generateId } from '@/lib/id';
+import type { PersistedStore } from '@/lib/persistedStore';
+
+export type RecordedPoint = TrackPoint & {
+  /** Milliseconds since the epoch. */
+  timestamp: number;
+  /** Horizontal accuracy in meters, when the fix reported one. */
+  accuracy: number | null;
+  /** GPS course over ground in degrees, when moving. */
+  heading: number | null;
+};
+
+export type RecordedTrack = {
+  id: string;
+  name: string;
+  /** ISO-8601 timestamp. */
+  startedAt: string;
+  /** A new segment starts on every resume, so pauses are not counted as walked distance. */
+  segments: RecordedPoint[][];
+  /** Milliseconds spent recording up to the last pause or stop. */
+  activeDuration: number;
+  /** Epoch milliseconds when recording last started or resumed; null while paused or stopped. */
+  resumedAt: number | null;
+};
+
+export type RecordingStatus = 'recording' | 'paused' | 'stopped';
+
+/** "Take me back" navigates to the track's first point or to the closest point on it. */
+export type BacktrackMode = 'trailhead' | 'nearest';
+
+type TrackState = {
+  tracks: RecordedTrack[];
+  recordingTrackId: string | null;
+  backtrack: BacktrackMode | null;
+};
+
+/** Fixes less accurate than this (m) are kept but not counted towards distance. */
+const MAX_DISTANCE_ACCURACY = 50;
+
+/** A track as stored under the index key, with its points in separate chunks. */
+type StoredTrack = Omit<RecordedTrack, 'segments'> & {
+  /** Index of each segment's first point among the track's points. */
+  segmentStarts: number[];
+};
+
+type StoredState = Omit<TrackState, 'tracks'> & {
+  /** Tracks saved before points moved to chunks still carry their segments. */
+  tracks: (StoredTrack | RecordedTrack)[];
+};
+
+const INDEX_KEY = 'geocash.tracks';
+/** Points per stored chunk, roughly 130 kB of JSON. */
+const CHUNK_SIZE = 1000;
+/** Appended points are written at most this often (ms). */
+const FLUSH_DELAY = 10000;
+
+const chunkPrefix = (id: string) => `geocash.track.${id}.`;
+
+function toStoredTrack({ segments, ...track }: RecordedTrack): StoredTrack {
+  const segmentStarts: number[] = [];
+  let start = 0;
+  for (const segment of segments) {
+    segmentStarts.push(start);
+    start += segment.length;
+  }
+  return { ...track, segmentStarts };
+}
+
+function fromStoredTrack({ segmentStarts, ...track }: StoredTrack, points: RecordedPoint[]): RecordedTrack {
+  return {
+    ...track,
+    segments: segmentStarts.map((start, index) => points.slice(start, segmentStarts[index + 1] ?? points.length)),
+  };
+}
+
+async function loadTrackPoints(id: string, keys: readonly string[]): Promise<RecordedPoint[]> {
+  const prefix = chunkPrefix(id);
+  const chunkKeys = keys
+    .filter((key) => key.startsWith(prefix))
+    .sort((a, b) => Number(a.slice(prefix.length)) - Number(b.slice(prefix.length)));
+  const chunks = await AsyncStorage.multiGet(chunkKeys);
+  return chunks.flatMap(([, raw]) => (raw ? (JSON.parse(raw) as RecordedPoint[]) : []));
+}
+
+/**
+ * The track list as a persisted store. Like `createPersistedStore`, hydration is lazy and
+ * updates made before it finishes are replayed onto the stored tracks. If stored tracks
+ * cannot be read nothing is written, rather than overwriting them.
+ */
+function createTrackStore(initialState: TrackState): PersistedStore<TrackState> & { flush: () => Promise<void> } {
+  let state = initialState;
+  let writable = true;
+  let hydrated = false;
+  /** Updates made before hydration finished, replayed onto the stored tracks once they load. */
+  let pending: ((prev: TrackState) => TrackState)[] = [];
+  let hydration: Promise<void> | null = null;
+  let writing: Promise<void> = Promise.resolve();
+  let flushTimer: ReturnType<typeof setTimeout> | null = null;
+  /** The index as last written, and how many points of each track are in storage. */
+  let savedIndex: string | null = null;
+  const savedPoints = new Map<string, number>();
+  const listeners = new Set<() => void>();
+
+  const emit = () => listeners.forEach((listener) => listener());
+
+  const serializeIndex = ({ tracks, ...rest }: TrackState) =>
+    JSON.stringify({ ...rest, tracks: tracks.map(toStoredTrack) } satisfies StoredState);
+
+  /** Writes the index if it changed, new points chunk by chunk, and drops deleted tracks' chunks. */
+  async function write() {
+    // Nothing is written over the stored tracks before they have been read
+    await hydrate();
+    if (!writable) return;
+    const index = serializeIndex(state);
+    const written: [string, number][] = [];
+    const entries: [string, string][] = [];
+    for (const track of state.tracks) {
+      const points = trackPoints(track);
+      const saved = savedPoints.get(track.id) ?? 0;
+      if (points.length <= saved) continue;
+      // Points are only ever appended, so everything before the last saved chunk is unchanged
+      for (let start = saved - (saved % CHUNK_SIZE); start < points.length; start += CHUNK_SIZE) {
+        const chunk = points.slice(start, start + CHUNK_SIZE);
+        entries.push([`${chunkPrefix(track.id)}${start / CHUNK_SIZE}`, JSON.stringify(chunk)]);
+      }
+      written.push([track.id, points.length]);
+    }
+    if (index !== savedIndex) entries.push([INDEX_KEY, index]);
+    if (entries.length > 0) await AsyncStorage.multiSet(entries);
+    savedIndex = index;
+    written.forEach(([id, count]) => savedPoints.set(id, count));
+
+    const deleted = [...savedPoints.keys()].filter((id) => !state.tracks.some((track) => track.id === id));
+    if (deleted.length === 0) return;
+    const keys = await AsyncStorage.getAllKeys();
+    await AsyncStorage.multiRemove(keys.filter((key) => deleted.some((id) => key.startsWith(chunkPrefix(id)))));
+    deleted.forEach((id) => savedPoints.delete(id));
+  }
+
+  const flush = () => {
+    if (flushTimer !== null) clearTimeout(flushTimer);
+    flushTimer = null;
+    writing = writing.then(write).catch((error) => {
+      console.warn(`Failed to save ${INDEX_KEY}:`, error);
+    });
+    return writing;
+  };
+
+  const hydrate = () => {
+    if (!hydration) {
+      hydration = (async () => {
+        try {
+          const raw = await AsyncStorage.getItem(INDEX_KEY);
+          if (raw == null) return;
+          const stored = JSON.parse(raw) as StoredState;
+          const keys = await AsyncStorage.getAllKeys();
+          const tracks = await Promise.all(
+            stored.tracks.map(async (track) => {
+              if ('segments' in track) return track;
+              const points = await loadTrackPoints(track.id, keys);
+              savedPoints.set(track.id, points.length);
+              return fromStoredTrack(track, points);
+            })
+          );
+          state = { ...initialState, ...stored, tracks };
+          savedIndex = raw;
+        } catch (error) {
+          writable = false;
+          console.warn(`Failed to load ${INDEX_KEY}; recorded tracks will not be saved:`, error);
+        } finally {
+          state = pending.reduce((current, update) => update(current), state);
+          hydrated = true;
+          emit();
+        }
+      })();
+      // Saves early updates, and moves tracks saved in the old single-value format into chunks
+      hydration.then(() => {
+        const early = pending.length > 0;
+        pending = [];
+        if (early || serializeIndex(state) !== savedIndex) flush();
+      });
+    }
+    return hydration;
+  };
+
+  const setState = (update: TrackState | ((prev: TrackState) => TrackState)) => {
+    const apply = typeof update === 'function' ? update : () => update;
+    state = apply(state);
+    emit();
+    if (!hydrated) {
+      pending.push(apply);
+      hydrate();
+      return;
+    }
+    // Only new points leave the index unchanged; those can wait for the next batch
+    if (serializeIndex(state) !== savedIndex) flush();
+    else if (flushTimer === null) flushTimer = setTimeout(flush, FLUSH_DELAY);
+  };
+
+  const subscribe = (listener: () => void) => {
+    listeners.add(listener);
+    hydrate();
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return { getState: () => state, setState, subscribe, hydrate, flush };
+}
+
+export const trackStore = createTrackStore({
+  tracks: [],
+  recordingTrackId: null,
+  backtrack: null,
+});
+
+/** Writes any batched track points now, e.g. before the app is suspended. */
+export const flushTracks = () => trackStore.flush();
+
+const updateTrack = (id: string, update: (track: RecordedTrack) => RecordedTrack) => {
+  trackStore.setState((prev) => ({
+    ...prev,
+    tracks: prev.tracks.map((track) => (track.id === id ? update(track) : track)),
+  }));
+};
+
+export function getRecordingTrack(): RecordedTrack | null {
+  const { tracks, recordingTrackId } = trackStore.getState();
+  return tracks.find((track) => track.id === recordingTrackId) ?? null;
+}
+
+export function getRecordingStatus(): RecordingStatus {
+  const track = getRecordingTrack();
+  if (!track) return 'stopped';
+  return track.resumedAt !== null ? 'recording' : 'paused';
+}
+
+/** The track "take me back" follows: the one being recorded, else the most recent. */
+export function getBacktrackTrack(): RecordedTrack | null {
+  const { tracks } = trackStore.getState();
+  return getRecordingTrack() ?? tracks[tracks.length - 1] ?? null;
+}
+
+export function startTrack(now = Date.now()): RecordedTrack {
+  const started = new Date(now);
+  const track: RecordedTrack = {
+    id: generateId(),
+    name: `Track ${started.toLocaleDateString()} ${started.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`,
+    startedAt: started.toISOString(),
+    segments: [[]],
+    activeDuration: 0,
+    resumedAt: now,
+  };
+  trackStore.setState((prev) => ({
+    ...prev,
+    tracks: [...prev.tracks, track],
+    recordingTrackId: track.id,
+    backtrack: null,
+  }));
+  return track;
+}
+
+export function pauseTrack(now = Date.now()) {
+  const track = getRecordingTrack();
+  if (!track || track.resumedAt === null) return;
+  updateTrack(track.id, (current) => ({
+    ...current,
+    activeDuration: current.activeDuration + (now - (current.resumedAt ?? now)),
+    resumedAt: null,
+  }));
+}
+
+export function resumeTrack(now = Date.now()) {
+  const track = getRecordingTrack();
+  if (!track || track.resumedAt !== null) return;
+  updateTrack(track.id, (current) => ({ ...current, segments: [...current.segments, []], resumedAt: now }));
+}
+
+export function stopTrack(now = Date.now()) {
+  pauseTrack(now);
+  trackStore.setState((prev) => ({
+    ...prev,
+    // Drop empty segments left by pausing without moving
+    tracks: prev.tracks.map((track) =>
+      track.id === prev.recordingTrackId
+        ? { ...track, segments: track.segments.filter((segment) => segment.length > 0) }
+        : track
+    ),
+    recordingTrackId: null,
+  }));
+}
+
+/**
+ * Appends a fix to the track being recorded; ignored while paused or stopped, and for
+ * fixes no newer than the last one (foreground and background sources can overlap).
+ */
+export function appendTrackPoint(point: RecordedPoint) {
+  const track = getRecordingTrack();
+  if (!track || track.resumedAt === null) return;
+  const segment = track.segments[track.segments.length - 1];
+  const last = segment[segment.length - 1];
+  if (last && point.timestamp <= last.timestamp) return;
+  updateTrack(track.id, (current) => {
+    const segments = [...current.segments];
+    segments[segments.length - 1] = [...segments[segments.length - 1], point];
+    return { ...current, segments };
+  });
+}
+
+export function deleteTrack(id: string) {
+  trackStore.setState((prev) => ({
+    tracks: prev.tracks.filter((track) => track.id !== id),
+    recordingTrackId: prev.recordingTrackId === id ? null : prev.recordingTrackId,
+    backtrack: prev.backtrack,
+  }));
+}
+
+export function setBacktrack(mode: BacktrackMode | null) {
+  // Recording while retracing would lay the track under our feet; freeze it instead
+  if (mode) pauseTrack();
+  trackStore.setState((prev) => ({ ...prev, backtrack: mode }));
+}
+
+export const trackPoints = (track: RecordedTrack): RecordedPoint[] => track.segments.flat();
+
+/** Walked distance in meters, skipping imprecise fixes and the gaps between segments. */
+export function trackDistance(track: RecordedTrack): number {
+  let total = 0;
+  for (const segment of track.segments) {
+    let previous: Coordinates | null = null;
+    for (const point of segment) {
+      if (point.accuracy !== null && point.accuracy > MAX_DISTANCE_ACCURACY) continue;
+      if (previous) total += haversineDistance(previous, point);
+      previous = point;
+    }
+  }
+  return total;
+}
+
+/** Milliseconds spent recording, excluding pauses. */
+export function trackElapsed(track: RecordedTrack, now = Date.now()): number {
+  return track.activeDuration + (track.resumedAt !== null ? now - track.resumedAt : 0);
+}
+
+export function toGpxTrack(track: RecordedTrack): GpxTrack {
+  return {
+    name: track.name,
+    points: trackPoints(track).map(({ latitude, longitude, timestamp, elevation }) => ({
+      latitude,
+      longitude,
+      timestamp,
+      elevation,
+    })),
+  };
+}
@@ -0,0 +1,183 @@
+/**
+ * UTM and MGRS conversions on the WGS-84 ellipsoid (Snyder's transverse Mercator series,
+ * accurate to well under a meter inside each zone).
+ */
+
+import { normalizeBearing, toDegrees, toRadians, type Coordinates } from '@/lib/geo';
+
+export type UtmCoordinates = {
+  zone: number;
+  band: string;
+  easting: number;
+  northing: number;
+};
+
+const a = 6378137;
+const f = 1 / 298.257223563;
+const k0 = 0.9996;
+const e2 = f * (2 - f);
+const ep2 = e2 / (1 - e2);
+const FALSE_EASTING = 500000;
+const FALSE_NORTHING_SOUTH = 10000000;
+
+/** Latitude bands C..X, 8° each from 80°S (X is 12° tall). */
+const LATITUDE_BANDS = 'CDEFGHJKLMNPQRSTUVWX';
+/** MGRS 100 km column letters, repeating every three zones. */
+const COLUMN_LETTERS = ['ABCDEFGH', 'JKLMNPQR', 'STUVWXYZ'];
+/** MGRS 100 km row letters; even zones start at F. */
+const ROW_LETTERS = 'ABCDEFGHJKLMNPQRSTUV';
+
+export const UTM_MIN_LATITUDE = -80;
+export const UTM_MAX_LATITUDE = 84;
+
+export function isInUtmRange(latitude: number): boolean {
+  return latitude >= UTM_MIN_LATITUDE && latitude < UTM_MAX_LATITUDE;
+}
+
+export function latitudeBand(latitude: number): string {
+  const index = Math.floor((latitude - UTM_MIN_LATITUDE) / 8);
+  return LATITUDE_BANDS[Math.min(Math.max(index, 0), LATITUDE_BANDS.length - 1)];
+}
+
+/** UTM zone for a position, including the Norway and Svalbard exceptions. */
+export function utmZone({ latitude, longitude }: Coordinates): number {
+  const lon = normalizeBearing(longitude + 180) - 180;
+  let zone = Math.floor((lon + 180) / 6) + 1;
+
+  if (latitude >= 56 && latitude < 64 && lon >= 3 && lon < 12) zone = 32;
+  if (latitude >= 72 && latitude < 84) {
+    if (lon >= 0 && lon < 9) zone = 31;
+    else if (lon >= 9 && lon < 21) zone = 33;
+    else if (lon >= 21 && lon < 33) zone = 35;
+    else if (lon >= 33 && lon < 42) zone = 37;
+  }
+  return zone;
+}
+
+const centralMeridian = (zone: number) => (zone - 1) * 6 - 180 + 3;
+
+const meridionalArc = (φ: number) =>
+  a *
+  ((1 - e2 / 4 - (3 * e2 ** 2) / 64 - (5 * e2 ** 3) / 256) * φ -
+    ((3 * e2) / 8 + (3 * e2 ** 2) / 32 + (45 * e2 ** 3) / 1024) * Math.sin(2 * φ) +
+    ((15 * e2 ** 2) / 256 + (45 * e2 ** 3) / 1024) * Math.sin(4 * φ) -
+    ((35 * e2 ** 3) / 3072) * Math.sin(6 * φ));
+
+/** Projects a position into a given UTM zone (defaults to its own zone). */
+export function toUtm(coordinates: Coordinates, zone = utmZone(coordinates)): UtmCoordinates {
+  const φ = toRadians(coordinates.latitude);
+  const Δλ = toRadians(normalizeBearing(coordinates.longitude - centralMeridian(zone) + 180) - 180);
+
+  const N = a / Math.sqrt(1 - e2 * Math.sin(φ) ** 2);
+  const T = Math.tan(φ) ** 2;
+  const C = ep2 * Math.cos(φ) ** 2;
+  const A = Math.cos(φ) * Δλ;
+  const M = meridionalArc(φ);
+
+  const easting =
+    k0 *
+      N *
+      (A + ((1 - T + C) * A ** 3) / 6 + ((5 - 18 * T + T ** 2 + 72 * C - 58 * ep2) * A ** 5) / 120) +
+    FALSE_EASTING;
+  let northing =
+    k0 *
+    (M +
+      N *
+        Math.tan(φ) *
+        (A ** 2 / 2 +
+          ((5 - T + 9 * C + 4 * C ** 2) * A ** 4) / 24 +
+          ((61 - 58 * T + T ** 2 + 600 * C - 330 * ep2) * A ** 6) / 720));
+  if (coordinates.latitude < 0) northing += FALSE_NORTHING_SOUTH;
+
+  return { zone, band: latitudeBand(coordinates.latitude), easting, northing };
+}
+
+/** Converts UTM back to latitude/longitude. The band only decides the hemisphere. */
+export function fromUtm({ zone, band, easting, northing }: UtmCoordinates): Coordinates {
+  const southern = band.toUpperCase() < 'N';
+  const x = easting - FALSE_EASTING;
+  const y = southern ? northing - FALSE_NORTHING_SOUTH : northing;
+
+  const μ = y / k0 / (a * (1 - e2 / 4 - (3 * e2 ** 2) / 64 - (5 * e2 ** 3) / 256));
+  const e1 = (1 - Math.sqrt(1 - e2)) / (1 + Math.sqrt(1 - e2));
+  const φ1 =
+    μ +
+    ((3 * e1) / 2 - (27 * e1 ** 3) / 32) * Math.sin(2 * μ) +
+    ((21 * e1 ** 2) / 16 - (55 * e1 ** 4) / 32) * Math.sin(4 * μ) +
+    ((151 * e1 ** 3) / 96) * Math.sin(6 * μ) +
+    ((1097 * e1 ** 4) / 512) * Math.sin(8 * μ);
+
+  const sinφ1 = Math.sin(φ1);
+  const N1 = a / Math.sqrt(1 - e2 * sinφ1 ** 2);
+  const T1 = Math.tan(φ1) ** 2;
+  const C1 = ep2 * Math.cos(φ1) ** 2;
+  const R1 = (a * (1 - e2)) / (1 - e2 * sinφ1 ** 2) ** 1.5;
+  const D = x / (N1 * k0);
+
+  const φ =
+    φ1 -
+    ((N1 * Math.tan(φ1)) / R1) *
+      (D ** 2 / 2 -
+        ((5 + 3 * T1 + 10 * C1 - 4 * C1 ** 2 - 9 * ep2) * D ** 4) / 24 +
+        ((61 + 90 * T1 + 298 * C1 + 45 * T1 ** 2 - 252 * ep2 - 3 * C1 ** 2) * D ** 6) / 720);
+  const λ =
+    (D -
+      ((1 + 2 * T1 + C1) * D ** 3) / 6 +
+      ((5 - 2 * C1 + 28 * T1 - 3 * C1 ** 2 + 8 * ep2 + 24 * T1 ** 2) * D ** 5) / 120) /
+    Math.cos(φ1);
+
+  return {
+    latitude: toDegrees(φ),
+    longitude: normalizeBearing(centralMeridian(zone) + toDegrees(λ) + 180) - 180,
+  };
+}
+
+/** MGRS grid reference split into its parts; easting/northing are meters within the square. */
+export type MgrsCoordinates = {
+  zone: number;
+  band: string;
+  square: string;
+  easting: number;
+  northing: number;
+};
+
+export function toMgrs(coordinates: Coordinates): MgrsCoordinates {
+  const { zone, band, easting, northing } = toUtm(coordinates);
+  const column = Math.floor(easting / 100000);
+  const row = Math.floor(northing / 100000) % 20;
+  const columnLetter = COLUMN_LETTERS[(zone - 1) % 3][column - 1];
+  const rowLetter = ROW_LETTERS[(row + (zone % 2 === 0 ? 5 : 0)) % 20];
+
+  return {
+    zone,
+    band,
+    square: columnLetter + rowLetter,
+    easting: easting % 100000,
+    northing: northing % 100000,
+  };
+}
+
+/** Returns null when the 100 km square letters do not exist in the given zone. */
+export function fromMgrs({ zone, band, square, easting, northing }: MgrsCoordinates): Coordinates | null {
+  const columnIndex = COLUMN_LETTERS[(zone - 1) % 3].indexOf(square[0].toUpperCase());
+  const rowIndex = ROW_LETTERS.indexOf(square[1].toUpperCase());
+  if (columnIndex < 0 || rowIndex < 0) return null;
+
+  const squareEasting = (columnIndex + 1) * 100000;
+  const squareNorthing = ((rowIndex - (zone % 2 === 0 ? 5 : 0) + 20) % 20) * 100000;
+
+  // Row letters repeat every 2000 km; pick the cycle that lands inside the latitude band
+  const bandLatitude = (LATITUDE_BANDS.indexOf(band.toUpperCase()) - 10) * 8;
+  const bandNorthing =
+    Math.floor(toUtm({ latitude: bandLatitude, longitude: centralMeridian(zone) }, zone).northing / 100000) *
+    100000;
+  let cycle = 0;
+  while (cycle + squareNorthing + northing < bandNorthing) cycle += 2000000;
+
+  return fromUtm({
+    zone,
+    band,
+    easting: squareEasting + easting,
+    northing: cycle + squareNorthing + northing,
+  });
+}
@@ -0,0 +1,84 @@
+import { haversineDistance, type Coordinates } from '@/lib/geo';
+import { DEFAULT_ACCURACY } from '@/lib/positionFilter';
+
+export type AveragingSample = Coordinates & {
+  /** Horizontal accuracy in meters, or null when the fix did not report one. */
+  accuracy: number | null;
+};
+
+export type AveragedWaypoint = {
+  coordinates: Coordinates;
+  /** Weighted RMS distance (m) of the samples from the average: how much they scattered. */
+  spread: number;
+  /** Largest distance (m) of any sample from the average. */
+  maxDeviation: number;
+  sampleCount: number;
+};
+
+/** How a capture decides it has enough fixes. */
+export type AveragingGoal = { kind: 'duration'; seconds: number } | { kind: 'samples'; count: number };
+
+export const AVERAGING_GOALS: AveragingGoal[] = [
+  { kind: 'duration', seconds: 30 },
+  { kind: 'duration', seconds: 60 },
+  { kind: 'duration', seconds: 180 },
+  { kind: 'samples', count: 20 },
+  { kind: 'samples', count: 50 },
+  { kind: 'samples', count: 100 },
+];
+
+/** Floor on accuracy so one optimistic fix cannot outweigh all the others. */
+const MIN_ACCURACY = 2;
+
+export const averagingGoalLabel = (goal: AveragingGoal) =>
+  goal.kind === 'duration' ? `${goal.seconds}s` : `${goal.count} FIXES`;
+
+/** Fraction of the goal reached, 0 to 1. */
+export function averagingProgress(goal: AveragingGoal, sampleCount: number, elapsedSeconds: number): number {
+  const progress = goal.kind === 'duration' ? elapsedSeconds / goal.seconds : sampleCount / goal.count;
+  return Math.min(1, Math.max(0, progress));
+}
+
+/**
+ * Mean position of the samples, each weighted by 1/accuracy² so precise fixes count
+ * most. Averaging the degrees directly is exact enough for the few meters a
+ * stationary capture scatters over. Returns null without samples.
+ */
+export function averageWaypoint(samples: AveragingSample[]): AveragedWaypoint | null {
+  if (samples.length === 0) return null;
+
+  const weights = samples.map(({ accuracy }) => {
+    const meters = Math.max(accuracy ?? DEFAULT_ACCURACY, MIN_ACCURACY);
+    return 1 / (meters * meters);
+  });
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+
+  // Offsets from the first sample, wrapped so a capture on the antimeridian still averages
+  const origin = samples[0];
+  const wrap = (degrees: number) => ((((degrees + 180) % 360) + 360) % 360) - 180;
+  let latitudeOffset = 0;
+  let longitudeOffset = 0;
+  samples.forEach((sample, index) => {
+    latitudeOffset += weights[index] * (sample.latitude - origin.latitude);
+    longitudeOffset += weights[index] * wrap(sample.longitude - origin.longitude);
+  });
+  const coordinates = {
+    latitude: origin.latitude + latitudeOffset / total,
+    longitude: wrap(origin.longitude + longitudeOffset / total),
+  };
+
+  let squaredSpread = 0;
+  let maxDeviation = 0;
+  samples.forEach((sample, index) => {
+    const distance = haversineDistance(coordinates, sample);
+    squaredSpread += weights[index] * distance * distance;
+    maxDeviation = Math.max(maxDeviation, distance);
+  });
+
+  return {
+    coordinates,
+    spread: Math.sqrt(squaredSpread / total),
+    maxDeviation,
+    sampleCount: samples.length,
+  };
+}